@@ -26,8 +26,13 @@ import {
   TasksPage,
   TaskDetailPage,
   NotesPage,
+  NoteDetailPage,
+  NoteReviewPage,
   CodePage,
+  CodeFilePage,
+  ReleaseDetailPage,
   FeatureGraphDetailPage,
+  ActivityPage,
   NotFoundPage,
   SetupWizard,
 } from '@/pages'
@@ -144,8 +149,13 @@ function App() {
                         <Route path="tasks" element={<TasksPage />} />
                         <Route path="tasks/:taskId" element={<TaskDetailPage />} />
                         <Route path="notes" element={<NotesPage />} />
+                        <Route path="notes/review" element={<NoteReviewPage />} />
+                        <Route path="notes/:noteId" element={<NoteDetailPage />} />
                         <Route path="code" element={<CodePage />} />
+                        <Route path="code/file/*" element={<CodeFilePage />} />
+                        <Route path="releases/:releaseId" element={<ReleaseDetailPage />} />
                         <Route path="feature-graphs/:id" element={<FeatureGraphDetailPage />} />
+                        <Route path="activity" element={<ActivityPage />} />
                         <Route path="*" element={<NotFoundPage embedded />} />
                       </Route>
                     </Route>
@@ -0,0 +1,77 @@
+import { atom } from 'jotai'
+import type { CrudEvent, EntityType } from '@/types'
+
+/**
+ * Normalized store of entity changes received over the event bus, keyed by
+ * `entity_type:entity_id`. Pages keep their own fetched data and apply these
+ * records in place (see `useEntityPatches`) instead of refetching.
+ */
+export interface EntityRecord {
+  entityType: EntityType
+  id: string
+  /** Latest known fields, merged from `created` / `updated` / `linked` payloads */
+  fields: Record<string, unknown>
+  /** Fields cleared by the most recent change (`unlinked` relations) */
+  cleared: string[]
+  deleted: boolean
+  /** Store version at which this record last changed */
+  version: number
+}
+
+export interface EntityStore {
+  records: Record<string, EntityRecord>
+  /** Incremented on every applied event */
+  version: number
+}
+
+const MAX_RECORDS = 2000
+
+export const entityKey = (entityType: EntityType, id: string) => `${entityType}:${id}`
+
+export const entityStoreAtom = atom<EntityStore>({ records: {}, version: 0 })
+
+/**
+ * Apply a CrudEvent to the store:
+ * - `created` / `updated` merge the payload into the record
+ * - `deleted` marks it deleted
+ * - `linked` merges the relation fields (e.g. `project_id`), `unlinked` clears them
+ */
+export const applyCrudEventAtom = atom(null, (get, set, event: CrudEvent) => {
+  const store = get(entityStoreAtom)
+  const key = entityKey(event.entity_type, event.entity_id)
+  const previous = store.records[key]
+  const payload = event.payload || {}
+  const version = store.version + 1
+
+  let fields = previous?.fields ?? {}
+  let cleared: string[] = []
+  switch (event.action) {
+    case 'created':
+    case 'updated':
+    case 'linked':
+      fields = { ...fields, ...payload }
+      break
+    case 'unlinked':
+      cleared = Object.keys(payload)
+      fields = Object.fromEntries(Object.entries(fields).filter(([k]) => !cleared.includes(k)))
+      break
+  }
+
+  const records = { ...store.records }
+  delete records[key] // re-insert so key order doubles as recency order
+  records[key] = {
+    entityType: event.entity_type,
+    id: event.entity_id,
+    fields,
+    cleared,
+    deleted: event.action === 'deleted',
+    version,
+  }
+
+  const keys = Object.keys(records)
+  if (keys.length > MAX_RECORDS) {
+    for (const old of keys.slice(0, keys.length - MAX_RECORDS)) delete records[old]
+  }
+
+  set(entityStoreAtom, { records, version })
+})
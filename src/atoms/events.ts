@@ -1,8 +1,14 @@
 import { atom } from 'jotai'
-import type { EventBusStatus } from '@/types'
+import type { EventBusStatus, OfflineState } from '@/types'
 
 export const eventBusStatusAtom = atom<EventBusStatus>('disconnected')
 
+/** Last moment the event bus was known to be up to date (null before the first connect) */
+export const eventBusLastSyncedAtom = atom<Date | null>(null)
+
+/** API reachability and number of mutations waiting to be replayed */
+export const offlineStateAtom = atom<OfflineState>({ online: true, pending: 0 })
+
 /**
  * Bump counters per entity type. Pages add these to their useEffect deps
  * to re-fetch when a WS CRUD event arrives for that entity type.
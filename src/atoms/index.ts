@@ -7,4 +7,5 @@ export * from './notes'
 export * from './ui'
 export * from './chat'
 export * from './events'
+export * from './entities'
 export * from './setup'
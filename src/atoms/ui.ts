@@ -1,14 +1,51 @@
 import { atom } from 'jotai'
 import { atomWithStorage } from 'jotai/utils'
+import type { NotificationSettings, SavedView, SavedViewPage, WorkspaceWipSettings } from '@/types'
 
 export const sidebarCollapsedAtom = atom<boolean>(false)
 
 export const globalSearchQueryAtom = atom<string>('')
 
+/** Whether the Cmd/Ctrl+K command palette is open */
+export const commandPaletteOpenAtom = atom<boolean>(false)
+
+/** Whether the keyboard shortcut cheat sheet (`?`) is open */
+export const shortcutCheatSheetOpenAtom = atom<boolean>(false)
+
 export const activeModalAtom = atom<string | null>(null)
 
 export const toastMessagesAtom = atom<
-  { id: string; type: 'success' | 'error' | 'info' | 'warning'; message: string }[]
+  {
+    id: string
+    type: 'success' | 'error' | 'info' | 'warning'
+    message: string
+    /** Button next to the message, e.g. Undo; clicking it dismisses the toast */
+    action?: { label: string; onClick: () => void }
+  }[]
 >([])
 
 export const tasksViewModeAtom = atomWithStorage<'list' | 'kanban'>('tasks-view-mode', 'list')
+
+/** Whether the activity feed drawer is open */
+export const activityDrawerOpenAtom = atom<boolean>(false)
+
+/** Whether the notification settings dialog is open */
+export const notificationSettingsOpenAtom = atom<boolean>(false)
+
+/** Browser / desktop notification preferences (off until the user opts in) */
+export const notificationSettingsAtom = atomWithStorage<NotificationSettings>('po-notification-settings', {
+  enabled: false,
+  types: { chat_result: true, permission_request: true, task_blocked: true, task_failed: true },
+})
+
+/** Kanban WIP limits and drop policy loaded from the API, per workspace slug */
+export const kanbanWipSettingsAtom = atom<Record<string, WorkspaceWipSettings>>({})
+
+/** Personal saved views, per workspace slug */
+export const personalSavedViewsAtom = atomWithStorage<Record<string, SavedView[]>>('po-saved-views', {})
+
+/** The user's default saved view id, per workspace slug and page */
+export const defaultSavedViewsAtom = atomWithStorage<Record<string, Partial<Record<SavedViewPage, string>>>>(
+  'po-default-views',
+  {},
+)
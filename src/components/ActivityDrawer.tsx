@@ -0,0 +1,67 @@
+import { createPortal } from 'react-dom'
+import { useAtom } from 'jotai'
+import { Link } from 'react-router-dom'
+import { X } from 'lucide-react'
+import { activityDrawerOpenAtom } from '@/atoms'
+import { useShortcuts, useWorkspaceSlug } from '@/hooks'
+import { workspacePath } from '@/utils/paths'
+import { ActivityFeed } from './ActivityFeed'
+
+/**
+ * Right-hand drawer with the live activity feed, so recent changes can be
+ * followed from any page. Toggled from the header (bound in MainLayout).
+ */
+export function ActivityDrawer() {
+  const [open, setOpen] = useAtom(activityDrawerOpenAtom)
+  const wsSlug = useWorkspaceSlug()
+
+  useShortcuts(
+    'Activity',
+    [{ keys: 'escape', description: 'Close activity', handler: () => setOpen(false), allowInInput: true }],
+    open,
+  )
+
+  return createPortal(
+    <div
+      className={`fixed inset-0 z-40 transition-opacity duration-200 ${open ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="activity-drawer-title"
+    >
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/40" onClick={() => setOpen(false)} />
+
+      {/* Panel */}
+      <aside
+        className={`absolute right-0 top-0 bottom-0 w-full sm:w-96 flex flex-col bg-surface-raised border-l border-border-subtle transition-transform duration-200 ${
+          open ? 'translate-x-0' : 'translate-x-full'
+        }`}
+      >
+        <div className="h-16 flex items-center justify-between px-4 border-b border-border-subtle shrink-0">
+          <h3 id="activity-drawer-title" className="text-lg font-semibold text-gray-100">
+            Activity
+          </h3>
+          <div className="flex items-center gap-2">
+            <Link
+              to={workspacePath(wsSlug, '/activity')}
+              onClick={() => setOpen(false)}
+              className="text-xs text-indigo-400 hover:text-indigo-300 transition-colors"
+            >
+              Open full page
+            </Link>
+            <button
+              onClick={() => setOpen(false)}
+              className="p-1 text-gray-400 hover:text-gray-200 rounded transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Only mounted while open: no history fetch or live buffer in the background */}
+        <div className="flex-1 overflow-y-auto p-4">{open && <ActivityFeed compact />}</div>
+      </aside>
+    </div>,
+    document.body,
+  )
+}
@@ -0,0 +1,296 @@
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { useAtomValue } from 'jotai'
+import { Activity, Plus, Pencil, Trash2, Link2, Unlink, User } from 'lucide-react'
+import { activeWorkspaceAtom } from '@/atoms'
+import { workspacesApi } from '@/services'
+import { Select, EmptyState, LoadMoreSentinel, SkeletonCard } from '@/components/ui'
+import { useEventBus, useInfiniteList, useWorkspaceSlug } from '@/hooks'
+import { activityKey, activityPath, activityTitle, describeActivity, entityLabel, toActivityEntry } from '@/utils/activity'
+import type { ActivityEntry, CrudAction, CrudEvent, EntityType, PaginatedResponse, Project } from '@/types'
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+interface ActivityFeedProps {
+  /** Narrow layout for the sidebar drawer: stacked filters, smaller groups */
+  compact?: boolean
+}
+
+interface ActivityFilters {
+  entity_type?: EntityType
+  action?: CrudAction
+  project_id?: string
+}
+
+/** Live entries kept on top of the fetched history before a refetch is needed */
+const MAX_LIVE_ENTRIES = 200
+
+const typeOptions = [
+  { value: 'all', label: 'All Types' },
+  { value: 'project', label: 'Projects' },
+  { value: 'plan', label: 'Plans' },
+  { value: 'task', label: 'Tasks' },
+  { value: 'step', label: 'Steps' },
+  { value: 'note', label: 'Notes' },
+  { value: 'milestone', label: 'Milestones' },
+  { value: 'release', label: 'Releases' },
+  { value: 'commit', label: 'Commits' },
+  { value: 'decision', label: 'Decisions' },
+]
+
+const actionOptions = [
+  { value: 'all', label: 'All Changes' },
+  { value: 'created', label: 'Created' },
+  { value: 'updated', label: 'Updated' },
+  { value: 'deleted', label: 'Deleted' },
+  { value: 'linked', label: 'Linked' },
+  { value: 'unlinked', label: 'Unlinked' },
+]
+
+const actionIcons: Record<CrudAction, typeof Plus> = {
+  created: Plus,
+  updated: Pencil,
+  deleted: Trash2,
+  linked: Link2,
+  unlinked: Unlink,
+}
+
+const actionColors: Record<CrudAction, string> = {
+  created: 'text-emerald-400 bg-emerald-500/10',
+  updated: 'text-blue-400 bg-blue-500/10',
+  deleted: 'text-red-400 bg-red-500/10',
+  linked: 'text-indigo-400 bg-indigo-500/10',
+  unlinked: 'text-gray-400 bg-white/[0.06]',
+}
+
+// ============================================================================
+// ACTIVITY FEED
+// ============================================================================
+
+/**
+ * Chronological feed of workspace changes: history from the activity
+ * endpoint (infinite scroll) with live events from the event bus prepended.
+ * Consecutive entries by the same actor in the same project are grouped.
+ */
+export function ActivityFeed({ compact = false }: ActivityFeedProps) {
+  const wsSlug = useWorkspaceSlug()
+  const workspaceId = useAtomValue(activeWorkspaceAtom)?.id
+  const [typeFilter, setTypeFilter] = useState('all')
+  const [actionFilter, setActionFilter] = useState('all')
+  const [projectFilter, setProjectFilter] = useState('all')
+  const [projects, setProjects] = useState<Project[]>([])
+
+  useEffect(() => {
+    workspacesApi
+      .listProjects(wsSlug)
+      .then(setProjects)
+      .catch(() => setProjects([]))
+  }, [wsSlug])
+
+  const filters = useMemo<ActivityFilters & { _ws: string }>(
+    () => ({
+      entity_type: typeFilter !== 'all' ? (typeFilter as EntityType) : undefined,
+      action: actionFilter !== 'all' ? (actionFilter as CrudAction) : undefined,
+      project_id: projectFilter !== 'all' ? projectFilter : undefined,
+      _ws: wsSlug,
+    }),
+    [typeFilter, actionFilter, projectFilter, wsSlug],
+  )
+  const filtersKey = JSON.stringify(filters)
+
+  const fetcher = useCallback(
+    (params: { limit: number; offset: number } & ActivityFilters, signal: AbortSignal): Promise<PaginatedResponse<ActivityEntry>> =>
+      workspacesApi.listActivity(
+        wsSlug,
+        {
+          limit: params.limit,
+          offset: params.offset,
+          entity_type: params.entity_type,
+          action: params.action,
+          project_id: params.project_id,
+        },
+        { signal },
+      ),
+    [wsSlug],
+  )
+
+  const { items, loading, loadingMore, hasMore, sentinelRef } = useInfiniteList({ fetcher, filters })
+
+  // Live entries belong to the filter set they were received under; a filter
+  // change refetches the history, which already contains them
+  const [live, setLive] = useState<{ key: string; entries: ActivityEntry[] }>({ key: filtersKey, entries: [] })
+
+  // The bus carries events of every workspace — keep the ones of this workspace's
+  // projects, and unscoped ones (workspace milestones, resources, notes…) unless
+  // they name another workspace
+  const projectIds = useMemo(() => new Set(projects.map((p) => p.id)), [projects])
+
+  const handleEvent = useCallback(
+    (event: CrudEvent) => {
+      if (event.project_id) {
+        if (!projectIds.has(event.project_id)) return
+      } else {
+        const eventWorkspaceId = event.entity_type === 'workspace' ? event.entity_id : event.payload.workspace_id
+        if (typeof eventWorkspaceId === 'string' && eventWorkspaceId !== workspaceId) return
+      }
+      if (filters.entity_type && event.entity_type !== filters.entity_type) return
+      if (filters.action && event.action !== filters.action) return
+      if (filters.project_id && event.project_id !== filters.project_id) return
+      setLive((prev) => ({
+        key: filtersKey,
+        entries: [toActivityEntry(event), ...(prev.key === filtersKey ? prev.entries : [])].slice(0, MAX_LIVE_ENTRIES),
+      }))
+    },
+    [filters, filtersKey, projectIds, workspaceId],
+  )
+  useEventBus(handleEvent)
+
+  // Offset pagination shifts as new events are recorded, so de-duplicate
+  const entries = useMemo(() => {
+    const seen = new Set<string>()
+    const liveEntries = live.key === filtersKey ? live.entries : []
+    return [...liveEntries, ...items].filter((entry) => {
+      const key = activityKey(entry)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }, [live, filtersKey, items])
+
+  const projectNames = useMemo(() => new Map(projects.map((p) => [p.id, p.name])), [projects])
+  const groups = useMemo(() => groupEntries(entries), [entries])
+
+  const projectOptions = [
+    { value: 'all', label: 'All Projects' },
+    ...projects.map((p) => ({ value: p.id, label: p.name })),
+  ]
+
+  return (
+    <div>
+      <div className={`grid gap-2 mb-4 ${compact ? 'grid-cols-1' : 'grid-cols-1 sm:grid-cols-3'}`}>
+        <Select options={typeOptions} value={typeFilter} onChange={setTypeFilter} />
+        <Select options={actionOptions} value={actionFilter} onChange={setActionFilter} />
+        <Select options={projectOptions} value={projectFilter} onChange={setProjectFilter} />
+      </div>
+
+      {loading && entries.length === 0 ? (
+        <div className="space-y-3">
+          {Array.from({ length: compact ? 3 : 5 }).map((_, i) => (
+            <SkeletonCard key={i} lines={2} />
+          ))}
+        </div>
+      ) : entries.length === 0 ? (
+        <EmptyState
+          icon={<Activity className="w-8 h-8" />}
+          title="No activity yet"
+          description="Changes to projects, plans, tasks and notes show up here as they happen."
+        />
+      ) : (
+        <div className={compact ? 'space-y-4' : 'space-y-5'}>
+          {groups.map((group) => (
+            <div key={group.key}>
+              <div className="flex items-center gap-2 mb-1.5 text-xs text-gray-500">
+                <span className="font-medium text-gray-400 truncate">
+                  {group.projectName ?? (group.projectId ? projectNames.get(group.projectId) : undefined) ?? 'Workspace'}
+                </span>
+                <span>·</span>
+                <span className="flex items-center gap-1 truncate">
+                  <User className="w-3 h-3 shrink-0" />
+                  {group.actor ?? 'unknown'}
+                </span>
+              </div>
+              <ul className="space-y-1 border-l border-border-subtle pl-3">
+                {group.entries.map((entry) => (
+                  <ActivityRow key={entry.id} entry={entry} href={activityPath(wsSlug, entry)} />
+                ))}
+              </ul>
+            </div>
+          ))}
+          <LoadMoreSentinel sentinelRef={sentinelRef} loadingMore={loadingMore} hasMore={hasMore} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// ROW
+// ============================================================================
+
+function ActivityRow({ entry, href }: { entry: ActivityEntry; href?: string }) {
+  const Icon = actionIcons[entry.action]
+  const title = activityTitle(entry)
+
+  return (
+    <li className="flex items-start gap-2 py-1 text-sm">
+      <span className={`mt-0.5 p-1 rounded shrink-0 ${actionColors[entry.action]}`}>
+        <Icon className="w-3 h-3" />
+      </span>
+      <span className="min-w-0 flex-1 text-gray-400">
+        {entityLabel(entry.entity_type)}{' '}
+        {href ? (
+          <Link to={href} className="text-gray-200 hover:text-indigo-400 transition-colors">
+            {title}
+          </Link>
+        ) : (
+          <span className="text-gray-200">{title}</span>
+        )}{' '}
+        {describeActivity(entry)}
+      </span>
+      <time
+        className="shrink-0 text-xs text-gray-600"
+        dateTime={entry.timestamp}
+        title={new Date(entry.timestamp).toLocaleString()}
+      >
+        {relativeTime(entry.timestamp)}
+      </time>
+    </li>
+  )
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+interface ActivityGroup {
+  key: string
+  projectId?: string
+  projectName?: string
+  actor?: string
+  entries: ActivityEntry[]
+}
+
+/** Group consecutive entries sharing a project and actor */
+function groupEntries(entries: ActivityEntry[]): ActivityGroup[] {
+  const groups: ActivityGroup[] = []
+  for (const entry of entries) {
+    const last = groups[groups.length - 1]
+    if (last && last.projectId === entry.project_id && last.actor === entry.actor) {
+      last.entries.push(entry)
+      last.projectName ??= entry.project_name
+      continue
+    }
+    groups.push({
+      key: entry.id,
+      projectId: entry.project_id,
+      projectName: entry.project_name,
+      actor: entry.actor,
+      entries: [entry],
+    })
+  }
+  return groups
+}
+
+/** Format a date string as relative time (e.g. "5m ago", "2d ago") */
+function relativeTime(dateStr: string): string {
+  const then = new Date(dateStr).getTime()
+  if (isNaN(then)) return ''
+  const minutes = Math.floor((Date.now() - then) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  return `${Math.floor(hours / 24)}d ago`
+}
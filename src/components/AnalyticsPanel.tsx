@@ -0,0 +1,227 @@
+import { useMemo, useState } from 'react'
+import { Sparkline } from '@/components/ui'
+import {
+  computeBurndown,
+  computeComplexityAccuracy,
+  computeCycleTimes,
+  computeWeeklyVelocity,
+  type AnalyticsTask,
+} from '@/utils/analytics'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface AnalyticsPanelProps {
+  tasks: AnalyticsTask[]
+  /** Plan or milestone target date — adds an ideal line to the burndown */
+  targetDate?: string
+}
+
+const VELOCITY_WEEKS = 8
+
+const formatDays = (days: number) => (days < 1 ? `${Math.round(days * 24)}h` : `${days.toFixed(1)}d`)
+
+const shortDate = (ms: number) => new Date(ms).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Delivery metrics derived from task timestamps: burndown, weekly velocity,
+ * cycle time distribution and estimated vs actual complexity.
+ */
+export function AnalyticsPanel({ tasks, targetDate }: AnalyticsPanelProps) {
+  const [now] = useState(() => Date.now())
+  const burndown = useMemo(() => computeBurndown(tasks, targetDate, now), [tasks, targetDate, now])
+  const velocity = useMemo(() => computeWeeklyVelocity(tasks, VELOCITY_WEEKS, now), [tasks, now])
+  const cycle = useMemo(() => computeCycleTimes(tasks), [tasks])
+  const accuracy = useMemo(() => computeComplexityAccuracy(tasks), [tasks])
+
+  if (tasks.length === 0) {
+    return <p className="text-gray-500 text-sm">No tasks to analyze</p>
+  }
+
+  const totalVelocity = velocity.reduce((sum, w) => sum + w.completed, 0)
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <ChartBlock
+        title="Burndown"
+        summary={`${burndown.remaining[burndown.remaining.length - 1] ?? 0} open`}
+      >
+        <BurndownChart {...burndown} />
+      </ChartBlock>
+
+      <ChartBlock
+        title="Weekly velocity"
+        summary={`${(totalVelocity / VELOCITY_WEEKS).toFixed(1)} / week avg`}
+      >
+        <BarChart
+          bars={velocity.map((w) => ({
+            key: String(w.weekStart),
+            value: w.completed,
+            label: shortDate(w.weekStart),
+            title: `Week of ${shortDate(w.weekStart)}: ${w.completed} completed`,
+          }))}
+          color="bg-green-500/60"
+        />
+      </ChartBlock>
+
+      <ChartBlock
+        title="Cycle time"
+        summary={cycle.median != null ? `median ${formatDays(cycle.median)}` : undefined}
+      >
+        {cycle.samples === 0 ? (
+          <p className="text-gray-500 text-sm">No tasks with both a start and completion time</p>
+        ) : (
+          <BarChart
+            bars={cycle.buckets.map((b) => ({
+              key: b.label,
+              value: b.count,
+              label: b.label,
+              title: `${b.count} task${b.count !== 1 ? 's' : ''} took ${b.label}`,
+            }))}
+            color="bg-indigo-500/60"
+          />
+        )}
+      </ChartBlock>
+
+      <ChartBlock
+        title="Estimated vs actual complexity"
+        summary={
+          accuracy.meanDelta != null
+            ? `${accuracy.meanDelta >= 0 ? '+' : ''}${accuracy.meanDelta.toFixed(1)} avg`
+            : undefined
+        }
+      >
+        {accuracy.points.length === 0 ? (
+          <p className="text-gray-500 text-sm">No tasks with both estimated and actual complexity</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2">
+              <AccuracyStat label="Underestimated" value={accuracy.under} className="text-red-400" />
+              <AccuracyStat label="On target" value={accuracy.accurate} className="text-green-400" />
+              <AccuracyStat label="Overestimated" value={accuracy.over} className="text-amber-400" />
+            </div>
+            <ComplexityScatter points={accuracy.points} />
+          </div>
+        )}
+      </ChartBlock>
+    </div>
+  )
+}
+
+// ============================================================================
+// CHARTS
+// ============================================================================
+
+function ChartBlock({ title, summary, children }: { title: string; summary?: string; children: React.ReactNode }) {
+  return (
+    <div className="p-3 bg-white/[0.06] rounded-lg min-w-0">
+      <div className="flex items-baseline justify-between gap-2 mb-3">
+        <span className="text-sm font-medium text-gray-200">{title}</span>
+        {summary && <span className="text-xs text-gray-400 tabular-nums">{summary}</span>}
+      </div>
+      {children}
+    </div>
+  )
+}
+
+/**
+ * Actual remaining work drawn up to today over the ideal line, which spans
+ * the full range up to the target date.
+ */
+function BurndownChart({ days, remaining, ideal }: ReturnType<typeof computeBurndown>) {
+  if (remaining.length < 2) {
+    return <p className="text-gray-500 text-sm">Not enough history yet</p>
+  }
+  const max = Math.max(...remaining, ...(ideal || []))
+  const actualWidth = ((remaining.length - 1) / (days.length - 1)) * 100
+
+  return (
+    <div>
+      <div className="relative h-24">
+        {ideal && (
+          <Sparkline
+            data={ideal}
+            min={0}
+            max={max}
+            color="#6b7280"
+            strokeWidth={1}
+            animationDuration={0}
+            className="absolute inset-0 w-full h-full"
+          />
+        )}
+        <div className="absolute inset-y-0 left-0" style={{ width: `${actualWidth}%` }}>
+          <Sparkline data={remaining} min={0} max={max} color="#818cf8" fill className="w-full h-full" />
+        </div>
+      </div>
+      <div className="flex justify-between mt-1 text-[10px] text-gray-500">
+        <span>{shortDate(days[0])}</span>
+        {ideal && <span className="text-gray-400">— ideal</span>}
+        <span>{shortDate(days[days.length - 1])}</span>
+      </div>
+    </div>
+  )
+}
+
+interface Bar {
+  key: string
+  value: number
+  label: string
+  title: string
+}
+
+function BarChart({ bars, color }: { bars: Bar[]; color: string }) {
+  const max = Math.max(1, ...bars.map((b) => b.value))
+  return (
+    <div className="flex items-end gap-1.5 h-28">
+      {bars.map((bar) => (
+        <div key={bar.key} className="flex-1 min-w-0 flex flex-col items-center gap-1 h-full" title={bar.title}>
+          <span className="text-[10px] text-gray-400 tabular-nums">{bar.value || ''}</span>
+          <div className="w-full flex-1 flex items-end">
+            <div className={`w-full rounded-t ${color}`} style={{ height: `${(bar.value / max) * 100}%` }} />
+          </div>
+          <span className="text-[10px] text-gray-500 truncate max-w-full">{bar.label}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function AccuracyStat({ label, value, className }: { label: string; value: number; className: string }) {
+  return (
+    <div className="text-center">
+      <div className={`text-lg font-bold ${className}`}>{value}</div>
+      <div className="text-[10px] text-gray-500">{label}</div>
+    </div>
+  )
+}
+
+/** Estimated (x) vs actual (y); points above the diagonal ran larger than estimated */
+function ComplexityScatter({ points }: { points: ReturnType<typeof computeComplexityAccuracy>['points'] }) {
+  const max = Math.max(1, ...points.flatMap((p) => [p.estimated, p.actual]))
+  const pos = (v: number) => `${(v / max) * 100}%`
+
+  return (
+    <div className="relative h-32 ml-4 mb-4 border-l border-b border-white/[0.1]">
+      <svg className="absolute inset-0 w-full h-full" preserveAspectRatio="none" viewBox="0 0 100 100" aria-hidden="true">
+        <line x1="0" y1="100" x2="100" y2="0" stroke="#4b5563" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+      </svg>
+      {points.map((p) => (
+        <span
+          key={p.id}
+          className={`absolute w-2 h-2 -ml-1 -mb-1 rounded-full ${
+            p.actual > p.estimated ? 'bg-red-400' : p.actual < p.estimated ? 'bg-amber-400' : 'bg-green-400'
+          }`}
+          style={{ left: pos(p.estimated), bottom: pos(p.actual) }}
+          title={`${p.title}: estimated ${p.estimated}, actual ${p.actual}`}
+        />
+      ))}
+      <span className="absolute -bottom-4 right-0 text-[10px] text-gray-500">estimated →</span>
+      <span className="absolute -left-4 top-0 text-[10px] text-gray-500 [writing-mode:vertical-rl] rotate-180">actual →</span>
+    </div>
+  )
+}
@@ -0,0 +1,235 @@
+import { useMemo, useCallback, type MouseEvent } from 'react'
+import {
+  ReactFlow,
+  Background,
+  Controls,
+  type Node,
+  type Edge,
+  type NodeProps,
+  Handle,
+  Position,
+  MarkerType,
+} from '@xyflow/react'
+import dagre from 'dagre'
+import type { CallGraphNode } from '@/services'
+import '@xyflow/react/dist/style.css'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface CallGraphViewProps {
+  /** Function the graph is centered on */
+  focus: string
+  nodes: CallGraphNode[]
+  /** Called when a function node is clicked (re-centers the graph) */
+  onSelect?: (name: string) => void
+  className?: string
+}
+
+type CallRole = 'focus' | 'caller' | 'callee' | 'other'
+
+interface FunctionNodeData extends Record<string, unknown> {
+  label: string
+  filePath?: string
+  role: CallRole
+  onSelect?: (name: string) => void
+}
+
+// ============================================================================
+// ROLE COLORS (matching design system)
+// ============================================================================
+
+const roleColors: Record<CallRole, { bg: string; border: string; text: string }> = {
+  focus: { bg: '#1e1b4b', border: '#6366f1', text: '#a5b4fc' },
+  caller: { bg: '#083344', border: '#06b6d4', text: '#67e8f9' },
+  callee: { bg: '#052e16', border: '#22c55e', text: '#86efac' },
+  other: { bg: '#1f2937', border: '#4b5563', text: '#d1d5db' },
+}
+
+const roleLabels: Record<CallRole, string> = {
+  focus: 'Selected',
+  caller: 'Caller',
+  callee: 'Callee',
+  other: 'Function',
+}
+
+// ============================================================================
+// DAGRE LAYOUT
+// ============================================================================
+
+const NODE_WIDTH = 220
+const NODE_HEIGHT = 56
+
+function getLayoutedNodes(nodes: Node<FunctionNodeData>[], edges: Edge[]): Node<FunctionNodeData>[] {
+  const g = new dagre.graphlib.Graph()
+  g.setDefaultEdgeLabel(() => ({}))
+  g.setGraph({ rankdir: 'LR', nodesep: 30, ranksep: 90, marginx: 20, marginy: 20 })
+
+  nodes.forEach((node) => {
+    g.setNode(node.id, { width: NODE_WIDTH, height: NODE_HEIGHT })
+  })
+
+  edges.forEach((edge) => {
+    g.setEdge(edge.source, edge.target)
+  })
+
+  dagre.layout(g)
+
+  return nodes.map((node) => {
+    const nodeWithPosition = g.node(node.id)
+    return {
+      ...node,
+      position: {
+        x: nodeWithPosition.x - NODE_WIDTH / 2,
+        y: nodeWithPosition.y - NODE_HEIGHT / 2,
+      },
+    }
+  })
+}
+
+// ============================================================================
+// CUSTOM NODE COMPONENT
+// ============================================================================
+
+function FunctionNodeComponent({ data }: NodeProps<Node<FunctionNodeData>>) {
+  const colors = roleColors[data.role]
+  const clickable = data.role !== 'focus' && !!data.onSelect
+
+  const handleClick = useCallback(
+    (e: MouseEvent) => {
+      e.stopPropagation()
+      if (clickable) data.onSelect?.(data.label)
+    },
+    [clickable, data],
+  )
+
+  const fileName = data.filePath?.split('/').pop()
+
+  return (
+    <div
+      onClick={handleClick}
+      className={clickable ? 'cursor-pointer transition-all duration-150 hover:scale-105 hover:shadow-lg' : ''}
+      style={{
+        background: colors.bg,
+        border: `1.5px solid ${colors.border}`,
+        borderRadius: 10,
+        padding: '8px 12px',
+        width: NODE_WIDTH,
+      }}
+    >
+      <Handle type="target" position={Position.Left} style={{ background: colors.border, width: 6, height: 6 }} />
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] uppercase tracking-wide font-medium" style={{ color: colors.text }}>
+          {roleLabels[data.role]}
+        </span>
+        {fileName && (
+          <span className="text-[10px] text-gray-500 ml-auto truncate" title={data.filePath}>
+            {fileName}
+          </span>
+        )}
+      </div>
+      <p className="text-sm font-mono truncate" style={{ color: '#e5e7eb' }} title={data.label}>
+        {data.label}
+      </p>
+      <Handle type="source" position={Position.Right} style={{ background: colors.border, width: 6, height: 6 }} />
+    </div>
+  )
+}
+
+const nodeTypes = { functionNode: FunctionNodeComponent }
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function CallGraphView({ focus, nodes, onSelect, className = '' }: CallGraphViewProps) {
+  const { layoutedNodes, layoutedEdges, graphHeight } = useMemo(() => {
+    const filePaths = new Map<string, string>()
+    const edgeKeys = new Set<string>()
+    const rfEdges: Edge[] = []
+
+    const addEdge = (from: string, to: string) => {
+      const key = `${from}->${to}`
+      if (from === to || edgeKeys.has(key)) return
+      edgeKeys.add(key)
+      rfEdges.push({
+        id: key,
+        source: from,
+        target: to,
+        style: { stroke: '#4b5563', strokeWidth: 1.5 },
+        markerEnd: { type: MarkerType.ArrowClosed, color: '#4b5563', width: 14, height: 14 },
+      })
+    }
+
+    // The backend returns one entry per function with both directions of the relation
+    const names = new Set<string>([focus])
+    for (const node of nodes) {
+      names.add(node.name)
+      if (node.file_path) filePaths.set(node.name, node.file_path)
+      for (const callee of node.calls || []) {
+        names.add(callee)
+        addEdge(node.name, callee)
+      }
+      for (const caller of node.called_by || []) {
+        names.add(caller)
+        addEdge(caller, node.name)
+      }
+    }
+
+    const callers = new Set(rfEdges.filter((e) => e.target === focus).map((e) => e.source))
+    const callees = new Set(rfEdges.filter((e) => e.source === focus).map((e) => e.target))
+    const roleOf = (name: string): CallRole =>
+      name === focus ? 'focus' : callers.has(name) ? 'caller' : callees.has(name) ? 'callee' : 'other'
+
+    // Highlight the edges touching the focused function
+    for (const edge of rfEdges) {
+      if (edge.source === focus || edge.target === focus) {
+        const color = edge.source === focus ? roleColors.callee.border : roleColors.caller.border
+        edge.style = { stroke: color, strokeWidth: 2 }
+        edge.markerEnd = { type: MarkerType.ArrowClosed, color, width: 16, height: 16 }
+      }
+    }
+
+    const rfNodes: Node<FunctionNodeData>[] = Array.from(names).map((name) => ({
+      id: name,
+      type: 'functionNode',
+      position: { x: 0, y: 0 },
+      data: { label: name, filePath: filePaths.get(name), role: roleOf(name), onSelect },
+    }))
+
+    const ln = getLayoutedNodes(rfNodes, rfEdges)
+    const maxY = ln.reduce((max, n) => Math.max(max, n.position.y), 0)
+    const calculatedHeight = Math.max(260, Math.min(600, maxY + 120))
+
+    return { layoutedNodes: ln, layoutedEdges: rfEdges, graphHeight: calculatedHeight }
+  }, [focus, nodes, onSelect])
+
+  if (layoutedNodes.length <= 1) {
+    return <p className="text-gray-500 text-sm">No callers or callees found for {focus}</p>
+  }
+
+  return (
+    <div className={className} style={{ height: graphHeight }}>
+      <ReactFlow
+        nodes={layoutedNodes}
+        edges={layoutedEdges}
+        nodeTypes={nodeTypes}
+        fitView
+        fitViewOptions={{ padding: 0.2 }}
+        minZoom={0.3}
+        maxZoom={1.5}
+        proOptions={{ hideAttribution: true }}
+        nodesDraggable={false}
+        nodesConnectable={false}
+        elementsSelectable={false}
+        panOnDrag
+        zoomOnScroll
+        zoomOnPinch
+      >
+        <Background color="#374151" gap={20} size={1} />
+        <Controls showInteractive={false} className="dep-graph-controls" />
+      </ReactFlow>
+    </div>
+  )
+}
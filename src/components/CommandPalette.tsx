@@ -0,0 +1,455 @@
+import { useEffect, useMemo, useRef, useState, useCallback, type KeyboardEvent } from 'react'
+import { createPortal } from 'react-dom'
+import { useNavigate } from 'react-router-dom'
+import { useAtom, useAtomValue, useSetAtom } from 'jotai'
+import { motion, AnimatePresence } from 'motion/react'
+import {
+  Search,
+  Plus,
+  MessageCircle,
+  ArrowLeftRight,
+  FolderKanban,
+  ClipboardList,
+  CheckSquare,
+  Flag,
+  StickyNote,
+  Code,
+  type LucideIcon,
+} from 'lucide-react'
+import { FormDialog, Spinner } from '@/components/ui'
+import { CreatePlanForm } from '@/components/forms'
+import { codeApi, notesApi, plansApi, tasksApi, workspacesApi } from '@/services'
+import type { SearchResult } from '@/services'
+import { useFormDialog, useToast, useWorkspaceSlug } from '@/hooks'
+import { workspacePath, codeFilePath } from '@/utils/paths'
+import { dialogVariants, backdropVariants, useReducedMotion } from '@/utils/motion'
+import { commandPaletteOpenAtom, globalSearchQueryAtom, chatPanelModeAtom, workspacesAtom } from '@/atoms'
+import type { Project, Plan, TaskWithPlan, WorkspaceMilestone, Note } from '@/types'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type PaletteGroup = 'commands' | 'projects' | 'plans' | 'tasks' | 'milestones' | 'notes' | 'code'
+
+interface PaletteItem {
+  id: string
+  group: PaletteGroup
+  label: string
+  description?: string
+  icon: LucideIcon
+  run: () => void
+}
+
+/** Entities small enough to load once per palette session and filter locally */
+interface LocalEntities {
+  projects: Project[]
+}
+
+/** Entities searched server-side on every (debounced) query change */
+interface RemoteResults {
+  plans: Plan[]
+  tasks: TaskWithPlan[]
+  milestones: WorkspaceMilestone[]
+  notes: Note[]
+  code: SearchResult[]
+}
+
+const groupLabels: Record<PaletteGroup, string> = {
+  commands: 'Commands',
+  projects: 'Projects',
+  plans: 'Plans',
+  tasks: 'Tasks',
+  milestones: 'Milestones',
+  notes: 'Notes',
+  code: 'Code',
+}
+
+const groupOrder: PaletteGroup[] = ['commands', 'projects', 'plans', 'tasks', 'milestones', 'notes', 'code']
+
+const MAX_PER_GROUP = 5
+const SEARCH_DEBOUNCE_MS = 200
+
+const emptyRemote: RemoteResults = { plans: [], tasks: [], milestones: [], notes: [], code: [] }
+
+/** Every whitespace-separated term must appear in one of the fields */
+function matches(query: string, ...fields: (string | undefined)[]): boolean {
+  const haystack = fields.filter(Boolean).join(' ').toLowerCase()
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => haystack.includes(term))
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function CommandPalette() {
+  const [open, setOpen] = useAtom(commandPaletteOpenAtom)
+  const [query, setQuery] = useAtom(globalSearchQueryAtom)
+  const setChatMode = useSetAtom(chatPanelModeAtom)
+  const workspaces = useAtomValue(workspacesAtom)
+  const wsSlug = useWorkspaceSlug()
+  const navigate = useNavigate()
+  const toast = useToast()
+  const reducedMotion = useReducedMotion()
+  const planFormDialog = useFormDialog()
+  const openPlanForm = planFormDialog.open
+  const [formLoading, setFormLoading] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const [local, setLocal] = useState<LocalEntities | null>(null)
+  const [remote, setRemote] = useState<RemoteResults>(emptyRemote)
+  const [searching, setSearching] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  // Load local entities each time the palette opens so results are never stale
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    workspacesApi
+      .listProjects(wsSlug)
+      .catch(() => [] as Project[])
+      .then((projects) => {
+        if (cancelled) return
+        setLocal({ projects: Array.isArray(projects) ? projects : [] })
+      })
+    setTimeout(() => inputRef.current?.focus(), 0)
+    return () => {
+      cancelled = true
+    }
+  }, [open, wsSlug])
+
+  // Server-side search for plans, tasks, milestones, notes and code (debounced)
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (!open || trimmed.length < 2) {
+      setRemote(emptyRemote)
+      setSearching(false)
+      return
+    }
+    let cancelled = false
+    setSearching(true)
+    const timer = setTimeout(async () => {
+      const [plans, tasks, milestones, notes, code] = await Promise.all([
+        plansApi.list({ search: trimmed, workspace_slug: wsSlug, limit: MAX_PER_GROUP }).catch(() => ({ items: [] as Plan[] })),
+        tasksApi.list({ search: trimmed, workspace_slug: wsSlug, limit: MAX_PER_GROUP }).catch(() => ({ items: [] as TaskWithPlan[] })),
+        workspacesApi
+          .listMilestones(wsSlug, { search: trimmed, limit: MAX_PER_GROUP })
+          .catch(() => ({ items: [] as WorkspaceMilestone[] })),
+        notesApi.search({ query: trimmed, limit: MAX_PER_GROUP }).catch(() => ({ items: [] as Note[] })),
+        codeApi.search(trimmed, { workspace_slug: wsSlug, limit: MAX_PER_GROUP }).catch(() => [] as SearchResult[]),
+      ])
+      if (cancelled) return
+      setRemote({
+        plans: plans.items || [],
+        tasks: tasks.items || [],
+        milestones: milestones.items || [],
+        notes: notes.items || [],
+        code: Array.isArray(code) ? code : [],
+      })
+      setSearching(false)
+    }, SEARCH_DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [open, query, wsSlug])
+
+  const close = useCallback(() => {
+    setOpen(false)
+    setQuery('')
+    setActiveIndex(0)
+  }, [setOpen, setQuery])
+
+  const go = useCallback(
+    (path: string) => {
+      close()
+      navigate(workspacePath(wsSlug, path))
+    },
+    [close, navigate, wsSlug],
+  )
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const q = query.trim()
+    const result: PaletteItem[] = []
+
+    // Commands — always available, filtered by the query
+    const commands: PaletteItem[] = [
+      {
+        id: 'cmd-new-plan',
+        group: 'commands',
+        label: 'New plan',
+        icon: Plus,
+        run: () => {
+          close()
+          openPlanForm({ title: 'Create Plan' })
+        },
+      },
+      {
+        id: 'cmd-open-chat',
+        group: 'commands',
+        label: 'Open chat',
+        icon: MessageCircle,
+        run: () => {
+          close()
+          setChatMode('open')
+        },
+      },
+      {
+        id: 'cmd-all-workspaces',
+        group: 'commands',
+        label: 'Switch workspace…',
+        description: 'Open the workspace selector',
+        icon: ArrowLeftRight,
+        run: () => {
+          close()
+          navigate('/workspace-selector')
+        },
+      },
+      ...workspaces
+        .filter((ws) => ws.slug !== wsSlug)
+        .map((ws) => ({
+          id: `cmd-switch-${ws.slug}`,
+          group: 'commands' as const,
+          label: `Switch workspace: ${ws.name}`,
+          icon: ArrowLeftRight,
+          run: () => {
+            close()
+            navigate(workspacePath(ws.slug, '/projects'))
+          },
+        })),
+    ]
+    result.push(...commands.filter((c) => !q || matches(q, c.label, c.description)).slice(0, MAX_PER_GROUP))
+
+    if (!q) return result
+
+    const projectIds = new Set(local?.projects.map((p) => p.id))
+
+    if (local) {
+      result.push(
+        ...local.projects
+          .filter((p) => matches(q, p.name, p.slug, p.description))
+          .slice(0, MAX_PER_GROUP)
+          .map((p) => ({
+            id: `project-${p.id}`,
+            group: 'projects' as const,
+            label: p.name,
+            description: p.slug,
+            icon: FolderKanban,
+            run: () => go(`/projects/${p.slug}`),
+          })),
+      )
+    }
+
+    result.push(
+      ...remote.plans.map((p) => ({
+        id: `plan-${p.id}`,
+        group: 'plans' as const,
+        label: p.title,
+        description: p.status.replace('_', ' '),
+        icon: ClipboardList,
+        run: () => go(`/plans/${p.id}`),
+      })),
+      // The task and milestone list endpoints may ignore `search` — keep only actual matches
+      ...remote.tasks
+        .filter((t) => matches(q, t.title, t.description, t.tags.join(' ')))
+        .map((t) => ({
+          id: `task-${t.id}`,
+          group: 'tasks' as const,
+          label: t.title || t.description,
+          description: t.plan_title,
+          icon: CheckSquare,
+          run: () => go(`/tasks/${t.id}`),
+        })),
+      ...remote.milestones
+        .filter((m) => matches(q, m.title, m.description, m.tags.join(' ')))
+        .map((m) => ({
+          id: `milestone-${m.id}`,
+          group: 'milestones' as const,
+          label: m.title,
+          description: m.target_date ? new Date(m.target_date).toLocaleDateString() : undefined,
+          icon: Flag,
+          run: () => go(`/milestones/${m.id}`),
+        })),
+      // Note search isn't workspace-scoped — drop notes of other workspaces' projects
+      ...remote.notes
+        .filter((n) => !n.project_id || projectIds.has(n.project_id))
+        .map((n) => ({
+          id: `note-${n.id}`,
+          group: 'notes' as const,
+          label: n.content.split('\n')[0].slice(0, 120),
+          description: n.note_type.replace('_', ' '),
+          icon: StickyNote,
+          run: () => go(`/notes/${n.id}`),
+        })),
+      ...remote.code.map((r) => ({
+        id: `code-${r.document.id}`,
+        group: 'code' as const,
+        label: r.document.path.split('/').pop() || r.document.path,
+        description: r.document.path,
+        icon: Code,
+        run: () => {
+          close()
+          navigate(codeFilePath(wsSlug, r.document.path))
+        },
+      })),
+    )
+
+    return result
+  }, [query, local, remote, workspaces, wsSlug, close, go, navigate, openPlanForm, setChatMode])
+
+  // Keep the highlighted item in range and visible
+  useEffect(() => {
+    setActiveIndex((prev) => Math.min(prev, Math.max(0, items.length - 1)))
+  }, [items.length])
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex])
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex((prev) => (items.length === 0 ? 0 : (prev + 1) % items.length))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex((prev) => (items.length === 0 ? 0 : (prev - 1 + items.length) % items.length))
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      items[activeIndex]?.run()
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      close()
+    }
+  }
+
+  const planForm = CreatePlanForm({
+    workspaceSlug: wsSlug,
+    onSubmit: async (data) => {
+      setFormLoading(true)
+      try {
+        const plan = await plansApi.create(data)
+        toast.success('Plan created')
+        planFormDialog.close()
+        navigate(workspacePath(wsSlug, `/plans/${plan.id}`))
+      } finally {
+        setFormLoading(false)
+      }
+    },
+    loading: formLoading,
+  })
+
+  // Group items while keeping their flat index for keyboard navigation
+  const grouped = groupOrder
+    .map((group) => ({
+      group,
+      entries: items.map((item, index) => ({ item, index })).filter(({ item }) => item.group === group),
+    }))
+    .filter(({ entries }) => entries.length > 0)
+
+  const hasQuery = query.trim().length > 0
+
+  return (
+    <>
+      {createPortal(
+        <AnimatePresence>
+          {open && (
+            <div
+              className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[12vh]"
+              role="dialog"
+              aria-modal="true"
+              aria-label="Command palette"
+            >
+              <motion.div
+                className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+                variants={reducedMotion ? undefined : backdropVariants}
+                initial="hidden"
+                animate="visible"
+                exit="exit"
+                onClick={close}
+              />
+
+              <motion.div
+                className="relative glass-medium rounded-xl shadow-xl max-w-xl w-full overflow-hidden"
+                variants={reducedMotion ? undefined : dialogVariants}
+                initial="hidden"
+                animate="visible"
+                exit="exit"
+              >
+                <div className="flex items-center gap-3 px-4 border-b border-border-subtle">
+                  <Search className="w-4 h-4 text-gray-500 shrink-0" />
+                  <input
+                    ref={inputRef}
+                    value={query}
+                    onChange={(e) => {
+                      setQuery(e.target.value)
+                      setActiveIndex(0)
+                    }}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Search or run a command..."
+                    className="flex-1 bg-transparent py-3.5 text-sm text-gray-100 placeholder-gray-500 outline-none"
+                  />
+                  {searching && <Spinner size="sm" />}
+                  <kbd className="text-[10px] text-gray-500 border border-white/[0.1] rounded px-1.5 py-0.5">Esc</kbd>
+                </div>
+
+                <div ref={listRef} className="max-h-[60vh] overflow-y-auto py-2">
+                  {grouped.length === 0 ? (
+                    <p className="px-4 py-6 text-center text-sm text-gray-500">
+                      {searching ? 'Searching...' : 'No results'}
+                    </p>
+                  ) : (
+                    grouped.map(({ group, entries }) => (
+                      <div key={group} className="mb-1">
+                        <div className="px-4 pt-2 pb-1 text-[11px] font-medium uppercase tracking-wide text-gray-500">
+                          {groupLabels[group]}
+                        </div>
+                        {entries.map(({ item, index }) => {
+                          const Icon = item.icon
+                          const active = index === activeIndex
+                          return (
+                            <button
+                              key={item.id}
+                              data-index={index}
+                              onClick={item.run}
+                              onMouseMove={() => setActiveIndex(index)}
+                              className={`w-full flex items-center gap-3 px-4 py-2 text-left transition-colors ${
+                                active ? 'bg-indigo-500/15 text-gray-100' : 'text-gray-300'
+                              }`}
+                            >
+                              <Icon className={`w-4 h-4 shrink-0 ${active ? 'text-indigo-400' : 'text-gray-500'}`} />
+                              <span className="text-sm truncate">{item.label}</span>
+                              {item.description && (
+                                <span className="ml-auto text-xs text-gray-500 truncate max-w-[45%]">
+                                  {item.description}
+                                </span>
+                              )}
+                            </button>
+                          )
+                        })}
+                      </div>
+                    ))
+                  )}
+                  {!hasQuery && (
+                    <p className="px-4 pt-2 text-xs text-gray-600">
+                      Type to search projects, plans, tasks, milestones, notes and code
+                    </p>
+                  )}
+                </div>
+              </motion.div>
+            </div>
+          )}
+        </AnimatePresence>,
+        document.body,
+      )}
+
+      <FormDialog {...planFormDialog.dialogProps} onSubmit={planForm.submit} loading={formLoading}>
+        {planForm.fields}
+      </FormDialog>
+    </>
+  )
+}
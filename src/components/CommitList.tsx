@@ -0,0 +1,191 @@
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { ChevronRight, FileCode } from 'lucide-react'
+import { useWorkspaceSlug } from '@/hooks'
+import { codeFilePath, workspacePath } from '@/utils/paths'
+import type { Commit, Task } from '@/types'
+
+// ============================================================================
+// PATH MATCHING
+// ============================================================================
+
+/**
+ * Commit file lists and task `affected_files` are not always rooted the same
+ * way (`src/a.rs` vs `/repo/src/a.rs`), so paths match when one is a
+ * segment-aligned suffix of the other.
+ */
+function samePath(a: string, b: string): boolean {
+  if (a === b) return true
+  const [shorter, longer] = a.length < b.length ? [a, b] : [b, a]
+  return longer.endsWith(`/${shorter.replace(/^\.?\//, '')}`)
+}
+
+function tasksTouching(file: string, tasks: Task[]): Task[] {
+  return tasks.filter((t) => (t.affected_files || []).some((f) => samePath(f, file)))
+}
+
+function TaskChips({ tasks }: { tasks: Task[] }) {
+  const wsSlug = useWorkspaceSlug()
+  return (
+    <>
+      {tasks.map((task) => (
+        <Link
+          key={task.id}
+          to={workspacePath(wsSlug, `/tasks/${task.id}`)}
+          className="text-xs px-1.5 py-0.5 rounded bg-indigo-500/10 text-indigo-400 hover:bg-indigo-500/20 transition-colors truncate max-w-48"
+          title={task.title || task.description}
+        >
+          {task.title || task.description || 'Untitled'}
+        </Link>
+      ))}
+    </>
+  )
+}
+
+// ============================================================================
+// COMMIT LIST
+// ============================================================================
+
+interface CommitListProps {
+  commits: Commit[]
+  /** Tasks to cross-reference against each commit's changed files */
+  tasks?: Task[]
+  emptyMessage?: string
+}
+
+export function CommitList({ commits, tasks = [], emptyMessage = 'No commits linked' }: CommitListProps) {
+  if (commits.length === 0) {
+    return <p className="text-gray-500 text-sm">{emptyMessage}</p>
+  }
+  return (
+    <div className="space-y-2">
+      {commits.map((commit) => (
+        <CommitRow key={commit.sha} commit={commit} tasks={tasks} />
+      ))}
+    </div>
+  )
+}
+
+function CommitRow({ commit, tasks }: { commit: Commit; tasks: Task[] }) {
+  const wsSlug = useWorkspaceSlug()
+  const [expanded, setExpanded] = useState(false)
+  const files = commit.files_changed || []
+
+  return (
+    <div className="p-2 bg-white/[0.06] rounded">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        disabled={files.length === 0}
+        className="w-full flex items-center gap-2 min-w-0 text-left disabled:cursor-default"
+      >
+        <ChevronRight
+          className={`w-3.5 h-3.5 shrink-0 text-gray-500 transition-transform duration-150 ${expanded ? 'rotate-90' : ''} ${files.length === 0 ? 'invisible' : ''}`}
+        />
+        <span className="font-mono text-xs text-indigo-400 shrink-0">{commit.sha.slice(0, 7)}</span>
+        <span className="text-gray-200 truncate min-w-0 flex-1">{commit.message.split('\n')[0]}</span>
+        {files.length > 0 && (
+          <span className="text-xs text-gray-500 shrink-0">
+            {files.length} file{files.length !== 1 ? 's' : ''}
+          </span>
+        )}
+      </button>
+      {(commit.author || commit.timestamp) && (
+        <div className="ml-[22px] mt-0.5 text-xs text-gray-500">
+          {commit.author}
+          {commit.author && commit.timestamp && ' · '}
+          {commit.timestamp && new Date(commit.timestamp).toLocaleString()}
+        </div>
+      )}
+      {expanded && (
+        <div className="ml-[22px] mt-2 space-y-1">
+          {files.map((file) => {
+            const related = tasksTouching(file, tasks)
+            return (
+              <div key={file} className="flex flex-wrap items-center gap-2 min-w-0">
+                <Link
+                  to={codeFilePath(wsSlug, file)}
+                  className="flex items-center gap-1.5 min-w-0 text-sm text-gray-300 hover:text-indigo-400 transition-colors"
+                  title={file}
+                >
+                  <FileCode className="w-3.5 h-3.5 shrink-0 text-gray-500" />
+                  <span className="font-mono truncate">{file}</span>
+                </Link>
+                <TaskChips tasks={related} />
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// FILE CROSS-REFERENCE
+// ============================================================================
+
+interface FileCrossReferenceProps {
+  commits: Commit[]
+  tasks: Task[]
+}
+
+/**
+ * Every file named in a task's `affected_files` or a commit's `files_changed`,
+ * with the tasks and commits that touched it.
+ */
+export function FileCrossReference({ commits, tasks }: FileCrossReferenceProps) {
+  const wsSlug = useWorkspaceSlug()
+
+  const rows = useMemo(() => {
+    const files: string[] = []
+    const add = (file: string) => {
+      if (!files.some((f) => samePath(f, file))) files.push(file)
+    }
+    tasks.forEach((t) => (t.affected_files || []).forEach(add))
+    commits.forEach((c) => (c.files_changed || []).forEach(add))
+    return files.sort().map((file) => ({
+      file,
+      tasks: tasksTouching(file, tasks),
+      commits: commits.filter((c) => (c.files_changed || []).some((f) => samePath(f, file))),
+    }))
+  }, [commits, tasks])
+
+  if (rows.length === 0) {
+    return <p className="text-gray-500 text-sm">No affected or changed files recorded</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row) => (
+        <div key={row.file} className="p-2 bg-white/[0.06] rounded space-y-1.5">
+          <Link
+            to={codeFilePath(wsSlug, row.file)}
+            className="flex items-center gap-1.5 min-w-0 text-sm text-gray-200 hover:text-indigo-400 transition-colors"
+            title={row.file}
+          >
+            <FileCode className="w-3.5 h-3.5 shrink-0 text-gray-500" />
+            <span className="font-mono truncate">{row.file}</span>
+          </Link>
+          <div className="flex flex-wrap items-center gap-1.5 ml-5">
+            <TaskChips tasks={row.tasks} />
+            {row.commits.map((commit) => (
+              <span
+                key={commit.sha}
+                className="text-xs font-mono px-1.5 py-0.5 rounded bg-white/[0.06] text-gray-400"
+                title={commit.message}
+              >
+                {commit.sha.slice(0, 7)}
+              </span>
+            ))}
+            {row.tasks.length === 0 && (
+              <span className="text-xs text-gray-500">Not listed in any task</span>
+            )}
+            {row.commits.length === 0 && (
+              <span className="text-xs text-gray-500">No commits yet</span>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
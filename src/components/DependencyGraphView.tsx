@@ -26,6 +26,8 @@ interface DependencyGraphViewProps {
   graph: DependencyGraph
   /** Fresh task statuses to override graph node statuses (e.g. from optimistic updates) */
   taskStatuses?: Map<string, TaskStatus>
+  /** Ordered task IDs of the critical path, emphasised over the rest of the graph */
+  criticalPath?: string[]
   className?: string
 }
 
@@ -34,6 +36,7 @@ interface TaskNodeData extends Record<string, unknown> {
   status: TaskStatus
   priority?: number
   taskId: string
+  critical?: boolean
 }
 
 // ============================================================================
@@ -56,6 +59,8 @@ const statusLabels: Record<TaskStatus, string> = {
   failed: 'Failed',
 }
 
+const CRITICAL_COLOR = '#f43f5e'
+
 // ============================================================================
 // DAGRE LAYOUT
 // ============================================================================
@@ -119,7 +124,8 @@ function TaskNodeComponent({ data }: NodeProps<Node<TaskNodeData>>) {
       className="cursor-pointer transition-all duration-150 hover:scale-105 hover:shadow-lg"
       style={{
         background: colors.bg,
-        border: `1.5px solid ${colors.border}`,
+        border: data.critical ? `2px solid ${CRITICAL_COLOR}` : `1.5px solid ${colors.border}`,
+        boxShadow: data.critical ? `0 0 0 3px ${CRITICAL_COLOR}33` : undefined,
         borderRadius: 10,
         padding: '10px 14px',
         minWidth: 200,
@@ -137,6 +143,11 @@ function TaskNodeComponent({ data }: NodeProps<Node<TaskNodeData>>) {
         >
           {statusLabels[data.status]}
         </span>
+        {data.critical && (
+          <span className="text-[10px] font-semibold uppercase tracking-wide" style={{ color: CRITICAL_COLOR }}>
+            Critical
+          </span>
+        )}
         {data.priority != null && data.priority > 0 && (
           <span className="text-[10px] text-gray-500 ml-auto">P{data.priority}</span>
         )}
@@ -159,8 +170,14 @@ const nodeTypes = { taskNode: TaskNodeComponent }
 // MAIN COMPONENT
 // ============================================================================
 
-export function DependencyGraphView({ graph, taskStatuses, className = '' }: DependencyGraphViewProps) {
+export function DependencyGraphView({ graph, taskStatuses, criticalPath, className = '' }: DependencyGraphViewProps) {
   const { layoutedNodes, layoutedEdges, graphHeight } = useMemo(() => {
+    // Critical edges link consecutive tasks of the path
+    const path = criticalPath || []
+    const criticalNodes = new Set(path)
+    const criticalEdges = new Set(path.slice(1).map((id, index) => `${path[index]}->${id}`))
+    const hasCriticalPath = criticalNodes.size > 0
+
     // Resolve node status: prefer fresh taskStatuses (from optimistic updates), fallback to graph data
     const resolveStatus = (nodeId: string, graphStatus: TaskStatus): TaskStatus =>
       taskStatuses?.get(nodeId) ?? graphStatus
@@ -174,6 +191,7 @@ export function DependencyGraphView({ graph, taskStatuses, className = '' }: Dep
         status: resolveStatus(node.id, node.status),
         priority: node.priority,
         taskId: node.id,
+        critical: criticalNodes.has(node.id),
       },
     }))
 
@@ -181,14 +199,22 @@ export function DependencyGraphView({ graph, taskStatuses, className = '' }: Dep
       // Find the source node to color the edge based on its resolved status
       const sourceNode = graph.nodes.find((n) => n.id === edge.from)
       const resolvedStatus = sourceNode ? resolveStatus(sourceNode.id, sourceNode.status) : 'pending'
-      const edgeColor = statusColors[resolvedStatus]?.border || '#4b5563'
+      // The backend may report edges in either direction along the path
+      const critical =
+        criticalEdges.has(`${edge.from}->${edge.to}`) || criticalEdges.has(`${edge.to}->${edge.from}`)
+      const edgeColor = critical ? CRITICAL_COLOR : statusColors[resolvedStatus]?.border || '#4b5563'
 
       return {
         id: `e-${index}`,
         source: edge.from,
         target: edge.to,
-        animated: resolvedStatus === 'in_progress',
-        style: { stroke: edgeColor, strokeWidth: 2 },
+        animated: critical || resolvedStatus === 'in_progress',
+        zIndex: critical ? 1 : 0,
+        style: {
+          stroke: edgeColor,
+          strokeWidth: critical ? 3 : 2,
+          opacity: hasCriticalPath && !critical ? 0.45 : 1,
+        },
         markerEnd: {
           type: MarkerType.ArrowClosed,
           color: edgeColor,
@@ -205,7 +231,7 @@ export function DependencyGraphView({ graph, taskStatuses, className = '' }: Dep
     const calculatedHeight = Math.max(300, Math.min(700, maxY + 140))
 
     return { layoutedNodes: ln, layoutedEdges: le, graphHeight: calculatedHeight }
-  }, [graph, taskStatuses])
+  }, [graph, taskStatuses, criticalPath])
 
   if (layoutedNodes.length === 0) {
     return <p className="text-gray-500 text-sm">No tasks to display</p>
@@ -0,0 +1,224 @@
+import { useEffect, useState, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { useAtomValue } from 'jotai'
+import { X } from 'lucide-react'
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  Badge,
+  Button,
+  FormDialog,
+  LinkEntityDialog,
+  ImportanceBadge,
+  Spinner,
+} from '@/components/ui'
+import { CreateNoteForm } from '@/components/forms'
+import { notesApi } from '@/services'
+import { useFormDialog, useLinkDialog, useToast, useWorkspaceSlug, useEntityPatches, patchEntityList } from '@/hooks'
+import { workspacePath } from '@/utils/paths'
+import { entityName } from '@/utils/undo'
+import { noteRefreshAtom } from '@/atoms'
+import type { Note } from '@/types'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ContextNote = Note & { relevance_score: number }
+
+interface EntityNotesCardProps {
+  /** Backend entity type the notes are attached to (`plan`, `task`, `project`, `feature_graph`) */
+  entityType: string
+  entityId: string
+  /** Default project for notes created from this card */
+  projectId?: string
+}
+
+const isAnchoredTo = (note: Note, entityType: string, entityId: string) =>
+  (note.anchors || []).some((a) => a.entity_type === entityType && a.entity_id === entityId)
+
+const noteSummary = (note: Note) => note.content.split('\n')[0].replace(/^#+\s*/, '').slice(0, 160)
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Knowledge notes for a single entity: notes linked directly to it, plus
+ * notes propagated through the graph with their relevance score.
+ */
+export function EntityNotesCard({ entityType, entityId, projectId }: EntityNotesCardProps) {
+  const wsSlug = useWorkspaceSlug()
+  const noteRefresh = useAtomValue(noteRefreshAtom)
+  const toast = useToast()
+  const formDialog = useFormDialog()
+  const linkDialog = useLinkDialog()
+  const [linked, setLinked] = useState<Note[]>([])
+  const [context, setContext] = useState<ContextNote[]>([])
+  const [loading, setLoading] = useState(true)
+  const [formLoading, setFormLoading] = useState(false)
+
+  const fetchNotes = useCallback(async () => {
+    try {
+      const response = await notesApi.getContextNotes(entityType, entityId)
+      const items = (response.items || []).slice().sort((a, b) => b.relevance_score - a.relevance_score)
+      setLinked(items.filter((n) => isAnchoredTo(n, entityType, entityId)))
+      setContext(items.filter((n) => !isAnchoredTo(n, entityType, entityId)))
+    } catch (error) {
+      console.error('Failed to fetch notes:', error)
+    } finally {
+      setLoading(false)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- noteRefresh triggers refetch on note CRUD events
+  }, [entityType, entityId, noteRefresh])
+
+  useEffect(() => {
+    fetchNotes()
+  }, [fetchNotes])
+
+  // Live note updates from the entity store — patched in place instead of refetching
+  useEntityPatches('note', (record) => {
+    setLinked((prev) => patchEntityList(prev, record))
+    setContext((prev) => patchEntityList(prev, record))
+  })
+
+  const noteForm = CreateNoteForm({
+    onSubmit: async (data) => {
+      setFormLoading(true)
+      try {
+        await notesApi.create({ ...data, anchors: [{ entity_type: entityType, entity_id: entityId }] })
+        toast.success('Note created')
+        formDialog.close()
+        fetchNotes()
+      } catch {
+        toast.error('Failed to create note')
+      } finally {
+        setFormLoading(false)
+      }
+    },
+    loading: formLoading,
+    defaultProjectId: projectId,
+    workspaceSlug: wsSlug,
+  })
+
+  const openLinkDialog = () =>
+    linkDialog.open({
+      title: 'Link Note',
+      fetchOptions: async () => {
+        const data = await notesApi.list({ workspace_slug: wsSlug, limit: 100 })
+        const linkedIds = new Set(linked.map((n) => n.id))
+        return (data.items || [])
+          .filter((n) => !linkedIds.has(n.id))
+          .map((n) => ({ value: n.id, label: noteSummary(n), description: `${n.note_type} · ${n.status.replace('_', ' ')}` }))
+      },
+      onLink: async (noteId) => {
+        await notesApi.linkToEntity(noteId, entityType, entityId, {
+          label: `Link note to this ${entityType.replace(/_/g, ' ')}`,
+        })
+        toast.success('Note linked', { undoable: true })
+        fetchNotes()
+      },
+    })
+
+  const handleUnlink = async (note: Note) => {
+    try {
+      await notesApi.unlinkFromEntity(note.id, entityType, entityId, {
+        label: `Unlink ${entityName('note', noteSummary(note))}`,
+      })
+      setLinked((prev) => prev.filter((n) => n.id !== note.id))
+      toast.success('Note unlinked', { undoable: true })
+    } catch {
+      toast.error('Failed to unlink note')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>Notes</CardTitle>
+          <div className="flex gap-2">
+            <Button variant="secondary" size="sm" onClick={openLinkDialog}>
+              Link Note
+            </Button>
+            <Button size="sm" onClick={() => formDialog.open({ title: 'Create Note', size: 'lg' })}>
+              New Note
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Spinner />
+          </div>
+        ) : linked.length === 0 && context.length === 0 ? (
+          <p className="text-gray-500 text-sm">No notes linked</p>
+        ) : (
+          <div className="space-y-4">
+            {linked.length > 0 && (
+              <div className="space-y-2">
+                {linked.map((note) => (
+                  <NoteRow key={note.id} note={note} wsSlug={wsSlug}>
+                    <button
+                      onClick={() => handleUnlink(note)}
+                      className="p-1 text-gray-500 hover:text-red-400 rounded transition-colors"
+                      title="Unlink note"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </NoteRow>
+                ))}
+              </div>
+            )}
+            {context.length > 0 && (
+              <div>
+                <div className="text-xs text-gray-500 mb-2">From related entities</div>
+                <div className="space-y-2">
+                  {context.map((note) => (
+                    <NoteRow key={note.id} note={note} wsSlug={wsSlug}>
+                      <span
+                        className="text-xs text-gray-400 tabular-nums"
+                        title="Relevance score"
+                      >
+                        {Math.round(note.relevance_score * 100)}%
+                      </span>
+                    </NoteRow>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <FormDialog {...formDialog.dialogProps} onSubmit={noteForm.submit} loading={formLoading}>
+        {noteForm.fields}
+      </FormDialog>
+      <LinkEntityDialog {...linkDialog.dialogProps} />
+    </Card>
+  )
+}
+
+function NoteRow({ note, wsSlug, children }: { note: Note; wsSlug: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center gap-3 p-3 bg-white/[0.06] rounded-lg min-w-0">
+      <div className="flex-1 min-w-0">
+        <Link
+          to={workspacePath(wsSlug, `/notes/${note.id}`)}
+          className="block text-sm text-gray-200 hover:text-indigo-400 transition-colors truncate"
+        >
+          {noteSummary(note)}
+        </Link>
+        <div className="flex flex-wrap items-center gap-2 mt-1">
+          <Badge variant="default">{note.note_type}</Badge>
+          <ImportanceBadge importance={note.importance} />
+          {note.status !== 'active' && <Badge variant="warning">{note.status.replace('_', ' ')}</Badge>}
+        </div>
+      </div>
+      {children}
+    </div>
+  )
+}
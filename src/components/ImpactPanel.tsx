@@ -0,0 +1,277 @@
+import { useEffect, useMemo, useState, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { ChevronRight, FlaskConical, Folder } from 'lucide-react'
+import { Badge, ErrorState, Spinner } from '@/components/ui'
+import { codeApi, isAbortError } from '@/services'
+import type { ImpactAnalysis } from '@/services'
+import { useLatestSignal, useWorkspaceSlug } from '@/hooks'
+import { codeFilePath } from '@/utils/paths'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ImpactPanelProps {
+  /** File path or symbol name to analyze */
+  target: string
+  className?: string
+}
+
+interface TreeNode {
+  name: string
+  /** Full path for leaves (files), undefined for directories */
+  path?: string
+  direct?: boolean
+  children: TreeNode[]
+}
+
+// ============================================================================
+// RISK LEVELS
+// ============================================================================
+
+type RiskLevel = 'low' | 'medium' | 'high'
+
+const riskColors: Record<RiskLevel, string> = {
+  low: '#22c55e',
+  medium: '#f59e0b',
+  high: '#ef4444',
+}
+
+const riskVariants: Record<RiskLevel, 'success' | 'warning' | 'error'> = {
+  low: 'success',
+  medium: 'warning',
+  high: 'error',
+}
+
+function riskLevel(score: number): RiskLevel {
+  if (score < 0.34) return 'low'
+  if (score < 0.67) return 'medium'
+  return 'high'
+}
+
+// ============================================================================
+// DEPENDENTS TREE
+// ============================================================================
+
+/**
+ * Build a directory tree from dependent file paths. Single-child directory
+ * chains are collapsed (`src/api/handlers`) to keep the tree shallow.
+ */
+function buildTree(direct: string[], transitive: string[]): TreeNode[] {
+  const root: TreeNode = { name: '', children: [] }
+  const directSet = new Set(direct)
+  const allPaths = Array.from(new Set([...direct, ...transitive])).sort()
+
+  for (const path of allPaths) {
+    const segments = path.split('/')
+    let current = root
+    segments.forEach((segment, index) => {
+      const isLeaf = index === segments.length - 1
+      let child = current.children.find((c) => c.name === segment && !c.path === !isLeaf)
+      if (!child) {
+        child = isLeaf
+          ? { name: segment, path, direct: directSet.has(path), children: [] }
+          : { name: segment, children: [] }
+        current.children.push(child)
+      }
+      current = child
+    })
+  }
+
+  const collapse = (node: TreeNode): TreeNode => {
+    let collapsed = node
+    while (!collapsed.path && collapsed.children.length === 1 && !collapsed.children[0].path) {
+      const only = collapsed.children[0]
+      collapsed = { ...only, name: `${collapsed.name}/${only.name}` }
+    }
+    return { ...collapsed, children: collapsed.children.map(collapse) }
+  }
+
+  // Directories first, then files
+  const sortNodes = (nodes: TreeNode[]): TreeNode[] =>
+    nodes
+      .map((n) => ({ ...n, children: sortNodes(n.children) }))
+      .sort((a, b) => (!a.path === !b.path ? a.name.localeCompare(b.name) : a.path ? 1 : -1))
+
+  return sortNodes(root.children.map(collapse))
+}
+
+function TreeItem({ node, depth }: { node: TreeNode; depth: number }) {
+  const wsSlug = useWorkspaceSlug()
+  const [expanded, setExpanded] = useState(true)
+  const indent = { paddingLeft: depth * 14 }
+
+  if (node.path) {
+    return (
+      <Link
+        to={codeFilePath(wsSlug, node.path)}
+        style={indent}
+        className="flex items-center gap-2 py-1 pr-2 rounded hover:bg-white/[0.06] transition-colors min-w-0"
+        title={node.path}
+      >
+        <span
+          className="w-1.5 h-1.5 rounded-full shrink-0 ml-1.5"
+          style={{ background: node.direct ? '#f59e0b' : '#6b7280' }}
+        />
+        <span className={`font-mono text-sm truncate ${node.direct ? 'text-gray-200' : 'text-gray-400'}`}>
+          {node.name}
+        </span>
+      </Link>
+    )
+  }
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        style={indent}
+        className="w-full flex items-center gap-1.5 py-1 pr-2 rounded text-left hover:bg-white/[0.06] transition-colors min-w-0"
+      >
+        <ChevronRight className={`w-3.5 h-3.5 shrink-0 text-gray-500 transition-transform duration-150 ${expanded ? 'rotate-90' : ''}`} />
+        <Folder className="w-3.5 h-3.5 shrink-0 text-gray-500" />
+        <span className="font-mono text-sm text-gray-400 truncate">{node.name}</span>
+      </button>
+      {expanded && node.children.map((child) => (
+        <TreeItem key={child.path || child.name} node={child} depth={depth + 1} />
+      ))}
+    </div>
+  )
+}
+
+// ============================================================================
+// RISK GAUGE
+// ============================================================================
+
+function RiskGauge({ score }: { score: number }) {
+  const clamped = Math.min(1, Math.max(0, score))
+  const level = riskLevel(clamped)
+  const color = riskColors[level]
+  // Half-circle arc: radius 40, circumference of the half = π·r
+  const arcLength = Math.PI * 40
+
+  return (
+    <div className="flex flex-col items-center">
+      <svg width="120" height="68" viewBox="0 0 120 68">
+        <path d="M 20 60 A 40 40 0 0 1 100 60" fill="none" stroke="#374151" strokeWidth="10" strokeLinecap="round" />
+        <path
+          d="M 20 60 A 40 40 0 0 1 100 60"
+          fill="none"
+          stroke={color}
+          strokeWidth="10"
+          strokeLinecap="round"
+          strokeDasharray={`${arcLength * clamped} ${arcLength}`}
+        />
+        <text x="60" y="56" textAnchor="middle" fill="#e5e7eb" fontSize="18" fontWeight="600">
+          {Math.round(clamped * 100)}
+        </text>
+      </svg>
+      <Badge variant={riskVariants[level]} className="mt-1 capitalize">
+        {level} risk
+      </Badge>
+    </div>
+  )
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function ImpactPanel({ target, className = '' }: ImpactPanelProps) {
+  const [impact, setImpact] = useState<ImpactAnalysis | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const nextSignal = useLatestSignal()
+
+  const fetchImpact = useCallback(async () => {
+    const signal = nextSignal()
+    setLoading(true)
+    setError(null)
+    try {
+      const analysis = await codeApi.analyzeImpact(target, { signal })
+      if (signal.aborted) return
+      setImpact(analysis)
+    } catch (error) {
+      if (isAbortError(error)) return
+      console.error('Failed to analyze impact:', error)
+      setError('Failed to analyze impact')
+    } finally {
+      if (!signal.aborted) setLoading(false)
+    }
+  }, [target, nextSignal])
+
+  useEffect(() => {
+    fetchImpact()
+  }, [fetchImpact])
+
+  const tree = useMemo(
+    () => (impact ? buildTree(impact.direct_dependents || [], impact.transitive_dependents || []) : []),
+    [impact],
+  )
+
+  if (loading) {
+    return (
+      <div className={`flex items-center justify-center py-8 ${className}`}>
+        <Spinner />
+      </div>
+    )
+  }
+  if (error || !impact) {
+    return <ErrorState title="Impact unavailable" description={error || undefined} onRetry={fetchImpact} />
+  }
+
+  const direct = impact.direct_dependents || []
+  const transitive = impact.transitive_dependents || []
+  const tests = impact.affected_tests || []
+  const transitiveOnly = transitive.filter((path) => !direct.includes(path)).length
+
+  return (
+    <div className={`grid grid-cols-1 md:grid-cols-[auto_1fr_1fr] gap-4 md:gap-6 ${className}`}>
+      {/* Risk */}
+      <div className="flex flex-col items-center gap-3 md:pr-2">
+        <RiskGauge score={impact.risk_score} />
+        <div className="text-xs text-gray-500 text-center space-y-0.5">
+          <div>
+            <span className="text-amber-400 font-medium">{direct.length}</span> direct
+          </div>
+          <div>
+            <span className="text-gray-300 font-medium">{transitiveOnly}</span> transitive
+          </div>
+          <div>
+            <span className="text-cyan-400 font-medium">{tests.length}</span> tests
+          </div>
+        </div>
+      </div>
+
+      {/* Dependents */}
+      <div className="min-w-0">
+        <div className="text-xs text-gray-500 mb-2">Dependent files</div>
+        {tree.length === 0 ? (
+          <p className="text-gray-500 text-sm">Nothing depends on this target</p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto">
+            {tree.map((node) => (
+              <TreeItem key={node.path || node.name} node={node} depth={0} />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Affected tests */}
+      <div className="min-w-0">
+        <div className="text-xs text-gray-500 mb-2">Affected tests</div>
+        {tests.length === 0 ? (
+          <p className="text-gray-500 text-sm">No tests cover this target</p>
+        ) : (
+          <div className="space-y-1 max-h-72 overflow-y-auto">
+            {tests.map((test) => (
+              <div key={test} className="flex items-center gap-2 py-1 px-2 min-w-0" title={test}>
+                <FlaskConical className="w-3.5 h-3.5 shrink-0 text-cyan-400" />
+                <span className="font-mono text-sm text-gray-300 truncate">{test}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { useAtom } from 'jotai'
+import { motion, AnimatePresence } from 'motion/react'
+import { X } from 'lucide-react'
+import { Button } from '@/components/ui'
+import { useShortcuts } from '@/hooks'
+import { getNotificationPermission, requestNotificationPermission } from '@/services'
+import type { NotificationPermissionState } from '@/services'
+import { dialogVariants, backdropVariants, useReducedMotion } from '@/utils/motion'
+import { notificationSettingsAtom, notificationSettingsOpenAtom } from '@/atoms'
+import type { NotificationEventType } from '@/types'
+
+const EVENT_TYPES: { type: NotificationEventType; label: string; description: string }[] = [
+  { type: 'chat_result', label: 'Agent finished', description: 'A long chat turn completed or failed' },
+  { type: 'permission_request', label: 'Permission requested', description: 'A tool is waiting for your approval' },
+  { type: 'task_blocked', label: 'Task blocked', description: 'A task moved to blocked' },
+  { type: 'task_failed', label: 'Task failed', description: 'A task moved to failed' },
+]
+
+const checkboxClass =
+  'rounded border-border-default bg-surface-base text-indigo-600 focus:ring-indigo-500 focus:ring-offset-0'
+
+/**
+ * Notification preferences: browser / OS permission, a master switch and
+ * per-event-type toggles. Notifications only fire while the app is not in view.
+ */
+export function NotificationSettingsDialog() {
+  const [open, setOpen] = useAtom(notificationSettingsOpenAtom)
+  const [settings, setSettings] = useAtom(notificationSettingsAtom)
+  const [permission, setPermission] = useState<NotificationPermissionState>('default')
+  const reducedMotion = useReducedMotion()
+
+  useShortcuts(
+    'Notifications',
+    [{ keys: 'escape', description: 'Close', handler: () => setOpen(false), allowInInput: true }],
+    open,
+  )
+
+  useEffect(() => {
+    if (!open) return
+    void getNotificationPermission().then(setPermission)
+  }, [open])
+
+  const handleEnable = async (enabled: boolean) => {
+    if (enabled && permission !== 'granted') {
+      const result = await requestNotificationPermission()
+      setPermission(result)
+      if (result !== 'granted') return
+    }
+    setSettings((prev) => ({ ...prev, enabled }))
+  }
+
+  const toggleType = (type: NotificationEventType, value: boolean) =>
+    setSettings((prev) => ({ ...prev, types: { ...prev.types, [type]: value } }))
+
+  return createPortal(
+    <AnimatePresence>
+      {open && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center p-4"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="notification-settings-title"
+        >
+          <motion.div
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            variants={reducedMotion ? undefined : backdropVariants}
+            initial="hidden"
+            animate="visible"
+            exit="exit"
+            onClick={() => setOpen(false)}
+          />
+
+          <motion.div
+            className="relative glass-medium rounded-xl shadow-xl max-w-md w-full"
+            variants={reducedMotion ? undefined : dialogVariants}
+            initial="hidden"
+            animate="visible"
+            exit="exit"
+          >
+            <div className="flex items-center justify-between px-4 py-3 md:px-6 md:py-4 border-b border-border-subtle">
+              <h3 id="notification-settings-title" className="text-lg font-semibold text-gray-100">
+                Notifications
+              </h3>
+              <button
+                onClick={() => setOpen(false)}
+                className="p-1 text-gray-400 hover:text-gray-200 rounded transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="px-4 py-3 md:px-6 md:py-4 space-y-4">
+              {permission === 'unsupported' ? (
+                <p className="text-sm text-gray-400">Notifications are not supported in this environment.</p>
+              ) : (
+                <>
+                  <label className="flex items-center justify-between gap-4 cursor-pointer">
+                    <span>
+                      <span className="block text-sm text-gray-200">Enable notifications</span>
+                      <span className="block text-xs text-gray-500">Only shown while the app is in the background</span>
+                    </span>
+                    <input
+                      type="checkbox"
+                      checked={settings.enabled && permission === 'granted'}
+                      onChange={(e) => void handleEnable(e.target.checked)}
+                      className={checkboxClass}
+                    />
+                  </label>
+
+                  {permission === 'denied' && (
+                    <p className="text-xs text-amber-400">
+                      Notifications are blocked — allow them in your browser or system settings.
+                    </p>
+                  )}
+
+                  <div className={`space-y-3 ${settings.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+                    {EVENT_TYPES.map(({ type, label, description }) => (
+                      <label key={type} className="flex items-center justify-between gap-4 cursor-pointer">
+                        <span>
+                          <span className="block text-sm text-gray-300">{label}</span>
+                          <span className="block text-xs text-gray-500">{description}</span>
+                        </span>
+                        <input
+                          type="checkbox"
+                          checked={settings.types[type]}
+                          onChange={(e) => toggleType(type, e.target.checked)}
+                          className={checkboxClass}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="flex justify-end px-4 py-3 md:px-6 border-t border-border-subtle">
+              <Button variant="secondary" size="sm" onClick={() => setOpen(false)}>
+                Done
+              </Button>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>,
+    document.body,
+  )
+}
@@ -0,0 +1,162 @@
+import { useState, type ReactNode } from 'react'
+import { Plus, Star, Users } from 'lucide-react'
+import { ConfirmDialog, FormDialog, Input, OverflowMenu, Select } from '@/components/ui'
+import { useConfirmDialog, useToast } from '@/hooks'
+import type { UseSavedViewsReturn } from '@/hooks'
+import type { SavedView, SavedViewScope } from '@/types'
+
+const scopeOptions: { value: SavedViewScope; label: string }[] = [
+  { value: 'personal', label: 'Only me' },
+  { value: 'shared', label: 'Everyone in this workspace' },
+]
+
+const checkboxClass =
+  'rounded border-border-default bg-surface-base text-indigo-600 focus:ring-indigo-500 focus:ring-offset-0'
+
+interface SaveDraft {
+  name: string
+  scope: SavedViewScope
+  makeDefault: boolean
+}
+
+/**
+ * Tab strip of a page's saved views: "All", one tab per view (shared views
+ * marked, the default starred) and a button saving the current state.
+ */
+export function SavedViewTabs({ savedViews }: { savedViews: UseSavedViewsReturn }) {
+  const { views, activeId, isInitial, defaultId, select, save, remove, setDefault } = savedViews
+  const [draft, setDraft] = useState<SaveDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [nameError, setNameError] = useState<string>()
+  const confirmDialog = useConfirmDialog()
+  const toast = useToast()
+
+  const closeSave = () => {
+    setDraft(null)
+    setNameError(undefined)
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+    const name = draft.name.trim()
+    if (!name) {
+      setNameError('Name is required')
+      return
+    }
+    setSaving(true)
+    try {
+      const view = await save(name, draft.scope)
+      if (draft.makeDefault) setDefault(view.id)
+      toast.success(`Saved view "${name}"`)
+      closeSave()
+    } catch {
+      toast.error('Failed to save view')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = (view: SavedView) =>
+    confirmDialog.open({
+      title: 'Delete view',
+      description:
+        view.scope === 'shared'
+          ? `"${view.name}" will be removed for everyone in this workspace.`
+          : `"${view.name}" will be removed.`,
+      onConfirm: async () => {
+        await remove(view)
+        toast.success('View deleted')
+      },
+    })
+
+  return (
+    <>
+      <div className="flex items-center gap-1 mb-4 border-b border-border-subtle overflow-x-auto" role="tablist">
+        <ViewTab active={isInitial} onClick={() => select(null)}>
+          All
+        </ViewTab>
+        {views.map((view) => (
+          <div key={view.id} className="flex items-center shrink-0">
+            <ViewTab active={activeId === view.id} onClick={() => select(view)}>
+              {view.scope === 'shared' && <Users className="w-3.5 h-3.5 text-gray-500" aria-label="Shared" />}
+              {view.name}
+              {defaultId === view.id && <Star className="w-3 h-3 fill-amber-400 text-amber-400" aria-label="Default" />}
+            </ViewTab>
+            <OverflowMenu
+              actions={[
+                defaultId === view.id
+                  ? { label: 'Unset default', onClick: () => setDefault(undefined) }
+                  : { label: 'Set as default', onClick: () => setDefault(view.id) },
+                { label: 'Delete', variant: 'danger', onClick: () => handleDelete(view) },
+              ]}
+            />
+          </div>
+        ))}
+        {!isInitial && activeId === null && (
+          <span className="shrink-0 px-2 text-xs italic text-gray-500">Unsaved view</span>
+        )}
+        <button
+          onClick={() => setDraft({ name: '', scope: 'personal', makeDefault: false })}
+          className="ml-auto flex shrink-0 items-center gap-1 px-2 py-1.5 text-xs text-gray-400 hover:text-gray-200 transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Save view
+        </button>
+      </div>
+
+      <FormDialog
+        open={draft !== null}
+        onClose={closeSave}
+        onSubmit={handleSave}
+        title="Save view"
+        submitLabel="Save"
+        loading={saving}
+        size="sm"
+      >
+        {draft && (
+          <>
+            <p className="text-sm text-gray-400">Saves the current filters, view mode and sort order.</p>
+            <Input
+              label="Name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              error={nameError}
+              autoFocus
+            />
+            <Select
+              label="Visible to"
+              options={scopeOptions}
+              value={draft.scope}
+              onChange={(scope) => setDraft({ ...draft, scope: scope as SavedViewScope })}
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.makeDefault}
+                onChange={(e) => setDraft({ ...draft, makeDefault: e.target.checked })}
+                className={checkboxClass}
+              />
+              Open this page with this view by default
+            </label>
+          </>
+        )}
+      </FormDialog>
+      <ConfirmDialog {...confirmDialog.dialogProps} />
+    </>
+  )
+}
+
+function ViewTab({ active, onClick, children }: { active: boolean; onClick: () => void; children: ReactNode }) {
+  return (
+    <button
+      role="tab"
+      aria-selected={active}
+      onClick={onClick}
+      className={`flex shrink-0 items-center gap-1.5 px-3 py-2 -mb-px border-b-2 text-sm transition-colors ${
+        active ? 'border-indigo-500 text-gray-100' : 'border-transparent text-gray-400 hover:text-gray-200'
+      }`}
+    >
+      {children}
+    </button>
+  )
+}
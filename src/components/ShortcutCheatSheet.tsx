@@ -0,0 +1,101 @@
+import { createPortal } from 'react-dom'
+import { useAtom } from 'jotai'
+import { motion, AnimatePresence } from 'motion/react'
+import { X } from 'lucide-react'
+import { useRegisteredShortcuts, useShortcuts } from '@/hooks'
+import { formatShortcutKey } from '@/utils/shortcuts'
+import { dialogVariants, backdropVariants, useReducedMotion } from '@/utils/motion'
+import { shortcutCheatSheetOpenAtom } from '@/atoms'
+
+/**
+ * Overlay listing every shortcut currently registered, grouped by scope.
+ * Toggled with `?` (bound in MainLayout).
+ */
+export function ShortcutCheatSheet() {
+  const [open, setOpen] = useAtom(shortcutCheatSheetOpenAtom)
+  const scopes = useRegisteredShortcuts()
+  const reducedMotion = useReducedMotion()
+
+  useShortcuts(
+    'Cheat sheet',
+    [{ keys: 'escape', description: 'Close', handler: () => setOpen(false), allowInInput: true }],
+    open,
+  )
+
+  // Merge scopes sharing a name; a later registration of the same keys wins
+  const groups = new Map<string, Map<string, string>>()
+  for (const { scope, bindings } of scopes) {
+    if (scope === 'Cheat sheet') continue
+    const group = groups.get(scope) ?? new Map<string, string>()
+    for (const binding of bindings) group.set(binding.keys, binding.description)
+    groups.set(scope, group)
+  }
+
+  return createPortal(
+    <AnimatePresence>
+      {open && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center p-4"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="shortcut-cheat-sheet-title"
+        >
+          <motion.div
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            variants={reducedMotion ? undefined : backdropVariants}
+            initial="hidden"
+            animate="visible"
+            exit="exit"
+            onClick={() => setOpen(false)}
+          />
+
+          <motion.div
+            className="relative glass-medium rounded-xl shadow-xl max-w-2xl w-full"
+            variants={reducedMotion ? undefined : dialogVariants}
+            initial="hidden"
+            animate="visible"
+            exit="exit"
+          >
+            <div className="flex items-center justify-between px-4 py-3 md:px-6 md:py-4 border-b border-border-subtle">
+              <h3 id="shortcut-cheat-sheet-title" className="text-lg font-semibold text-gray-100">
+                Keyboard Shortcuts
+              </h3>
+              <button
+                onClick={() => setOpen(false)}
+                className="p-1 text-gray-400 hover:text-gray-200 rounded transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="px-4 py-3 md:px-6 md:py-4 max-h-[70vh] overflow-y-auto grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-5">
+              {Array.from(groups.entries()).map(([scope, bindings]) => (
+                <div key={scope}>
+                  <h4 className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-2">{scope}</h4>
+                  <div className="space-y-1.5">
+                    {Array.from(bindings.entries()).map(([keys, description]) => (
+                      <div key={keys} className="flex items-center justify-between gap-4 text-sm">
+                        <span className="text-gray-300">{description}</span>
+                        <span className="flex items-center gap-1 shrink-0">
+                          {keys.split(' ').map((token, index) => (
+                            <kbd
+                              key={`${token}-${index}`}
+                              className="min-w-[1.5rem] text-center text-xs text-gray-300 bg-white/[0.06] border border-white/[0.1] rounded px-1.5 py-0.5 font-mono"
+                            >
+                              {formatShortcutKey(token)}
+                            </kbd>
+                          ))}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>,
+    document.body,
+  )
+}
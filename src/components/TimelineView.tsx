@@ -0,0 +1,244 @@
+import { useMemo, useRef, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { AlertTriangle } from 'lucide-react'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TimelineItem {
+  id: string
+  title: string
+  href?: string
+  status: string
+  /** Bar start — earliest task start, or creation date when no task has started */
+  start: string
+  /** Planned end (`target_date`); the bar is drawn open-ended to today when missing */
+  target?: string
+  /** Progress percentage (0–100) shown as a fill inside the bar */
+  progress?: number
+}
+
+export interface TimelineMarker {
+  id: string
+  label: string
+  date: string
+  /** Already shipped (solid) vs planned (outlined) */
+  done?: boolean
+}
+
+interface TimelineViewProps {
+  items: TimelineItem[]
+  markers?: TimelineMarker[]
+  /** Enables dragging a bar's end; called with the new target date on drop */
+  onTargetDateChange?: (id: string, targetDate: Date) => Promise<void>
+  emptyMessage?: string
+}
+
+interface DragState {
+  id: string
+  originX: number
+  pxPerDay: number
+  deltaDays: number
+}
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DONE_STATUSES = ['completed', 'closed']
+
+const startOfDay = (ms: number) => {
+  const d = new Date(ms)
+  d.setHours(0, 0, 0, 0)
+  return d.getTime()
+}
+
+function isOverdue(item: TimelineItem, now: number): boolean {
+  if (!item.target || DONE_STATUSES.includes(item.status?.toLowerCase())) return false
+  return new Date(item.target).getTime() < now
+}
+
+/** First day of every month in [min, max] */
+function monthTicks(min: number, max: number): number[] {
+  const ticks: number[] = []
+  const d = new Date(min)
+  d.setDate(1)
+  d.setHours(0, 0, 0, 0)
+  if (d.getTime() < min) d.setMonth(d.getMonth() + 1)
+  while (d.getTime() <= max) {
+    ticks.push(d.getTime())
+    d.setMonth(d.getMonth() + 1)
+  }
+  return ticks
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function TimelineView({ items, markers = [], onTargetDateChange, emptyMessage = 'Nothing to schedule' }: TimelineViewProps) {
+  const trackRef = useRef<HTMLDivElement>(null)
+  const [drag, setDrag] = useState<DragState | null>(null)
+  const [now] = useState(() => Date.now())
+
+  // Visible range: every start, target and marker plus today, padded on both sides
+  const range = useMemo(() => {
+    const points = [
+      now,
+      ...items.flatMap((i) => [i.start, i.target].filter(Boolean).map((d) => new Date(d as string).getTime())),
+      ...markers.map((m) => new Date(m.date).getTime()),
+    ].filter((t) => !Number.isNaN(t))
+    const min = startOfDay(Math.min(...points)) - 7 * DAY_MS
+    const max = startOfDay(Math.max(...points)) + 14 * DAY_MS
+    return { min, max, days: (max - min) / DAY_MS }
+  }, [items, markers, now])
+
+  const pct = (ms: number) => `${((ms - range.min) / (range.max - range.min)) * 100}%`
+
+  const handlePointerDown = (e: React.PointerEvent, id: string) => {
+    if (!onTargetDateChange || !trackRef.current) return
+    e.preventDefault()
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const pxPerDay = trackRef.current.getBoundingClientRect().width / range.days
+    setDrag({ id, originX: e.clientX, pxPerDay, deltaDays: 0 })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return
+    const deltaDays = Math.round((e.clientX - drag.originX) / drag.pxPerDay)
+    if (deltaDays !== drag.deltaDays) setDrag({ ...drag, deltaDays })
+  }
+
+  /** `draggedEnd` is the end rendered for the current drag offset */
+  const handlePointerUp = async (item: TimelineItem, draggedEnd: number) => {
+    if (!drag || !onTargetDateChange) return
+    const { deltaDays } = drag
+    setDrag(null)
+    // A plain click moves nothing — not even an undated item off its placeholder end
+    if (deltaDays === 0) return
+    await onTargetDateChange(item.id, new Date(draggedEnd))
+  }
+
+  if (items.length === 0) {
+    return <p className="text-gray-500 text-sm">{emptyMessage}</p>
+  }
+
+  const ticks = monthTicks(range.min, range.max)
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="relative min-w-[640px]">
+        {/* Header: month ticks and release markers */}
+        <div className="flex items-end h-10 border-b border-white/[0.06]">
+          <div className="w-40 sm:w-56 shrink-0" />
+          <div ref={trackRef} className="relative flex-1 h-full">
+            {ticks.map((tick) => (
+              <span
+                key={tick}
+                className="absolute bottom-1 text-[10px] text-gray-500 whitespace-nowrap -translate-x-1/2"
+                style={{ left: pct(tick) }}
+              >
+                {new Date(tick).toLocaleDateString(undefined, { month: 'short', year: '2-digit' })}
+              </span>
+            ))}
+            {markers.map((marker) => (
+              <span
+                key={marker.id}
+                className="absolute top-0 flex flex-col items-center -translate-x-1/2"
+                style={{ left: pct(new Date(marker.date).getTime()) }}
+                title={`${marker.label} · ${new Date(marker.date).toLocaleDateString()}`}
+              >
+                <span className={`text-[10px] whitespace-nowrap ${marker.done ? 'text-green-400' : 'text-purple-400'}`}>
+                  {marker.label}
+                </span>
+                <span
+                  className={`w-2 h-2 rotate-45 border ${marker.done ? 'bg-green-400 border-green-400' : 'border-purple-400'}`}
+                />
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {/* Rows */}
+        <div className="divide-y divide-white/[0.04]">
+          {items.map((item) => {
+            const start = new Date(item.start).getTime()
+            const baseEnd = item.target ? new Date(item.target).getTime() : now
+            const dragging = drag?.id === item.id
+            const end = Math.max(start + DAY_MS, baseEnd + (dragging ? drag.deltaDays * DAY_MS : 0))
+            const overdue = isOverdue(item, now)
+            const done = DONE_STATUSES.includes(item.status?.toLowerCase())
+            const barColor = overdue
+              ? 'bg-red-500/30 border-red-500/60'
+              : done
+                ? 'bg-green-500/25 border-green-500/50'
+                : 'bg-indigo-500/25 border-indigo-500/50'
+            const fillColor = overdue ? 'bg-red-500/50' : done ? 'bg-green-500/50' : 'bg-indigo-500/50'
+
+            return (
+              <div key={item.id} className="flex items-center h-10">
+                <div className="w-40 sm:w-56 shrink-0 pr-3 flex items-center gap-1.5 min-w-0">
+                  {overdue && <AlertTriangle className="w-3.5 h-3.5 shrink-0 text-red-400" aria-label="Overdue" />}
+                  {item.href ? (
+                    <Link to={item.href} className="text-sm text-gray-200 hover:text-indigo-400 transition-colors truncate" title={item.title}>
+                      {item.title}
+                    </Link>
+                  ) : (
+                    <span className="text-sm text-gray-200 truncate" title={item.title}>{item.title}</span>
+                  )}
+                </div>
+                <div className="relative flex-1 h-full">
+                  <div
+                    className={`absolute top-2 bottom-2 rounded border overflow-hidden ${barColor} ${item.target ? '' : 'border-dashed'}`}
+                    style={{ left: pct(start), width: `calc(${pct(end)} - ${pct(start)})` }}
+                    title={`${new Date(start).toLocaleDateString()} → ${(item.target || dragging) ? new Date(end).toLocaleDateString() : 'no target date'}${overdue ? ' · overdue' : ''}`}
+                  >
+                    {item.progress != null && item.progress > 0 && (
+                      <div className={`h-full ${fillColor}`} style={{ width: `${Math.min(100, item.progress)}%` }} />
+                    )}
+                  </div>
+                  {onTargetDateChange && (
+                    <div
+                      role="slider"
+                      aria-label={`Target date for ${item.title}`}
+                      aria-valuetext={item.target ? new Date(end).toLocaleDateString() : 'Not set'}
+                      className="absolute top-1.5 bottom-1.5 w-2 -ml-1 rounded-sm bg-white/30 hover:bg-white/60 cursor-ew-resize touch-none"
+                      style={{ left: pct(end) }}
+                      onPointerDown={(e) => handlePointerDown(e, item.id)}
+                      onPointerMove={handlePointerMove}
+                      onPointerUp={() => handlePointerUp(item, end)}
+                      onPointerCancel={() => setDrag(null)}
+                    />
+                  )}
+                  {dragging && (
+                    <span
+                      className="absolute -top-1 text-[10px] text-gray-200 bg-surface-base border border-white/[0.1] rounded px-1 whitespace-nowrap -translate-x-1/2 pointer-events-none"
+                      style={{ left: pct(end) }}
+                    >
+                      {new Date(end).toLocaleDateString()}
+                    </span>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        {/* Today and release lines across all rows */}
+        <div className="absolute top-10 bottom-0 left-40 sm:left-56 right-0 pointer-events-none">
+          <div className="absolute top-0 bottom-0 border-l border-amber-400/60" style={{ left: pct(now) }} />
+          {markers.map((marker) => (
+            <div
+              key={marker.id}
+              className={`absolute top-0 bottom-0 border-l border-dashed ${marker.done ? 'border-green-400/40' : 'border-purple-400/40'}`}
+              style={{ left: pct(new Date(marker.date).getTime()) }}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
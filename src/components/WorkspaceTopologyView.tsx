@@ -0,0 +1,280 @@
+import { useMemo, useCallback } from 'react'
+import {
+  ReactFlow,
+  Background,
+  Controls,
+  type Node,
+  type Edge,
+  type NodeProps,
+  type Connection,
+  Handle,
+  Position,
+  MarkerType,
+} from '@xyflow/react'
+import dagre from 'dagre'
+import type { Component, ComponentDependency, ComponentType } from '@/types'
+import '@xyflow/react/dist/style.css'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface WorkspaceTopologyViewProps {
+  components: Component[]
+  dependencies: ComponentDependency[]
+  /** Called when the user drags from one component to another (from depends on to) */
+  onConnect?: (fromId: string, toId: string) => void
+  /** Called when the user clicks an existing dependency edge */
+  onEdgeClick?: (dependency: ComponentDependency) => void
+  className?: string
+}
+
+interface ComponentNodeData extends Record<string, unknown> {
+  label: string
+  componentType: ComponentType
+  runtime?: string
+  connectable: boolean
+}
+
+// ============================================================================
+// COMPONENT TYPE COLORS (matching design system)
+// ============================================================================
+
+const componentTypeColors: Record<ComponentType, { bg: string; border: string; text: string }> = {
+  service: { bg: '#1e1b4b', border: '#6366f1', text: '#a5b4fc' },
+  frontend: { bg: '#083344', border: '#06b6d4', text: '#67e8f9' },
+  worker: { bg: '#2e1065', border: '#a855f7', text: '#d8b4fe' },
+  database: { bg: '#052e16', border: '#22c55e', text: '#86efac' },
+  message_queue: { bg: '#422006', border: '#d97706', text: '#fcd34d' },
+  cache: { bg: '#450a0a', border: '#ef4444', text: '#fca5a5' },
+  gateway: { bg: '#172554', border: '#3b82f6', text: '#93c5fd' },
+  external: { bg: '#1f2937', border: '#6b7280', text: '#d1d5db' },
+  other: { bg: '#1f2937', border: '#4b5563', text: '#9ca3af' },
+}
+
+const componentTypeLabels: Record<ComponentType, string> = {
+  service: 'Service',
+  frontend: 'Frontend',
+  worker: 'Worker',
+  database: 'Database',
+  message_queue: 'Message Queue',
+  cache: 'Cache',
+  gateway: 'Gateway',
+  external: 'External',
+  other: 'Other',
+}
+
+// ============================================================================
+// DAGRE LAYOUT
+// ============================================================================
+
+const NODE_WIDTH = 200
+const NODE_HEIGHT = 56
+
+function getLayoutedNodes(
+  nodes: Node<ComponentNodeData>[],
+  edges: Edge[],
+): Node<ComponentNodeData>[] {
+  const g = new dagre.graphlib.Graph()
+  g.setDefaultEdgeLabel(() => ({}))
+  g.setGraph({ rankdir: 'LR', nodesep: 50, ranksep: 120, marginx: 20, marginy: 20 })
+
+  nodes.forEach((node) => {
+    g.setNode(node.id, { width: NODE_WIDTH, height: NODE_HEIGHT })
+  })
+
+  edges.forEach((edge) => {
+    g.setEdge(edge.source, edge.target)
+  })
+
+  dagre.layout(g)
+
+  return nodes.map((node) => {
+    const nodeWithPosition = g.node(node.id)
+    return {
+      ...node,
+      position: {
+        x: nodeWithPosition.x - NODE_WIDTH / 2,
+        y: nodeWithPosition.y - NODE_HEIGHT / 2,
+      },
+    }
+  })
+}
+
+// ============================================================================
+// CUSTOM NODE COMPONENT
+// ============================================================================
+
+function ComponentNodeComponent({ data }: NodeProps<Node<ComponentNodeData>>) {
+  const colors = componentTypeColors[data.componentType] || componentTypeColors.other
+
+  return (
+    <div
+      style={{
+        background: colors.bg,
+        border: `1.5px solid ${colors.border}`,
+        borderRadius: 10,
+        padding: '8px 14px',
+        width: NODE_WIDTH,
+      }}
+    >
+      <Handle
+        type="target"
+        position={Position.Left}
+        isConnectable={data.connectable}
+        style={{ background: colors.border, width: 8, height: 8 }}
+      />
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] uppercase tracking-wide font-medium" style={{ color: colors.text }}>
+          {componentTypeLabels[data.componentType] || data.componentType}
+        </span>
+        {data.runtime && <span className="text-[10px] text-gray-500 ml-auto truncate">{data.runtime}</span>}
+      </div>
+      <p className="text-sm font-medium truncate" style={{ color: '#e5e7eb' }} title={data.label}>
+        {data.label}
+      </p>
+      <Handle
+        type="source"
+        position={Position.Right}
+        isConnectable={data.connectable}
+        style={{ background: colors.border, width: 8, height: 8 }}
+      />
+    </div>
+  )
+}
+
+const nodeTypes = { componentNode: ComponentNodeComponent }
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function WorkspaceTopologyView({
+  components,
+  dependencies,
+  onConnect,
+  onEdgeClick,
+  className = '',
+}: WorkspaceTopologyViewProps) {
+  const connectable = !!onConnect
+
+  const { layoutedNodes, layoutedEdges, graphHeight } = useMemo(() => {
+    const rfNodes: Node<ComponentNodeData>[] = components.map((component) => ({
+      id: component.id,
+      type: 'componentNode',
+      position: { x: 0, y: 0 },
+      data: {
+        label: component.name,
+        componentType: component.component_type,
+        runtime: component.runtime,
+        connectable,
+      },
+    }))
+
+    // Drop edges pointing at components that are not in the current list
+    const knownIds = new Set(components.map((c) => c.id))
+    const rfEdges: Edge[] = dependencies
+      .filter((dep) => knownIds.has(dep.from_id) && knownIds.has(dep.to_id))
+      .map((dep) => {
+        const target = components.find((c) => c.id === dep.to_id)
+        const edgeColor = target
+          ? (componentTypeColors[target.component_type] || componentTypeColors.other).border
+          : '#4b5563'
+        return {
+          id: `${dep.from_id}->${dep.to_id}`,
+          source: dep.from_id,
+          target: dep.to_id,
+          label: dep.protocol,
+          labelStyle: { fill: '#d1d5db', fontSize: 11 },
+          labelBgStyle: { fill: '#111827' },
+          labelBgPadding: [4, 2] as [number, number],
+          style: {
+            stroke: edgeColor,
+            strokeWidth: 2,
+            ...(dep.required ? {} : { strokeDasharray: '6 4' }),
+          },
+          markerEnd: {
+            type: MarkerType.ArrowClosed,
+            color: edgeColor,
+            width: 16,
+            height: 16,
+          },
+          data: { dependency: dep },
+        }
+      })
+
+    const ln = getLayoutedNodes(rfNodes, rfEdges)
+
+    const maxY = ln.reduce((max, n) => Math.max(max, n.position.y), 0)
+    const calculatedHeight = Math.max(300, Math.min(700, maxY + 140))
+
+    return { layoutedNodes: ln, layoutedEdges: rfEdges, graphHeight: calculatedHeight }
+  }, [components, dependencies, connectable])
+
+  const handleConnect = useCallback(
+    (connection: Connection) => {
+      if (!onConnect || !connection.source || !connection.target) return
+      if (connection.source === connection.target) return
+      onConnect(connection.source, connection.target)
+    },
+    [onConnect],
+  )
+
+  const handleEdgeClick = useCallback(
+    (_: React.MouseEvent, edge: Edge) => {
+      const dep = (edge.data as { dependency?: ComponentDependency } | undefined)?.dependency
+      if (dep) onEdgeClick?.(dep)
+    },
+    [onEdgeClick],
+  )
+
+  if (layoutedNodes.length === 0) {
+    return <p className="text-gray-500 text-sm">No components to display</p>
+  }
+
+  // Legend only lists types actually present in the workspace
+  const presentTypes = Array.from(new Set(components.map((c) => c.component_type)))
+
+  return (
+    <div className={className}>
+      <div style={{ height: graphHeight }}>
+        <ReactFlow
+          nodes={layoutedNodes}
+          edges={layoutedEdges}
+          nodeTypes={nodeTypes}
+          onConnect={handleConnect}
+          onEdgeClick={handleEdgeClick}
+          fitView
+          fitViewOptions={{ padding: 0.2 }}
+          minZoom={0.3}
+          maxZoom={1.5}
+          proOptions={{ hideAttribution: true }}
+          nodesDraggable={false}
+          nodesConnectable={connectable}
+          elementsSelectable={false}
+          panOnDrag
+          zoomOnScroll
+          zoomOnPinch
+        >
+          <Background color="#374151" gap={20} size={1} />
+          <Controls showInteractive={false} className="dep-graph-controls" />
+        </ReactFlow>
+      </div>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-3 text-xs text-gray-500">
+        {presentTypes.map((type) => (
+          <span key={type} className="inline-flex items-center gap-1.5">
+            <span
+              className="w-2.5 h-2.5 rounded-full"
+              style={{ background: (componentTypeColors[type] || componentTypeColors.other).border }}
+            />
+            {componentTypeLabels[type] || type}
+          </span>
+        ))}
+        <span className="inline-flex items-center gap-1.5 ml-auto">
+          <span className="w-5 border-t-2 border-dashed border-gray-500" />
+          Optional
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,245 @@
+import { useState } from 'react'
+import { FormDialog, Input, Select } from '@/components/ui'
+import { useWorkspaceSlug } from '@/hooks'
+import { plansApi, projectsApi, workspacesApi } from '@/services'
+import type { BulkChange, BulkEditKind, BulkLinkTarget } from './operations'
+
+interface Option {
+  value: string
+  label: string
+}
+
+interface BulkEditDialogProps {
+  open: boolean
+  onClose: () => void
+  onSubmit: (change: BulkChange) => void
+  count: number
+  /** Singular entity name, e.g. "task" */
+  noun: string
+  kinds: BulkEditKind[]
+  statusOptions: Option[]
+  /** Choices for priority (note importance); a number input when omitted */
+  priorityOptions?: Option[]
+}
+
+const kindLabels: Record<BulkEditKind, string> = {
+  status: 'Change status',
+  priority: 'Set priority',
+  tags: 'Add or remove tags',
+  assignee: 'Assign to a person',
+  link: 'Link to a milestone or release',
+  plan: 'Move to another plan',
+}
+
+const linkTargetOptions: { value: BulkLinkTarget; label: string }[] = [
+  { value: 'milestone', label: 'Workspace milestone' },
+  { value: 'release', label: 'Release' },
+]
+
+const splitTags = (value: string) =>
+  value
+    .split(',')
+    .map((t) => t.trim().replace(/^#/, ''))
+    .filter(Boolean)
+
+/** Picks one bulk change (action + value) to apply to the selected items */
+export function BulkEditDialog({
+  open,
+  onClose,
+  onSubmit,
+  count,
+  noun,
+  kinds,
+  statusOptions,
+  priorityOptions,
+}: BulkEditDialogProps) {
+  const wsSlug = useWorkspaceSlug()
+  const [kind, setKind] = useState<BulkEditKind>(kinds[0])
+  const [status, setStatus] = useState(statusOptions[0]?.value ?? '')
+  const [priority, setPriority] = useState(priorityOptions?.[0]?.value ?? '')
+  const [tagsToAdd, setTagsToAdd] = useState('')
+  const [tagsToRemove, setTagsToRemove] = useState('')
+  const [assignee, setAssignee] = useState('')
+  const [linkTarget, setLinkTarget] = useState<BulkLinkTarget>('milestone')
+  const [targetId, setTargetId] = useState('')
+  const [targets, setTargets] = useState<Option[] | null>(null)
+  const [error, setError] = useState<string>()
+
+  // Milestones, releases and plans are only fetched once their action is picked
+  const loadTargets = (nextKind: BulkEditKind, nextLinkTarget: BulkLinkTarget) => {
+    setTargets(null)
+    setTargetId('')
+    let request: Promise<Option[]> | undefined
+    if (nextKind === 'plan') {
+      request = plansApi
+        .list({ workspace_slug: wsSlug, limit: 100 })
+        .then((data) => (data.items || []).map((p) => ({ value: p.id, label: p.title })))
+    } else if (nextKind === 'link' && nextLinkTarget === 'milestone') {
+      request = workspacesApi
+        .listMilestones(wsSlug, { limit: 100 })
+        .then((data) => (data.items || []).map((m) => ({ value: m.id, label: m.title })))
+    } else if (nextKind === 'link') {
+      request = workspacesApi.listProjects(wsSlug).then(async (projects) => {
+        const releases = await Promise.all(
+          projects.map((project) =>
+            projectsApi
+              .listReleases(project.id, { limit: 100 })
+              .then((data) =>
+                (data.items || []).map((r) => ({
+                  value: r.id,
+                  label: `${project.name} ${r.version}${r.title ? ` — ${r.title}` : ''}`,
+                })),
+              ),
+          ),
+        )
+        return releases.flat()
+      })
+    }
+    request?.then(setTargets).catch(() => setTargets([]))
+  }
+
+  const selectKind = (value: string) => {
+    const next = value as BulkEditKind
+    setKind(next)
+    setError(undefined)
+    loadTargets(next, linkTarget)
+  }
+
+  const selectLinkTarget = (value: string) => {
+    const next = value as BulkLinkTarget
+    setLinkTarget(next)
+    loadTargets(kind, next)
+  }
+
+  const close = () => {
+    setError(undefined)
+    onClose()
+  }
+
+  const handleSubmit = () => {
+    const targetLabel = targets?.find((t) => t.value === targetId)?.label ?? targetId
+    let change: BulkChange
+    switch (kind) {
+      case 'status':
+        change = { kind, value: status, label: statusOptions.find((o) => o.value === status)?.label ?? status }
+        break
+      case 'priority':
+        if (!priorityOptions && (priority === '' || isNaN(Number(priority)))) {
+          setError('Enter a priority')
+          return
+        }
+        change = { kind, value: priority, label: priorityOptions?.find((o) => o.value === priority)?.label ?? priority }
+        break
+      case 'tags': {
+        const add = splitTags(tagsToAdd)
+        const remove = splitTags(tagsToRemove)
+        if (add.length === 0 && remove.length === 0) {
+          setError('Enter tags to add or remove')
+          return
+        }
+        change = { kind, add, remove }
+        break
+      }
+      case 'assignee':
+        change = { kind, value: assignee.trim() }
+        break
+      case 'link':
+        if (!targetId) {
+          setError(`Pick a ${linkTarget}`)
+          return
+        }
+        change = { kind, target: linkTarget, id: targetId, label: targetLabel }
+        break
+      case 'plan':
+        if (!targetId) {
+          setError('Pick a plan')
+          return
+        }
+        change = { kind, id: targetId, label: targetLabel }
+        break
+    }
+    setError(undefined)
+    onSubmit(change)
+  }
+
+  const targetPicker = (label: string) => (
+    <Select
+      label={label}
+      options={targets ?? []}
+      value={targetId}
+      onChange={setTargetId}
+      placeholder={targets === null ? 'Loading…' : targets.length === 0 ? 'Nothing to pick' : 'Select…'}
+      disabled={!targets?.length}
+      error={error}
+    />
+  )
+
+  return (
+    <FormDialog
+      open={open}
+      onClose={close}
+      onSubmit={handleSubmit}
+      title={`Edit ${count} ${noun}${count > 1 ? 's' : ''}`}
+      submitLabel="Apply"
+      size="sm"
+    >
+      <Select
+        label="Action"
+        options={kinds.map((k) => ({ value: k, label: kindLabels[k] }))}
+        value={kind}
+        onChange={selectKind}
+      />
+
+      {kind === 'status' && <Select label="Status" options={statusOptions} value={status} onChange={setStatus} />}
+
+      {kind === 'priority' &&
+        (priorityOptions ? (
+          <Select label="Priority" options={priorityOptions} value={priority} onChange={setPriority} />
+        ) : (
+          <Input
+            label="Priority"
+            type="number"
+            value={priority}
+            onChange={(e) => setPriority(e.target.value)}
+            error={error}
+          />
+        ))}
+
+      {kind === 'tags' && (
+        <>
+          <Input
+            label="Add tags"
+            placeholder="e.g. frontend, urgent"
+            value={tagsToAdd}
+            onChange={(e) => setTagsToAdd(e.target.value)}
+          />
+          <Input
+            label="Remove tags"
+            placeholder="e.g. triage"
+            value={tagsToRemove}
+            onChange={(e) => setTagsToRemove(e.target.value)}
+            error={error}
+          />
+        </>
+      )}
+
+      {kind === 'assignee' && (
+        <Input
+          label="Assignee"
+          placeholder="Leave empty to unassign"
+          value={assignee}
+          onChange={(e) => setAssignee(e.target.value)}
+        />
+      )}
+
+      {kind === 'link' && (
+        <>
+          <Select label="Link to" options={linkTargetOptions} value={linkTarget} onChange={selectLinkTarget} />
+          {targetPicker(linkTarget === 'milestone' ? 'Milestone' : 'Release')}
+        </>
+      )}
+
+      {kind === 'plan' && targetPicker('Plan')}
+    </FormDialog>
+  )
+}
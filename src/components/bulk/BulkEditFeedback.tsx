@@ -0,0 +1,85 @@
+import { useState } from 'react'
+import { AlertTriangle, CheckCircle2, X } from 'lucide-react'
+import { Button, ProgressBar } from '@/components/ui'
+import type { BulkProgress, BulkResult } from '@/hooks'
+
+interface BulkEditFeedbackProps {
+  progress: BulkProgress | null
+  result: BulkResult | null
+  noun: string
+  onUndo: () => void
+  onDismiss: () => void
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+/**
+ * Floating panel above the bulk action bar: progress while a bulk change
+ * runs, then a summary listing failed items with an Undo for the rest.
+ */
+export function BulkEditFeedback({ progress, result, noun, onUndo, onDismiss }: BulkEditFeedbackProps) {
+  const [showFailures, setShowFailures] = useState(false)
+  if (!progress && !result) return null
+
+  return (
+    <div className="fixed bottom-20 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-md bg-surface-overlay border border-border-default shadow-lg rounded-xl px-4 py-3">
+      {progress ? (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm text-gray-300">
+            <span className="truncate">{progress.label}</span>
+            <span className="text-xs text-gray-500 shrink-0 ml-2">
+              {progress.current} / {progress.total}
+            </span>
+          </div>
+          <ProgressBar value={progress.current} max={progress.total} size="sm" />
+        </div>
+      ) : result ? (
+        <div className="space-y-2">
+          <div className="flex items-start gap-2">
+            {result.failures.length > 0 ? (
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-amber-400" />
+            ) : (
+              <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-green-400" />
+            )}
+            <div className="flex-1 min-w-0 text-sm">
+              <div className="text-gray-200 truncate">{result.label}</div>
+              <div className="text-xs text-gray-500">
+                {result.failures.length === 0
+                  ? `${plural(result.succeeded, noun)} ${result.undone ? 'restored' : 'updated'}`
+                  : `${result.succeeded} of ${plural(result.total, noun)} ${result.undone ? 'restored' : 'updated'} · ${result.failures.length} failed`}
+              </div>
+            </div>
+            {result.canUndo && (
+              <Button variant="secondary" size="sm" onClick={onUndo}>
+                Undo
+              </Button>
+            )}
+            <button onClick={onDismiss} className="p-1 text-gray-500 hover:text-gray-300 transition-colors" aria-label="Dismiss">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {result.failures.length > 0 && (
+            <>
+              <button
+                onClick={() => setShowFailures((v) => !v)}
+                className="text-xs text-amber-400 hover:text-amber-300 transition-colors"
+              >
+                {showFailures ? 'Hide failures' : 'Show failures'}
+              </button>
+              {showFailures && (
+                <ul className="max-h-40 overflow-y-auto space-y-1 text-xs">
+                  {result.failures.map((failure) => (
+                    <li key={failure.id} className="flex gap-2">
+                      <span className="text-gray-300 truncate">{failure.label}</span>
+                      <span className="text-red-400 truncate">{failure.error}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      ) : null}
+    </div>
+  )
+}
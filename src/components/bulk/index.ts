@@ -0,0 +1,4 @@
+export { BulkEditDialog } from './BulkEditDialog'
+export { BulkEditFeedback } from './BulkEditFeedback'
+export { taskOperation, planOperation, noteOperation, describeChange } from './operations'
+export type { BulkChange, BulkEditKind, BulkLinkTarget } from './operations'
@@ -0,0 +1,214 @@
+import { notesApi, plansApi, projectsApi, tasksApi, workspacesApi } from '@/services'
+import type { BulkOperation } from '@/hooks'
+import type { Note, NoteImportance, NoteStatus, Plan, PlanStatus, TaskStatus, TaskWithPlan } from '@/types'
+
+export type BulkEditKind = 'status' | 'priority' | 'tags' | 'assignee' | 'link' | 'plan'
+
+/** Target of a bulk link: a workspace milestone or a project release */
+export type BulkLinkTarget = 'milestone' | 'release'
+
+export type BulkChange =
+  | { kind: 'status'; value: string; label: string }
+  /** Numeric priority for tasks and plans, importance for notes */
+  | { kind: 'priority'; value: string; label: string }
+  | { kind: 'tags'; add: string[]; remove: string[] }
+  /** Empty value unassigns */
+  | { kind: 'assignee'; value: string }
+  | { kind: 'link'; target: BulkLinkTarget; id: string; label: string }
+  | { kind: 'plan'; id: string; label: string }
+
+/** Human summary of a change, used as the progress and result label */
+export function describeChange(change: BulkChange): string {
+  switch (change.kind) {
+    case 'status':
+      return `Set status to ${change.label}`
+    case 'priority':
+      return `Set priority to ${change.label}`
+    case 'tags': {
+      const parts = [
+        change.add.length > 0 && `add ${change.add.map((t) => `#${t}`).join(', ')}`,
+        change.remove.length > 0 && `remove ${change.remove.map((t) => `#${t}`).join(', ')}`,
+      ].filter(Boolean)
+      return `Tags: ${parts.join('; ')}`
+    }
+    case 'assignee':
+      return change.value ? `Assign to ${change.value}` : 'Unassign'
+    case 'link':
+      return `Link to ${change.target} ${change.label}`
+    case 'plan':
+      return `Move to plan ${change.label}`
+  }
+}
+
+function nextTags(tags: string[], add: string[], remove: string[]): string[] {
+  return [...new Set([...tags.filter((t) => !remove.includes(t)), ...add])]
+}
+
+const sameTags = (a: string[], b: string[]) => a.length === b.length && a.every((t, i) => t === b[i])
+
+// ============================================================================
+// TASKS
+// ============================================================================
+
+/**
+ * Bulk change of one task. Like the plan and note variants, items already
+ * holding the value are skipped and resolve without an undo.
+ */
+export function taskOperation(change: BulkChange): BulkOperation<TaskWithPlan> {
+  const label = describeChange(change)
+  switch (change.kind) {
+    case 'status':
+      return {
+        label,
+        run: async (task) => {
+          if (task.status === change.value) return
+          await tasksApi.update(task.id, { status: change.value as TaskStatus })
+          return () => tasksApi.update(task.id, { status: task.status })
+        },
+      }
+    case 'priority':
+      return {
+        label,
+        run: async (task) => {
+          const priority = Number(change.value)
+          if (task.priority === priority) return
+          await tasksApi.update(task.id, { priority })
+          if (task.priority !== undefined) return () => tasksApi.update(task.id, { priority: task.priority })
+        },
+      }
+    case 'tags':
+      return {
+        label,
+        run: async (task) => {
+          const previous = task.tags || []
+          const tags = nextTags(previous, change.add, change.remove)
+          if (sameTags(previous, tags)) return
+          await tasksApi.update(task.id, { tags })
+          return () => tasksApi.update(task.id, { tags: previous })
+        },
+      }
+    case 'assignee':
+      return {
+        label,
+        run: async (task) => {
+          if ((task.assigned_to || '') === change.value) return
+          await tasksApi.update(task.id, { assigned_to: change.value })
+          return () => tasksApi.update(task.id, { assigned_to: task.assigned_to || '' })
+        },
+      }
+    case 'link': {
+      // Tasks already linked are skipped so Undo never removes a link made before
+      let linked: Promise<Set<string>> | undefined
+      const linkedTaskIds = () =>
+        (linked ??= (
+          change.target === 'milestone'
+            ? workspacesApi.listMilestoneTasks(change.id)
+            : projectsApi.getRelease(change.id).then((release) => release.tasks)
+        ).then((tasks) => new Set((Array.isArray(tasks) ? tasks : []).map((t) => t.id))))
+      return {
+        label,
+        run: async (task) => {
+          if ((await linkedTaskIds()).has(task.id)) return
+          if (change.target === 'milestone') {
+            await workspacesApi.addTaskToMilestone(change.id, task.id)
+            return () => workspacesApi.removeTaskFromMilestone(change.id, task.id)
+          }
+          await projectsApi.addTaskToRelease(change.id, task.id)
+          return () => projectsApi.removeTaskFromRelease(change.id, task.id)
+        },
+      }
+    }
+    case 'plan':
+      return {
+        label,
+        run: async (task) => {
+          if (task.plan_id === change.id) return
+          await tasksApi.update(task.id, { plan_id: change.id })
+          return () => tasksApi.update(task.id, { plan_id: task.plan_id })
+        },
+      }
+  }
+}
+
+// ============================================================================
+// PLANS
+// ============================================================================
+
+export function planOperation(change: BulkChange): BulkOperation<Plan> {
+  const label = describeChange(change)
+  switch (change.kind) {
+    case 'status':
+      return {
+        label,
+        run: async (plan) => {
+          if (plan.status === change.value) return
+          await plansApi.updateStatus(plan.id, change.value as PlanStatus)
+          return () => plansApi.updateStatus(plan.id, plan.status)
+        },
+      }
+    case 'priority':
+      return {
+        label,
+        run: async (plan) => {
+          const priority = Number(change.value)
+          if (plan.priority === priority) return
+          await plansApi.update(plan.id, { priority })
+          return () => plansApi.update(plan.id, { priority: plan.priority })
+        },
+      }
+    default:
+      throw new Error(`Plans don't support bulk ${change.kind} changes`)
+  }
+}
+
+// ============================================================================
+// NOTES
+// ============================================================================
+
+export function noteOperation(change: BulkChange): BulkOperation<Note> {
+  const label = describeChange(change)
+  switch (change.kind) {
+    case 'status':
+      return {
+        label,
+        run: async (note) => {
+          if (note.status === change.value) return
+          await notesApi.update(note.id, { status: change.value as NoteStatus })
+          return () => notesApi.update(note.id, { status: note.status })
+        },
+      }
+    case 'priority':
+      return {
+        label,
+        run: async (note) => {
+          if (note.importance === change.value) return
+          await notesApi.update(note.id, { importance: change.value as NoteImportance })
+          return () => notesApi.update(note.id, { importance: note.importance })
+        },
+      }
+    case 'tags':
+      return {
+        label,
+        run: async (note) => {
+          const tags = nextTags(note.tags, change.add, change.remove)
+          if (sameTags(note.tags, tags)) return
+          await notesApi.update(note.id, { tags })
+          return () => notesApi.update(note.id, { tags: note.tags })
+        },
+      }
+    case 'link': {
+      const entityType = change.target === 'milestone' ? 'workspace_milestone' : 'release'
+      return {
+        label,
+        run: async (note) => {
+          const anchored = (note.anchors || []).some((a) => a.entity_type === entityType && a.entity_id === change.id)
+          if (anchored) return
+          await notesApi.linkToEntity(note.id, entityType, change.id)
+          return () => notesApi.unlinkFromEntity(note.id, entityType, change.id)
+        },
+      }
+    }
+    default:
+      throw new Error(`Notes don't support bulk ${change.kind} changes`)
+  }
+}
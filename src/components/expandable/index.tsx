@@ -4,7 +4,7 @@ import { Link } from 'react-router-dom'
 import { ChevronRight } from 'lucide-react'
 import { InteractivePlanStatusBadge, TaskStatusBadge } from '@/components/ui'
 import { tasksApi } from '@/services'
-import { useWorkspaceSlug } from '@/hooks'
+import { useWorkspaceSlug, useEntityPatches, patchEntityList } from '@/hooks'
 import { workspacePath } from '@/utils/paths'
 import type { Plan, Task, Step, PlanStatus, StepStatus } from '@/types'
 
@@ -104,6 +104,9 @@ export function NestedTaskRow({
     fetchSteps()
   }, [refreshTrigger, fetchSteps])
 
+  // Live step updates from the entity store
+  useEntityPatches('step', (record) => setSteps((prev) => patchEntityList(prev, record)))
+
   // Expand/Collapse all signals
   useEffect(() => {
     // eslint-disable-next-line react-hooks/set-state-in-effect -- signal-driven toggle from parent
@@ -200,6 +203,9 @@ export function ExpandablePlanRow({
     fetchTasks()
   }, [refreshTrigger, fetchTasks])
 
+  // Live task updates from the entity store
+  useEntityPatches('task', (record) => setTasks((prev) => patchEntityList(prev, record)))
+
   // Expand/Collapse all signals
   useEffect(() => {
     // eslint-disable-next-line react-hooks/set-state-in-effect -- signal-driven toggle from parent
@@ -289,6 +295,9 @@ export function ExpandableTaskRow({
     fetchSteps()
   }, [refreshTrigger, fetchSteps])
 
+  // Live step updates from the entity store
+  useEntityPatches('step', (record) => setSteps((prev) => patchEntityList(prev, record)))
+
   // Expand/Collapse all signals
   useEffect(() => {
     // eslint-disable-next-line react-hooks/set-state-in-effect -- signal-driven toggle from parent
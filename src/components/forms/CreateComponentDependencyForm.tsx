@@ -0,0 +1,50 @@
+import { useState } from 'react'
+import { Input, Select } from '@/components/ui'
+
+export interface CreateComponentDependencyFormData {
+  protocol?: string
+  required: boolean
+}
+
+interface Props {
+  onSubmit: (data: CreateComponentDependencyFormData) => Promise<void>
+  loading?: boolean
+}
+
+const requiredOptions = [
+  { value: 'required', label: 'Required' },
+  { value: 'optional', label: 'Optional' },
+]
+
+export function CreateComponentDependencyForm({ onSubmit, loading }: Props) {
+  const [protocol, setProtocol] = useState('')
+  const [required, setRequired] = useState('required')
+
+  return {
+    fields: (
+      <>
+        <Input
+          label="Protocol"
+          placeholder="http, grpc, amqp, sql, etc. (optional)"
+          value={protocol}
+          onChange={(e) => setProtocol(e.target.value)}
+          disabled={loading}
+          autoFocus
+        />
+        <Select
+          label="Dependency"
+          options={requiredOptions}
+          value={required}
+          onChange={(value) => setRequired(value)}
+          disabled={loading}
+        />
+      </>
+    ),
+    submit: async () => {
+      await onSubmit({
+        protocol: protocol.trim() || undefined,
+        required: required === 'required',
+      })
+    },
+  }
+}
@@ -0,0 +1,47 @@
+import { useState } from 'react'
+import { Input } from '@/components/ui'
+
+export interface LinkCommitFormData {
+  commit_sha: string
+}
+
+interface Props {
+  onSubmit: (data: LinkCommitFormData) => Promise<void>
+  loading?: boolean
+}
+
+/** Abbreviated (7+) or full 40-character hex SHA-1 */
+const SHA_PATTERN = /^[0-9a-f]{7,40}$/i
+
+export function LinkCommitForm({ onSubmit, loading }: Props) {
+  const [sha, setSha] = useState('')
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const validate = () => {
+    const errs: Record<string, string> = {}
+    const trimmed = sha.trim()
+    if (!trimmed) errs.sha = 'Commit SHA is required'
+    else if (!SHA_PATTERN.test(trimmed)) errs.sha = 'Must be 7 to 40 hexadecimal characters'
+    setErrors(errs)
+    return Object.keys(errs).length === 0
+  }
+
+  return {
+    fields: (
+      <Input
+        label="Commit SHA"
+        placeholder="e.g. 3e1111e or full 40-character SHA"
+        value={sha}
+        onChange={(e) => setSha(e.target.value)}
+        error={errors.sha}
+        disabled={loading}
+        className="font-mono"
+        autoFocus
+      />
+    ),
+    submit: async () => {
+      if (!validate()) return
+      await onSubmit({ commit_sha: sha.trim().toLowerCase() })
+    },
+  }
+}
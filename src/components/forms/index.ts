@@ -10,3 +10,5 @@ export { CreateReleaseForm } from './CreateReleaseForm'
 export { CreateResourceForm } from './CreateResourceForm'
 export { CreateComponentForm } from './CreateComponentForm'
 export { CreateNoteForm } from './CreateNoteForm'
+export { CreateComponentDependencyForm } from './CreateComponentDependencyForm'
+export { LinkCommitForm } from './LinkCommitForm'
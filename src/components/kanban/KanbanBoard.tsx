@@ -1,4 +1,5 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
+import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react'
 import {
   DndContext,
   DragOverlay,
@@ -10,20 +11,38 @@ import {
   closestCenter,
 } from '@dnd-kit/core'
 import type { DragStartEvent, DragEndEvent } from '@dnd-kit/core'
-import type { TaskStatus, PaginatedResponse } from '@/types'
-import { useKanbanColumnData, useIsMobile } from '@/hooks'
-import type { ColumnData } from '@/hooks'
+import type { TaskStatus, PaginatedResponse, UpdateTaskRequest } from '@/types'
+import { useKanbanColumnData, useIsMobile, useEntityPatches, applyRecordToColumns, useWipLimits, wipState } from '@/hooks'
+import type { ColumnData, KanbanGroupBy } from '@/hooks'
 import { KanbanColumn } from './KanbanColumn'
 import { KanbanCardOverlay } from './KanbanCard'
 import type { KanbanTask } from './KanbanCard'
+import { WipJustifyDialog, WipSettingsButton } from './WipLimits'
+import { cellId, laneAcceptsDrops, laneOf, laneRevert, laneUpdate, parseCellId, sortLanes } from './swimlanes'
+import type { ProjectResolver, Swimlane } from './swimlanes'
 
 interface KanbanBoardProps {
-  fetchFn: (params: Record<string, unknown>) => Promise<PaginatedResponse<KanbanTask>>
+  fetchFn: (params: Record<string, unknown>, signal: AbortSignal) => Promise<PaginatedResponse<KanbanTask>>
   filters?: Record<string, unknown>
   hiddenStatuses?: TaskStatus[]
-  onTaskStatusChange: (taskId: string, newStatus: TaskStatus) => Promise<void>
+  /** Persist a status drop; `previous` is the task as it was before the drop */
+  onTaskStatusChange: (taskId: string, newStatus: TaskStatus, previous: KanbanTask) => Promise<void>
   onTaskClick?: (taskId: string) => void
   refreshTrigger?: number
+  /** Split the board into swimlanes by this field (desktop only) */
+  groupBy?: KanbanGroupBy
+  /** Task → project lookup, required for `groupBy: 'project'` */
+  resolveProject?: ProjectResolver
+  /** Persist the field change when a card is dragged into another swimlane */
+  onTaskFieldsChange?: (taskId: string, updates: UpdateTaskRequest, revert: UpdateTaskRequest) => Promise<void>
+  /** Record why a task was moved past a column's WIP limit (`justify` policy) */
+  onWipOverride?: (taskId: string, status: TaskStatus, justification: string) => void
+}
+
+interface LaneData {
+  lane: Swimlane
+  cells: Record<TaskStatus, KanbanTask[]>
+  count: number
 }
 
 const columns: { id: TaskStatus; title: string; color: string }[] = [
@@ -34,9 +53,23 @@ const columns: { id: TaskStatus; title: string; color: string }[] = [
   { id: 'failed', title: 'Failed', color: 'red' },
 ]
 
-export function KanbanBoard({ fetchFn, filters = {}, hiddenStatuses = [], onTaskStatusChange, onTaskClick, refreshTrigger = 0 }: KanbanBoardProps) {
+export function KanbanBoard({
+  fetchFn,
+  filters = {},
+  hiddenStatuses = [],
+  onTaskStatusChange,
+  onTaskClick,
+  refreshTrigger = 0,
+  groupBy,
+  resolveProject,
+  onTaskFieldsChange,
+  onWipOverride,
+}: KanbanBoardProps) {
   const [activeTask, setActiveTask] = useState<KanbanTask | null>(null)
+  const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(new Set())
   const isMobile = useIsMobile()
+  const wip = useWipLimits('task')
+  const { requestDrop } = wip
   const visibleColumns = columns.filter((col) => !hiddenStatuses.includes(col.id))
 
   const sensors = useSensors(
@@ -63,6 +96,45 @@ export function KanbanBoard({ fetchFn, filters = {}, hiddenStatuses = [], onTask
   const columnDataRef = useRef(columnDataMap)
   useEffect(() => { columnDataRef.current = columnDataMap })
 
+  // Live updates: patch, move or drop cards as their tasks change
+  useEntityPatches('task', (record) => applyRecordToColumns(columnDataRef.current, record))
+
+  // Swimlanes partition the loaded cards of every column by the grouped field
+  const lanes: LaneData[] = []
+  if (groupBy) {
+    const byKey = new Map<string, LaneData>()
+    for (const col of visibleColumns) {
+      for (const task of columnDataMap[col.id].items) {
+        const lane = laneOf(task, groupBy, resolveProject)
+        let entry = byKey.get(lane.key)
+        if (!entry) {
+          entry = { lane, cells: { pending: [], in_progress: [], blocked: [], completed: [], failed: [] }, count: 0 }
+          byKey.set(lane.key, entry)
+        }
+        entry.cells[col.id].push(task)
+        entry.count++
+      }
+    }
+    for (const lane of sortLanes(Array.from(byKey.values(), (e) => e.lane), groupBy)) {
+      lanes.push(byKey.get(lane.key)!)
+    }
+  }
+  // Lane counts cover loaded cards only until every column is fully loaded
+  const allLoaded = visibleColumns.every((col) => !columnDataMap[col.id].hasMore)
+  // Lanes for the drag handler, like columnDataRef
+  const lanesRef = useRef(lanes)
+  useEffect(() => { lanesRef.current = lanes })
+  const activeLaneKey = groupBy && activeTask ? laneOf(activeTask, groupBy, resolveProject).key : undefined
+
+  const toggleLane = useCallback((key: string) => {
+    setCollapsedLanes((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }, [])
+
   const handleDragStart = useCallback((event: DragStartEvent) => {
     const task = (event.active.data.current as { task: KanbanTask } | undefined)?.task
     if (task) setActiveTask(task)
@@ -76,37 +148,167 @@ export function KanbanBoard({ fetchFn, filters = {}, hiddenStatuses = [], onTask
       if (!over || !draggedTask) return
 
       const taskId = active.id as string
-      const newStatus = over.id as TaskStatus
+      const { status, laneKey } = parseCellId(over.id as string)
+      const newStatus = status as TaskStatus
       const oldStatus = draggedTask.status
 
-      if (oldStatus === newStatus) return
+      // Dropped into another swimlane: reassign the grouped field
+      const targetLane = groupBy && laneKey !== undefined ? lanesRef.current.find((l) => l.lane.key === laneKey)?.lane : undefined
+      const reassignment =
+        groupBy && targetLane && targetLane.key !== laneOf(draggedTask, groupBy, resolveProject).key
+          ? laneUpdate(groupBy, draggedTask, targetLane)
+          : null
+
+      if (oldStatus === newStatus && !reassignment) return
 
       const cols = columnDataRef.current
 
-      // Optimistic: remove from source, add to destination
-      cols[oldStatus].removeItem(taskId)
-      cols[newStatus].addItem({ ...draggedTask, status: newStatus })
-
-      try {
-        await onTaskStatusChange(taskId, newStatus)
-      } catch (error) {
-        // Rollback: remove from destination, add back to source
-        cols[newStatus].removeItem(taskId)
-        cols[oldStatus].addItem(draggedTask)
-        console.error('Failed to update task status:', error)
+      if (oldStatus !== newStatus) {
+        const title = columns.find((col) => col.id === newStatus)?.title ?? newStatus
+        const decision = await requestDrop(newStatus, title, cols[newStatus].total)
+        if (!decision.allowed) return
+
+        // Optimistic: remove from source, add to destination
+        cols[oldStatus].removeItem(taskId)
+        cols[newStatus].addItem({ ...draggedTask, status: newStatus })
+
+        try {
+          await onTaskStatusChange(taskId, newStatus, draggedTask)
+        } catch (error) {
+          // Rollback: remove from destination, add back to source
+          cols[newStatus].removeItem(taskId)
+          cols[oldStatus].addItem(draggedTask)
+          console.error('Failed to update task status:', error)
+          return
+        }
+        if (decision.justification) onWipOverride?.(taskId, newStatus, decision.justification)
+      }
+
+      if (reassignment && onTaskFieldsChange) {
+        const previous = Object.fromEntries(
+          Object.keys(reassignment.patch).map((key) => [key, draggedTask[key as keyof KanbanTask]]),
+        ) as Partial<KanbanTask>
+        cols[newStatus].updateItem(taskId, reassignment.patch)
+        try {
+          await onTaskFieldsChange(taskId, reassignment.update, laneRevert(reassignment.update, draggedTask))
+        } catch (error) {
+          cols[newStatus].updateItem(taskId, previous)
+          console.error('Failed to move task to swimlane:', error)
+        }
       }
     },
-    [activeTask, onTaskStatusChange],
+    [activeTask, groupBy, resolveProject, onTaskStatusChange, onTaskFieldsChange, onWipOverride, requestDrop],
+  )
+
+  // Swimlane cells only hold part of a column, so over-limit columns are listed here instead
+  const overLimitColumns = groupBy
+    ? visibleColumns.filter((col) => wipState(columnDataMap[col.id].total, wip.limitFor(col.id)) === 'over')
+    : []
+  const toolbar = (
+    <div className="flex items-center justify-end gap-4 mb-2">
+      {overLimitColumns.length > 0 && (
+        <span className="flex items-center gap-1.5 text-xs text-red-300">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          Over WIP limit:{' '}
+          {overLimitColumns.map((col) => `${col.title} (${columnDataMap[col.id].total}/${wip.limitFor(col.id)})`).join(', ')}
+        </span>
+      )}
+      <WipSettingsButton columns={visibleColumns} settings={wip.settings} policies={wip.policies} onSave={wip.saveSettings} />
+    </div>
   )
 
+  // Swimlanes are desktop-only: on mobile columns already scroll horizontally
   if (isMobile) {
     return (
-      <div className="flex gap-3 overflow-x-auto pb-4 -mx-4 px-4 snap-x snap-mandatory">
-        {visibleColumns.map((col) => {
-          const data = columnDataMap[col.id]
-          return (
-            <div key={col.id} className="w-[80vw] shrink-0 snap-start">
+      <>
+        {toolbar}
+        <div className="flex gap-3 overflow-x-auto pb-4 -mx-4 px-4 snap-x snap-mandatory">
+          {visibleColumns.map((col) => {
+            const data = columnDataMap[col.id]
+            return (
+              <div key={col.id} className="w-[80vw] shrink-0 snap-start">
+                <KanbanColumn
+                  id={col.id}
+                  title={col.title}
+                  tasks={data.items}
+                  color={col.color}
+                  total={data.total}
+                  hasMore={data.hasMore}
+                  loadingMore={data.loadingMore}
+                  onLoadMore={data.loadMore}
+                  loading={data.loading}
+                  onTaskClick={onTaskClick}
+                  fullWidth
+                  wipLimit={wip.limitFor(col.id)}
+                />
+              </div>
+            )
+          })}
+        </div>
+      </>
+    )
+  }
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={closestCenter}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+    >
+      {toolbar}
+      {groupBy ? (
+        <div className="space-y-3 pb-4">
+          {lanes.length === 0 && visibleColumns.some((col) => columnDataMap[col.id].loading) && (
+            <div className="h-32 bg-white/[0.03] rounded-lg animate-pulse" />
+          )}
+          {lanes.map(({ lane, cells, count }) => {
+            const collapsed = collapsedLanes.has(lane.key)
+            const dropDisabled = activeLaneKey !== undefined && activeLaneKey !== lane.key && !laneAcceptsDrops(groupBy, lane.key)
+            return (
+              <div key={lane.key} className="rounded-lg border border-border-subtle bg-surface-raised/20">
+                <button
+                  onClick={() => toggleLane(lane.key)}
+                  className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm text-gray-300 hover:bg-white/[0.03] transition-colors"
+                >
+                  {collapsed ? <ChevronRight className="w-4 h-4 text-gray-500" /> : <ChevronDown className="w-4 h-4 text-gray-500" />}
+                  <span className="font-medium truncate">{lane.label}</span>
+                  <span
+                    className="text-xs text-gray-500 bg-surface-raised rounded-full px-2 py-0.5"
+                    title={allLoaded ? undefined : 'Tasks loaded so far — load more to count the rest'}
+                  >
+                    {allLoaded ? count : `${count} loaded`}
+                  </span>
+                </button>
+                {!collapsed && (
+                  <div className="flex gap-4 overflow-x-auto px-3 pb-3">
+                    {visibleColumns.map((col) => (
+                      <KanbanColumn
+                        key={col.id}
+                        id={col.id}
+                        droppableId={cellId(col.id, lane.key)}
+                        dropDisabled={dropDisabled}
+                        title={col.title}
+                        tasks={cells[col.id]}
+                        color={col.color}
+                        onTaskClick={onTaskClick}
+                        dense
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+          <SwimlaneLoadMore columns={visibleColumns.map((col) => columnDataMap[col.id])} />
+        </div>
+      ) : (
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {visibleColumns.map((col) => {
+            const data = columnDataMap[col.id]
+            return (
               <KanbanColumn
+                key={col.id}
                 id={col.id}
                 title={col.title}
                 tasks={data.items}
@@ -117,46 +319,40 @@ export function KanbanBoard({ fetchFn, filters = {}, hiddenStatuses = [], onTask
                 onLoadMore={data.loadMore}
                 loading={data.loading}
                 onTaskClick={onTaskClick}
-                fullWidth
+                wipLimit={wip.limitFor(col.id)}
               />
-            </div>
-          )
-        })}
-      </div>
-    )
-  }
-
-  return (
-    <DndContext
-      sensors={sensors}
-      collisionDetection={closestCenter}
-      onDragStart={handleDragStart}
-      onDragEnd={handleDragEnd}
-    >
-      <div className="flex gap-4 overflow-x-auto pb-4">
-        {visibleColumns.map((col) => {
-          const data = columnDataMap[col.id]
-          return (
-            <KanbanColumn
-              key={col.id}
-              id={col.id}
-              title={col.title}
-              tasks={data.items}
-              color={col.color}
-              total={data.total}
-              hasMore={data.hasMore}
-              loadingMore={data.loadingMore}
-              onLoadMore={data.loadMore}
-              loading={data.loading}
-              onTaskClick={onTaskClick}
-            />
-          )
-        })}
-      </div>
+            )
+          })}
+        </div>
+      )}
 
       <DragOverlay dropAnimation={null}>
         {activeTask ? <KanbanCardOverlay task={activeTask} /> : null}
       </DragOverlay>
+      <WipJustifyDialog {...wip.justifyDialog} />
     </DndContext>
   )
 }
+
+/** Swimlane cells don't scroll on their own — pages of every column load from one footer */
+function SwimlaneLoadMore({ columns }: { columns: ColumnData<KanbanTask>[] }) {
+  const loaded = columns.reduce((sum, col) => sum + col.items.length, 0)
+  const total = columns.reduce((sum, col) => sum + col.total, 0)
+  const loadingMore = columns.some((col) => col.loadingMore)
+  if (loaded >= total) return null
+
+  return (
+    <div className="flex items-center justify-center gap-3 py-2 text-xs text-gray-500">
+      <span>
+        Showing {loaded} of {total} tasks
+      </span>
+      <button
+        onClick={() => columns.filter((col) => col.hasMore).forEach((col) => void col.loadMore())}
+        disabled={loadingMore}
+        className="text-indigo-400 hover:text-indigo-300 disabled:opacity-50 transition-colors"
+      >
+        {loadingMore ? 'Loading…' : 'Load more'}
+      </button>
+    </div>
+  )
+}
@@ -35,13 +35,14 @@ export function KanbanCard({ task, onClick }: KanbanCardProps) {
       style={style}
       {...listeners}
       {...attributes}
+      data-nav-id={task.id}
       onClick={(e) => {
         if (!isDragging && onClick) {
           e.stopPropagation()
           onClick()
         }
       }}
-      className={`rounded-lg border p-3 cursor-grab active:cursor-grabbing transition-all duration-150 select-none ${
+      className={`rounded-lg border p-3 cursor-grab active:cursor-grabbing transition-all duration-150 select-none outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/60 ${
         isDragging
           ? 'opacity-50 rotate-2 shadow-xl border-indigo-500 bg-surface-raised'
           : isBlocked
@@ -1,8 +1,9 @@
 /* eslint-disable react-refresh/only-export-components */
 import { useDroppable } from '@dnd-kit/core'
 import type { TaskStatus } from '@/types'
-import { useInfiniteScroll } from '@/hooks'
+import { useInfiniteScroll, wipState } from '@/hooks'
 import { KanbanCard } from './KanbanCard'
+import { WipCount } from './WipLimits'
 import type { KanbanTask } from './KanbanCard'
 import { Spinner } from '@/components/ui/Spinner'
 
@@ -18,6 +19,14 @@ interface KanbanColumnProps {
   loading?: boolean
   onTaskClick?: (taskId: string) => void
   fullWidth?: boolean
+  /** Droppable id when it differs from the status (swimlane cells) */
+  droppableId?: string
+  /** Refuse drops (e.g. a swimlane the grouped field can't be moved to) */
+  dropDisabled?: boolean
+  /** Short cell without its own scroll area, for swimlanes */
+  dense?: boolean
+  /** WIP limit of the column, compared against `total` */
+  wipLimit?: number
 }
 
 const colorMap: Record<string, { border: string; bg: string; text: string; dropHighlight: string }> = {
@@ -73,8 +82,12 @@ export function KanbanColumn({
   loading = false,
   onTaskClick,
   fullWidth = false,
+  droppableId,
+  dropDisabled = false,
+  dense = false,
+  wipLimit,
 }: KanbanColumnProps) {
-  const { isOver, setNodeRef } = useDroppable({ id })
+  const { isOver, setNodeRef } = useDroppable({ id: droppableId ?? id, disabled: dropDisabled })
   const colors = colorMap[color] || colorMap.gray
 
   const { sentinelRef } = useInfiniteScroll({
@@ -84,21 +97,20 @@ export function KanbanColumn({
   })
 
   const displayCount = total !== undefined ? total : tasks.length
+  const overLimit = wipState(displayCount, wipLimit) === 'over'
 
   return (
     <div className={`flex flex-col flex-1 ${fullWidth ? 'min-w-0' : 'min-w-[200px]'}`}>
       {/* Header */}
       <div className={`flex items-center gap-2 px-3 py-2 rounded-t-lg ${colors.bg} border-l-4 ${colors.border}`}>
         <h3 className={`text-sm font-semibold ${colors.text}`}>{title}</h3>
-        <span className="text-xs text-gray-500 bg-surface-raised rounded-full px-2 py-0.5">
-          {displayCount}
-        </span>
+        <WipCount count={displayCount} limit={wipLimit} />
       </div>
 
       {/* Drop zone */}
       <div
         ref={setNodeRef}
-        className={`flex-1 p-2 space-y-2 rounded-b-lg border border-t-0 border-border-subtle min-h-[200px] ${fullWidth ? 'max-h-[calc(100dvh-200px)]' : 'max-h-[calc(100vh-280px)]'} overflow-y-auto transition-colors duration-150 ${
+        className={`flex-1 p-2 space-y-2 rounded-b-lg border border-t-0 ${overLimit ? 'border-red-500/50' : 'border-border-subtle'} ${dense ? 'min-h-[80px]' : `min-h-[200px] ${fullWidth ? 'max-h-[calc(100dvh-200px)]' : 'max-h-[calc(100vh-280px)]'} overflow-y-auto`} transition-colors duration-150 ${
           isOver ? colors.dropHighlight : 'bg-surface-raised/30'
         }`}
       >
@@ -1,8 +1,9 @@
 import { useEffect, useState } from 'react'
-import type { KanbanFilters } from '@/hooks/useKanbanFilters'
+import type { KanbanFilters, KanbanGroupBy } from '@/hooks/useKanbanFilters'
 import type { Plan, Project } from '@/types'
 import { plansApi, projectsApi } from '@/services'
 import { Select, Button } from '@/components/ui'
+import { groupByOptions } from './swimlanes'
 
 interface KanbanFilterBarProps {
   filters: KanbanFilters
@@ -123,6 +124,14 @@ export function KanbanFilterBar({
       {/* Spacer */}
       <div className="hidden sm:block flex-1" />
 
+      {/* Swimlane grouping */}
+      <Select
+        options={groupByOptions}
+        value={filters.group_by || ''}
+        onChange={(value) => onFilterChange('group_by', (value || undefined) as KanbanGroupBy | undefined)}
+        className="w-full sm:w-40"
+      />
+
       {/* Active filter count + clear */}
       {activeFilterCount > 0 && (
         <div className="flex items-center gap-2">
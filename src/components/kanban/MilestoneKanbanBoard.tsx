@@ -12,9 +12,10 @@ import {
 import { useDroppable } from '@dnd-kit/core'
 import type { DragStartEvent, DragEndEvent } from '@dnd-kit/core'
 import type { MilestoneStatus } from '@/types'
-import { useIsMobile } from '@/hooks'
+import { useIsMobile, useWipLimits, wipState } from '@/hooks'
 import { MilestoneKanbanCard, MilestoneKanbanCardOverlay } from './MilestoneKanbanCard'
 import type { MilestoneWithProgress } from './MilestoneKanbanCard'
+import { WipCount, WipSettingsButton } from './WipLimits'
 
 interface MilestoneKanbanBoardProps {
   milestones: MilestoneWithProgress[]
@@ -64,9 +65,16 @@ const colorMap: Record<string, { border: string; bg: string; text: string; dropH
   },
 }
 
-export function MilestoneKanbanBoard({ milestones, onMilestoneStatusChange, onMilestoneClick, loading }: MilestoneKanbanBoardProps) {
+export function MilestoneKanbanBoard({
+  milestones,
+  onMilestoneStatusChange,
+  onMilestoneClick,
+  loading,
+}: MilestoneKanbanBoardProps) {
   const [activeMilestone, setActiveMilestone] = useState<MilestoneWithProgress | null>(null)
   const isMobile = useIsMobile()
+  const wip = useWipLimits('milestone')
+  const { requestDrop } = wip
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
     useSensor(TouchSensor, { activationConstraint: { delay: 200, tolerance: 5 } }),
@@ -109,13 +117,17 @@ export function MilestoneKanbanBoard({ milestones, onMilestoneStatusChange, onMi
       const currentStatus = (milestone.status?.toLowerCase() || 'open') as MilestoneStatus
       if (currentStatus === newStatus) return
 
+      const title = columns.find((col) => col.id === newStatus)?.title ?? newStatus
+      const decision = await requestDrop(newStatus, title, milestonesByStatus[newStatus].length)
+      if (!decision.allowed) return
+
       try {
         await onMilestoneStatusChange(milestoneId, newStatus)
       } catch (error) {
         console.error('Failed to update milestone status:', error)
       }
     },
-    [milestones, onMilestoneStatusChange],
+    [milestones, milestonesByStatus, onMilestoneStatusChange, requestDrop],
   )
 
   if (loading) {
@@ -131,22 +143,32 @@ export function MilestoneKanbanBoard({ milestones, onMilestoneStatusChange, onMi
     )
   }
 
+  const toolbar = (
+    <div className="flex justify-end mb-2">
+      <WipSettingsButton columns={columns} settings={wip.settings} policies={wip.policies} onSave={wip.saveSettings} />
+    </div>
+  )
+
   if (isMobile) {
     return (
-      <div className="flex gap-3 overflow-x-auto pb-4 -mx-4 px-4 snap-x snap-mandatory">
-        {columns.map((col) => (
-          <div key={col.id} className="w-[80vw] shrink-0 snap-start">
-            <MilestoneKanbanColumn
-              id={col.id}
-              title={col.title}
-              milestones={milestonesByStatus[col.id]}
-              color={col.color}
-              onMilestoneClick={onMilestoneClick}
-              fullWidth
-            />
-          </div>
-        ))}
-      </div>
+      <>
+        {toolbar}
+        <div className="flex gap-3 overflow-x-auto pb-4 -mx-4 px-4 snap-x snap-mandatory">
+          {columns.map((col) => (
+            <div key={col.id} className="w-[80vw] shrink-0 snap-start">
+              <MilestoneKanbanColumn
+                id={col.id}
+                title={col.title}
+                milestones={milestonesByStatus[col.id]}
+                color={col.color}
+                onMilestoneClick={onMilestoneClick}
+                fullWidth
+                wipLimit={wip.limitFor(col.id)}
+              />
+            </div>
+          ))}
+        </div>
+      </>
     )
   }
 
@@ -157,6 +179,7 @@ export function MilestoneKanbanBoard({ milestones, onMilestoneStatusChange, onMi
       onDragStart={handleDragStart}
       onDragEnd={handleDragEnd}
     >
+      {toolbar}
       <div className="flex gap-4 overflow-x-auto pb-4">
         {columns.map((col) => (
           <MilestoneKanbanColumn
@@ -166,6 +189,7 @@ export function MilestoneKanbanBoard({ milestones, onMilestoneStatusChange, onMi
             milestones={milestonesByStatus[col.id]}
             color={col.color}
             onMilestoneClick={onMilestoneClick}
+            wipLimit={wip.limitFor(col.id)}
           />
         ))}
       </div>
@@ -184,6 +208,7 @@ function MilestoneKanbanColumn({
   color,
   onMilestoneClick,
   fullWidth = false,
+  wipLimit,
 }: {
   id: MilestoneStatus
   title: string
@@ -191,22 +216,22 @@ function MilestoneKanbanColumn({
   color: string
   onMilestoneClick?: (milestoneId: string) => void
   fullWidth?: boolean
+  wipLimit?: number
 }) {
   const { isOver, setNodeRef } = useDroppable({ id })
   const colors = colorMap[color] || colorMap.blue
+  const overLimit = wipState(milestones.length, wipLimit) === 'over'
 
   return (
     <div className={`flex flex-col flex-1 ${fullWidth ? 'min-w-0' : 'min-w-[200px]'}`}>
       <div className={`flex items-center gap-2 px-3 py-2 rounded-t-lg ${colors.bg} border-l-4 ${colors.border}`}>
         <h3 className={`text-sm font-semibold ${colors.text}`}>{title}</h3>
-        <span className="text-xs text-gray-500 bg-surface-raised rounded-full px-2 py-0.5">
-          {milestones.length}
-        </span>
+        <WipCount count={milestones.length} limit={wipLimit} />
       </div>
 
       <div
         ref={setNodeRef}
-        className={`flex-1 p-2 space-y-2 rounded-b-lg border border-t-0 border-border-subtle min-h-[200px] ${fullWidth ? 'max-h-[calc(100dvh-200px)]' : 'max-h-[calc(100vh-280px)]'} overflow-y-auto transition-colors duration-150 ${
+        className={`flex-1 p-2 space-y-2 rounded-b-lg border border-t-0 ${overLimit ? 'border-red-500/50' : 'border-border-subtle'} min-h-[200px] ${fullWidth ? 'max-h-[calc(100dvh-200px)]' : 'max-h-[calc(100vh-280px)]'} overflow-y-auto transition-colors duration-150 ${
           isOver ? colors.dropHighlight : 'bg-surface-raised/30'
         }`}
       >
@@ -12,17 +12,19 @@ import {
 } from '@dnd-kit/core'
 import type { DragStartEvent, DragEndEvent } from '@dnd-kit/core'
 import type { Plan, PlanStatus, PaginatedResponse } from '@/types'
-import { useKanbanColumnData, useInfiniteScroll, useIsMobile } from '@/hooks'
+import { useKanbanColumnData, useInfiniteScroll, useIsMobile, useEntityPatches, applyRecordToColumns, useWipLimits, wipState } from '@/hooks'
 import type { ColumnData } from '@/hooks'
 import { kanbanColorMap } from './KanbanColumn'
 import { PlanKanbanCard, PlanKanbanCardOverlay } from './PlanKanbanCard'
+import { WipCount, WipSettingsButton } from './WipLimits'
 import { Spinner } from '@/components/ui/Spinner'
 
 interface PlanKanbanBoardProps {
-  fetchFn: (params: Record<string, unknown>) => Promise<PaginatedResponse<Plan>>
+  fetchFn: (params: Record<string, unknown>, signal: AbortSignal) => Promise<PaginatedResponse<Plan>>
   filters?: Record<string, unknown>
   hiddenStatuses?: PlanStatus[]
-  onPlanStatusChange: (planId: string, newStatus: PlanStatus) => Promise<void>
+  /** Persist a status drop; `previous` is the plan as it was before the drop */
+  onPlanStatusChange: (planId: string, newStatus: PlanStatus, previous: Plan) => Promise<void>
   onPlanClick?: (planId: string) => void
   refreshTrigger?: number
 }
@@ -35,9 +37,18 @@ const columns: { id: PlanStatus; title: string; color: string }[] = [
   { id: 'cancelled', title: 'Cancelled', color: 'red' },
 ]
 
-export function PlanKanbanBoard({ fetchFn, filters = {}, hiddenStatuses = [], onPlanStatusChange, onPlanClick, refreshTrigger = 0 }: PlanKanbanBoardProps) {
+export function PlanKanbanBoard({
+  fetchFn,
+  filters = {},
+  hiddenStatuses = [],
+  onPlanStatusChange,
+  onPlanClick,
+  refreshTrigger = 0,
+}: PlanKanbanBoardProps) {
   const [activePlan, setActivePlan] = useState<Plan | null>(null)
   const isMobile = useIsMobile()
+  const wip = useWipLimits('plan')
+  const { requestDrop } = wip
   const visibleColumns = useMemo(() => columns.filter((col) => !hiddenStatuses.includes(col.id)), [hiddenStatuses])
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
@@ -62,6 +73,9 @@ export function PlanKanbanBoard({ fetchFn, filters = {}, hiddenStatuses = [], on
   const columnDataRef = useRef(columnDataMap)
   useEffect(() => { columnDataRef.current = columnDataMap })
 
+  // Live updates: patch, move or drop cards as their plans change
+  useEntityPatches('plan', (record) => applyRecordToColumns(columnDataRef.current, record))
+
   const handleDragStart = useCallback((event: DragStartEvent) => {
     const plan = (event.active.data.current as { plan: Plan } | undefined)?.plan
     if (plan) setActivePlan(plan)
@@ -81,13 +95,16 @@ export function PlanKanbanBoard({ fetchFn, filters = {}, hiddenStatuses = [], on
       if (oldStatus === newStatus) return
 
       const cols = columnDataRef.current
+      const title = columns.find((col) => col.id === newStatus)?.title ?? newStatus
+      const decision = await requestDrop(newStatus, title, cols[newStatus].total)
+      if (!decision.allowed) return
 
       // Optimistic update
       cols[oldStatus].removeItem(planId)
       cols[newStatus].addItem({ ...draggedPlan, status: newStatus })
 
       try {
-        await onPlanStatusChange(planId, newStatus)
+        await onPlanStatusChange(planId, newStatus, draggedPlan)
       } catch (error) {
         // Rollback
         cols[newStatus].removeItem(planId)
@@ -95,33 +112,43 @@ export function PlanKanbanBoard({ fetchFn, filters = {}, hiddenStatuses = [], on
         console.error('Failed to update plan status:', error)
       }
     },
-    [activePlan, onPlanStatusChange],
+    [activePlan, onPlanStatusChange, requestDrop],
+  )
+
+  const toolbar = (
+    <div className="flex justify-end mb-2">
+      <WipSettingsButton columns={visibleColumns} settings={wip.settings} policies={wip.policies} onSave={wip.saveSettings} />
+    </div>
   )
 
   if (isMobile) {
     return (
-      <div className="flex gap-3 overflow-x-auto pb-4 -mx-4 px-4 snap-x snap-mandatory">
-        {visibleColumns.map((col) => {
-          const data = columnDataMap[col.id]
-          return (
-            <div key={col.id} className="w-[80vw] shrink-0 snap-start">
-              <PlanKanbanColumn
-                id={col.id}
-                title={col.title}
-                plans={data.items}
-                color={col.color}
-                total={data.total}
-                hasMore={data.hasMore}
-                loadingMore={data.loadingMore}
-                onLoadMore={data.loadMore}
-                loading={data.loading}
-                onPlanClick={onPlanClick}
-                fullWidth
-              />
-            </div>
-          )
-        })}
-      </div>
+      <>
+        {toolbar}
+        <div className="flex gap-3 overflow-x-auto pb-4 -mx-4 px-4 snap-x snap-mandatory">
+          {visibleColumns.map((col) => {
+            const data = columnDataMap[col.id]
+            return (
+              <div key={col.id} className="w-[80vw] shrink-0 snap-start">
+                <PlanKanbanColumn
+                  id={col.id}
+                  title={col.title}
+                  plans={data.items}
+                  color={col.color}
+                  total={data.total}
+                  hasMore={data.hasMore}
+                  loadingMore={data.loadingMore}
+                  onLoadMore={data.loadMore}
+                  loading={data.loading}
+                  onPlanClick={onPlanClick}
+                  fullWidth
+                  wipLimit={wip.limitFor(col.id)}
+                />
+              </div>
+            )
+          })}
+        </div>
+      </>
     )
   }
 
@@ -132,6 +159,7 @@ export function PlanKanbanBoard({ fetchFn, filters = {}, hiddenStatuses = [], on
       onDragStart={handleDragStart}
       onDragEnd={handleDragEnd}
     >
+      {toolbar}
       <div className="flex gap-4 overflow-x-auto pb-4">
         {visibleColumns.map((col) => {
           const data = columnDataMap[col.id]
@@ -148,6 +176,7 @@ export function PlanKanbanBoard({ fetchFn, filters = {}, hiddenStatuses = [], on
               onLoadMore={data.loadMore}
               loading={data.loading}
               onPlanClick={onPlanClick}
+              wipLimit={wip.limitFor(col.id)}
             />
           )
         })}
@@ -172,6 +201,7 @@ function PlanKanbanColumn({
   loading = false,
   onPlanClick,
   fullWidth = false,
+  wipLimit,
 }: {
   id: PlanStatus
   title: string
@@ -184,6 +214,7 @@ function PlanKanbanColumn({
   loading?: boolean
   onPlanClick?: (planId: string) => void
   fullWidth?: boolean
+  wipLimit?: number
 }) {
   const { isOver, setNodeRef } = useDroppable({ id })
   const colors = kanbanColorMap[color] || kanbanColorMap.gray
@@ -195,19 +226,18 @@ function PlanKanbanColumn({
   })
 
   const displayCount = total !== undefined ? total : plans.length
+  const overLimit = wipState(displayCount, wipLimit) === 'over'
 
   return (
     <div className={`flex flex-col flex-1 ${fullWidth ? 'min-w-0' : 'min-w-[200px]'}`}>
       <div className={`flex items-center gap-2 px-3 py-2 rounded-t-lg ${colors.bg} border-l-4 ${colors.border}`}>
         <h3 className={`text-sm font-semibold ${colors.text}`}>{title}</h3>
-        <span className="text-xs text-gray-500 bg-surface-raised rounded-full px-2 py-0.5">
-          {displayCount}
-        </span>
+        <WipCount count={displayCount} limit={wipLimit} />
       </div>
 
       <div
         ref={setNodeRef}
-        className={`flex-1 p-2 space-y-2 rounded-b-lg border border-t-0 border-border-subtle min-h-[200px] ${fullWidth ? 'max-h-[calc(100dvh-200px)]' : 'max-h-[calc(100vh-280px)]'} overflow-y-auto transition-colors duration-150 ${
+        className={`flex-1 p-2 space-y-2 rounded-b-lg border border-t-0 ${overLimit ? 'border-red-500/50' : 'border-border-subtle'} min-h-[200px] ${fullWidth ? 'max-h-[calc(100dvh-200px)]' : 'max-h-[calc(100vh-280px)]'} overflow-y-auto transition-colors duration-150 ${
           isOver ? colors.dropHighlight : 'bg-surface-raised/30'
         }`}
       >
@@ -27,13 +27,14 @@ export function PlanKanbanCard({ plan, onClick }: PlanKanbanCardProps) {
       style={style}
       {...listeners}
       {...attributes}
+      data-nav-id={plan.id}
       onClick={(e) => {
         if (!isDragging && onClick) {
           e.stopPropagation()
           onClick()
         }
       }}
-      className={`rounded-lg border p-3 cursor-grab active:cursor-grabbing transition-all duration-150 select-none ${
+      className={`rounded-lg border p-3 cursor-grab active:cursor-grabbing transition-all duration-150 select-none outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/60 ${
         isDragging
           ? 'opacity-50 rotate-2 shadow-xl border-indigo-500 bg-surface-raised'
           : 'border-border-subtle bg-surface-raised hover:border-indigo-500 hover:shadow-lg'
@@ -0,0 +1,165 @@
+import { useState } from 'react'
+import { Gauge } from 'lucide-react'
+import { FormDialog, Input, Select, Textarea } from '@/components/ui'
+import { useToast, wipState } from '@/hooks'
+import type { WipJustifyDialogState } from '@/hooks'
+import type { BoardWipSettings, WipPolicy } from '@/types'
+
+const policyOptions: { value: WipPolicy; label: string }[] = [
+  { value: 'warn', label: 'Warn only' },
+  { value: 'block', label: 'Refuse drops over the limit' },
+  { value: 'justify', label: 'Ask for a justification' },
+]
+
+/** Column count pill: `count / limit`, amber at the limit, red over it */
+export function WipCount({ count, limit }: { count: number; limit?: number }) {
+  const state = wipState(count, limit)
+  const className =
+    state === 'over'
+      ? 'text-red-300 bg-red-500/20'
+      : state === 'full'
+        ? 'text-amber-300 bg-amber-500/15'
+        : 'text-gray-500 bg-surface-raised'
+
+  return (
+    <span
+      className={`text-xs rounded-full px-2 py-0.5 ${className}`}
+      title={state === 'over' ? `Over the WIP limit of ${limit}` : state === 'full' ? 'At the WIP limit' : undefined}
+    >
+      {count}
+      {limit !== undefined && ` / ${limit}`}
+    </span>
+  )
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+interface WipSettingsButtonProps {
+  columns: { id: string; title: string }[]
+  settings: BoardWipSettings
+  /** Policies the board supports */
+  policies: WipPolicy[]
+  onSave: (settings: BoardWipSettings) => Promise<void>
+}
+
+/** Toolbar button opening the WIP limits dialog of a board */
+export function WipSettingsButton({ columns, settings, policies, onSave }: WipSettingsButtonProps) {
+  const [draft, setDraft] = useState<{ limits: Record<string, string>; policy: WipPolicy } | null>(null)
+  const [saving, setSaving] = useState(false)
+  const toast = useToast()
+  const configured = Object.keys(settings.limits).length
+
+  const openDialog = () =>
+    setDraft({
+      limits: Object.fromEntries(columns.map((col) => [col.id, settings.limits[col.id]?.toString() ?? ''])),
+      policy: settings.policy,
+    })
+
+  const handleSave = async () => {
+    if (!draft) return
+    setSaving(true)
+    try {
+      await onSave({
+        limits: Object.fromEntries(Object.entries(draft.limits).map(([status, value]) => [status, Number(value) || 0])),
+        policy: draft.policy,
+      })
+      setDraft(null)
+    } catch {
+      toast.error('Failed to save WIP limits')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <button
+        onClick={openDialog}
+        className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-300 transition-colors"
+      >
+        <Gauge className="w-3.5 h-3.5" />
+        {configured > 0 ? `WIP limits (${configured})` : 'WIP limits'}
+      </button>
+
+      <FormDialog open={draft !== null} onClose={() => setDraft(null)} onSubmit={handleSave} title="WIP limits" submitLabel="Save" loading={saving} size="sm">
+        {draft && (
+          <>
+            <p className="text-sm text-gray-400">Leave a column empty for no limit. Limits apply to everyone in this workspace.</p>
+            <div className="grid grid-cols-2 gap-3">
+              {columns.map((col) => (
+                <Input
+                  key={col.id}
+                  label={col.title}
+                  type="number"
+                  min={0}
+                  placeholder="No limit"
+                  value={draft.limits[col.id]}
+                  onChange={(e) => setDraft({ ...draft, limits: { ...draft.limits, [col.id]: e.target.value } })}
+                />
+              ))}
+            </div>
+            <Select
+              label="When a column is full"
+              options={policyOptions.filter((option) => policies.includes(option.value))}
+              value={draft.policy}
+              onChange={(policy) => setDraft({ ...draft, policy: policy as WipPolicy })}
+            />
+          </>
+        )}
+      </FormDialog>
+    </>
+  )
+}
+
+// ============================================================================
+// JUSTIFICATION
+// ============================================================================
+
+/** Asks why a card should go into a full column (`justify` policy) */
+export function WipJustifyDialog({ open, columnTitle, limit, onConfirm, onCancel }: WipJustifyDialogState) {
+  const [justification, setJustification] = useState('')
+  const [error, setError] = useState<string>()
+
+  const close = () => {
+    setJustification('')
+    setError(undefined)
+  }
+
+  const handleSubmit = () => {
+    const reason = justification.trim()
+    if (!reason) {
+      setError('A justification is required to exceed the limit')
+      return
+    }
+    close()
+    onConfirm(reason)
+  }
+
+  return (
+    <FormDialog
+      open={open}
+      onClose={() => {
+        close()
+        onCancel()
+      }}
+      onSubmit={handleSubmit}
+      title={`${columnTitle} is at its WIP limit`}
+      submitLabel="Move anyway"
+      size="sm"
+    >
+      <p className="text-sm text-gray-400">
+        This column already holds {limit} or more cards. Explain why this one should go in anyway.
+      </p>
+      <Textarea
+        label="Justification"
+        value={justification}
+        onChange={(e) => setJustification(e.target.value)}
+        error={error}
+        rows={3}
+        autoFocus
+      />
+    </FormDialog>
+  )
+}
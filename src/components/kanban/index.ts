@@ -3,6 +3,7 @@ export { KanbanColumn } from './KanbanColumn'
 export { KanbanCard, KanbanCardOverlay } from './KanbanCard'
 export type { KanbanTask } from './KanbanCard'
 export { KanbanFilterBar } from './KanbanFilterBar'
+export type { ProjectResolver, Swimlane } from './swimlanes'
 export { PlanKanbanFilterBar } from './PlanKanbanFilterBar'
 export type { PlanKanbanFilters } from './PlanKanbanFilterBar'
 export { PlanKanbanBoard } from './PlanKanbanBoard'
@@ -10,3 +11,4 @@ export { PlanKanbanCard, PlanKanbanCardOverlay } from './PlanKanbanCard'
 export { MilestoneKanbanBoard } from './MilestoneKanbanBoard'
 export { MilestoneKanbanCard, MilestoneKanbanCardOverlay } from './MilestoneKanbanCard'
 export type { MilestoneWithProgress } from './MilestoneKanbanCard'
+export { WipCount, WipSettingsButton, WipJustifyDialog } from './WipLimits'
@@ -0,0 +1,128 @@
+import type { KanbanGroupBy } from '@/hooks'
+import type { UpdateTaskRequest } from '@/types'
+import type { KanbanTask } from './KanbanCard'
+
+export interface Swimlane {
+  key: string
+  label: string
+}
+
+/** Resolves a task's project (through its plan) for project swimlanes */
+export type ProjectResolver = (task: KanbanTask) => Swimlane | undefined
+
+/** Lane for tasks without a value for the grouped field */
+export const NO_VALUE_LANE = '__none__'
+
+const NO_VALUE_LABELS: Record<KanbanGroupBy, string> = {
+  plan: 'No plan',
+  assignee: 'Unassigned',
+  project: 'No project',
+  tag: 'Untagged',
+  priority: 'No priority',
+}
+
+const PRIORITY_BANDS: { key: string; label: string; min: number; value: number }[] = [
+  { key: 'high', label: 'High (8+)', min: 8, value: 8 },
+  { key: 'medium', label: 'Medium (4–7)', min: 4, value: 5 },
+  { key: 'low', label: 'Low (1–3)', min: -Infinity, value: 2 },
+]
+
+export const groupByOptions: { value: KanbanGroupBy | ''; label: string }[] = [
+  { value: '', label: 'No swimlanes' },
+  { value: 'plan', label: 'By plan' },
+  { value: 'assignee', label: 'By assignee' },
+  { value: 'project', label: 'By project' },
+  { value: 'tag', label: 'By first tag' },
+  { value: 'priority', label: 'By priority' },
+]
+
+/** The lane a task belongs to for the given grouping */
+export function laneOf(task: KanbanTask, groupBy: KanbanGroupBy, resolveProject?: ProjectResolver): Swimlane {
+  const none = { key: NO_VALUE_LANE, label: NO_VALUE_LABELS[groupBy] }
+  switch (groupBy) {
+    case 'plan':
+      return task.plan_id ? { key: task.plan_id, label: task.plan_title || task.plan_id.slice(0, 8) } : none
+    case 'assignee':
+      return task.assigned_to ? { key: task.assigned_to, label: task.assigned_to } : none
+    case 'project':
+      return resolveProject?.(task) ?? none
+    case 'tag': {
+      const tag = task.tags?.[0]
+      return tag ? { key: tag, label: `#${tag}` } : none
+    }
+    case 'priority': {
+      if (task.priority === undefined || task.priority === null) return none
+      const band = PRIORITY_BANDS.find((b) => task.priority! >= b.min)!
+      return { key: band.key, label: band.label }
+    }
+  }
+}
+
+/**
+ * Sort lanes for display: priority bands high → low, everything else by
+ * label; the "no value" lane always goes last.
+ */
+export function sortLanes(lanes: Swimlane[], groupBy: KanbanGroupBy): Swimlane[] {
+  const rank = (lane: Swimlane) =>
+    lane.key === NO_VALUE_LANE ? Infinity : groupBy === 'priority' ? PRIORITY_BANDS.findIndex((b) => b.key === lane.key) : 0
+  return [...lanes].sort((a, b) => rank(a) - rank(b) || a.label.localeCompare(b.label))
+}
+
+/**
+ * The update that moves a task into another lane, or null when the grouped
+ * field can't be reassigned that way: a task's project follows its plan, and
+ * a plan, tag or priority can't be cleared by dropping into the "no value" lane.
+ */
+export function laneUpdate(
+  groupBy: KanbanGroupBy,
+  task: KanbanTask,
+  lane: Swimlane,
+): { update: UpdateTaskRequest; patch: Partial<KanbanTask> } | null {
+  const none = lane.key === NO_VALUE_LANE
+  switch (groupBy) {
+    case 'plan':
+      if (none) return null
+      return { update: { plan_id: lane.key }, patch: { plan_id: lane.key, plan_title: lane.label } }
+    case 'assignee': {
+      const assigned_to = none ? '' : lane.key
+      return { update: { assigned_to }, patch: { assigned_to: assigned_to || undefined } }
+    }
+    case 'tag': {
+      // Untagging would mean dropping every tag — not something a drag should do
+      if (none) return null
+      const tags = [lane.key, ...(task.tags || []).slice(1).filter((t) => t !== lane.key)]
+      return { update: { tags }, patch: { tags } }
+    }
+    case 'priority': {
+      const band = PRIORITY_BANDS.find((b) => b.key === lane.key)
+      if (!band) return null
+      return { update: { priority: band.value }, patch: { priority: band.value } }
+    }
+    case 'project':
+      return null
+  }
+}
+
+/** Update restoring the fields a `laneUpdate` changes to the task's current values */
+export function laneRevert(update: UpdateTaskRequest, task: KanbanTask): UpdateTaskRequest {
+  const revert: UpdateTaskRequest = {}
+  if (update.plan_id !== undefined) revert.plan_id = task.plan_id
+  if (update.assigned_to !== undefined) revert.assigned_to = task.assigned_to || ''
+  if (update.tags !== undefined) revert.tags = task.tags || []
+  if (update.priority !== undefined) revert.priority = task.priority
+  return revert
+}
+
+/** Whether cards from other lanes can be dropped into this lane (mirrors `laneUpdate`) */
+export function laneAcceptsDrops(groupBy: KanbanGroupBy, laneKey: string): boolean {
+  if (groupBy === 'project') return false
+  return laneKey !== NO_VALUE_LANE || groupBy === 'assignee'
+}
+
+/** Droppable id of a (status, lane) cell */
+export const cellId = (status: string, laneKey: string) => `${status}|${laneKey}`
+
+export function parseCellId(id: string): { status: string; laneKey?: string } {
+  const index = id.indexOf('|')
+  return index === -1 ? { status: id } : { status: id.slice(0, index), laneKey: id.slice(index + 1) }
+}
@@ -5,9 +5,13 @@ interface BulkActionBarProps {
   onDelete: () => void
   onClear: () => void
   deleting?: boolean
+  /** Open the bulk edit dialog (status, priority, tags…) */
+  onEdit?: () => void
+  /** A bulk edit is running */
+  editing?: boolean
 }
 
-export function BulkActionBar({ count, onDelete, onClear, deleting }: BulkActionBarProps) {
+export function BulkActionBar({ count, onDelete, onClear, deleting, onEdit, editing }: BulkActionBarProps) {
   if (count === 0) return null
 
   return (
@@ -21,11 +25,16 @@ export function BulkActionBar({ count, onDelete, onClear, deleting }: BulkAction
       >
         Deselect
       </button>
+      {onEdit && (
+        <Button size="sm" variant="secondary" onClick={onEdit} disabled={editing || deleting}>
+          {editing ? 'Editing...' : 'Edit'}
+        </Button>
+      )}
       <Button
         size="sm"
         variant="danger"
         onClick={onDelete}
-        disabled={deleting}
+        disabled={deleting || editing}
       >
         {deleting ? 'Deleting...' : 'Delete'}
       </Button>
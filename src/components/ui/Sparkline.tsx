@@ -18,6 +18,10 @@ interface SparklineProps {
   fillOpacity?: number
   /** Animation duration in ms (0 to disable) */
   animationDuration?: number
+  /** Fixed lower bound of the y-axis (defaults to the data minimum) */
+  min?: number
+  /** Fixed upper bound of the y-axis (defaults to the data maximum) */
+  max?: number
   /** Additional CSS class */
   className?: string
 }
@@ -40,6 +44,8 @@ export function Sparkline({
   fill = false,
   fillOpacity = 0.15,
   animationDuration = 1000,
+  min,
+  max,
   className = '',
 }: SparklineProps) {
   const polylineRef = useRef<SVGPolylineElement>(null)
@@ -48,7 +54,7 @@ export function Sparkline({
 
   // Normalize data to SVG coordinates
   const padding = strokeWidth
-  const points = normalizePoints(data, width, height, padding)
+  const points = normalizePoints(data, width, height, padding, min, max)
   const pointsStr = points.map((p) => `${p[0]},${p[1]}`).join(' ')
 
   // Area fill path (line + close to bottom-right → bottom-left)
@@ -122,9 +128,11 @@ function normalizePoints(
   width: number,
   height: number,
   padding: number,
+  fixedMin?: number,
+  fixedMax?: number,
 ): [number, number][] {
-  const min = Math.min(...data)
-  const max = Math.max(...data)
+  const min = fixedMin ?? Math.min(...data)
+  const max = fixedMax ?? Math.max(...data)
   const range = max - min || 1
 
   const usableW = width - padding * 2
@@ -1,42 +1,43 @@
-import { List, Columns3 } from 'lucide-react'
+import { List, Columns3, ChartGantt } from 'lucide-react'
+import type { LucideIcon } from 'lucide-react'
+import type { ViewMode } from '@/hooks/useViewMode'
 
 interface ViewToggleProps {
-  value: 'list' | 'kanban'
-  onChange: (view: 'list' | 'kanban') => void
+  value: ViewMode
+  onChange: (view: ViewMode) => void
+  /** Modes to offer, in order (defaults to list and board) */
+  modes?: ViewMode[]
   className?: string
 }
 
-export function ViewToggle({ value, onChange, className = '' }: ViewToggleProps) {
+const modeConfig: Record<ViewMode, { label: string; icon: LucideIcon }> = {
+  list: { label: 'List', icon: List },
+  kanban: { label: 'Board', icon: Columns3 },
+  timeline: { label: 'Timeline', icon: ChartGantt },
+}
+
+export function ViewToggle({ value, onChange, modes = ['list', 'kanban'], className = '' }: ViewToggleProps) {
   return (
     <div className={`inline-flex rounded-lg bg-surface-raised p-0.5 ${className}`} role="group">
-      <button
-        type="button"
-        onClick={() => onChange('list')}
-        aria-pressed={value === 'list'}
-        className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
-          value === 'list'
-            ? 'bg-indigo-600 text-white shadow-sm'
-            : 'text-gray-400 hover:text-gray-200'
-        }`}
-      >
-        {/* List icon */}
-        <List className="w-4 h-4" />
-        List
-      </button>
-      <button
-        type="button"
-        onClick={() => onChange('kanban')}
-        aria-pressed={value === 'kanban'}
-        className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
-          value === 'kanban'
-            ? 'bg-indigo-600 text-white shadow-sm'
-            : 'text-gray-400 hover:text-gray-200'
-        }`}
-      >
-        {/* Kanban/columns icon */}
-        <Columns3 className="w-4 h-4" />
-        Board
-      </button>
+      {modes.map((mode) => {
+        const { label, icon: Icon } = modeConfig[mode]
+        return (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => onChange(mode)}
+            aria-pressed={value === mode}
+            className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+              value === mode
+                ? 'bg-indigo-600 text-white shadow-sm'
+                : 'text-gray-400 hover:text-gray-200'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        )
+      })}
     </div>
   )
 }
@@ -1,6 +1,6 @@
 export { usePagination } from './usePagination'
-export { useKanbanFilters } from './useKanbanFilters'
-export type { KanbanFilters, UseKanbanFiltersReturn } from './useKanbanFilters'
+export { useKanbanFilters, kanbanFiltersToParams } from './useKanbanFilters'
+export type { KanbanFilters, KanbanGroupBy, UseKanbanFiltersReturn } from './useKanbanFilters'
 export { useViewMode } from './useViewMode'
 export { useConfirmDialog } from './useConfirmDialog'
 export { useFormDialog } from './useFormDialog'
@@ -8,9 +8,11 @@ export { useLinkDialog } from './useLinkDialog'
 export type { LinkOption } from './useLinkDialog'
 export { useInfiniteScroll } from './useInfiniteScroll'
 export { useInfiniteList } from './useInfiniteList'
-export { useKanbanColumnData } from './useKanbanColumnData'
+export { useKanbanColumnData, applyRecordToColumns } from './useKanbanColumnData'
+export { useLatestSignal } from './useLatestSignal'
 export type { ColumnData } from './useKanbanColumnData'
 export { useToast } from './useToast'
+export type { ToastOptions } from './useToast'
 export { useSectionObserver } from './useSectionObserver'
 export { useMediaQuery, useIsMobile, useIsTablet } from './useMediaQuery'
 export { useMultiSelect } from './useMultiSelect'
@@ -18,6 +20,10 @@ export { useChat } from './useChat'
 export type { SendMessageOptions } from './useChat'
 export { useEventBus } from './useEventBus'
 export { useCrudEventRefresh } from './useCrudEventRefresh'
+export { useOfflineSync } from './useOfflineSync'
+export { useUndoHistory } from './useUndoHistory'
+export { useNotifications } from './useNotifications'
+export { useEntityPatches, patchEntity, patchEntityList } from './useEntityPatches'
 export { useUpdateCheck } from './useUpdateCheck'
 export type { UpdateCheckResult } from './useUpdateCheck'
 export { useTrayNavigation } from './useTrayNavigation'
@@ -28,3 +34,13 @@ export type { WelcomeData } from './useWelcomeData'
 export { useWorkspaceSlug, useWorkspaceNavigate } from './useWorkspace'
 export { useViewTransition, useWorkspaceViewTransition } from './useViewTransition'
 export type { TransitionType, NavDirection } from './useViewTransition'
+export { useShortcuts, useRegisteredShortcuts } from './useShortcuts'
+export { useCardNavigation } from './useCardNavigation'
+export { useWipLimits, wipState } from './useWipLimits'
+export type { WipDropDecision, WipJustifyDialogState } from './useWipLimits'
+export { useListSort } from './useListSort'
+export type { ListSort } from './useListSort'
+export { useSavedViews } from './useSavedViews'
+export type { UseSavedViewsReturn } from './useSavedViews'
+export { useBulkEdit } from './useBulkEdit'
+export type { BulkOperation, BulkUndo, BulkFailure, BulkResult, BulkProgress } from './useBulkEdit'
@@ -0,0 +1,134 @@
+import { useState, useRef, useCallback } from 'react'
+
+/** Restores one item's previous value */
+export type BulkUndo = () => Promise<unknown>
+
+export interface BulkOperation<T> {
+  /** What the action does, e.g. 'Set status to completed' */
+  label: string
+  /** Change one item; resolves with the undo restoring its previous value, if it can be undone */
+  run: (item: T) => Promise<BulkUndo | void>
+}
+
+export interface BulkFailure {
+  id: string
+  label: string
+  error: string
+}
+
+export interface BulkResult {
+  label: string
+  total: number
+  succeeded: number
+  failures: BulkFailure[]
+  /** Some of the changes can still be undone */
+  canUndo: boolean
+  /** This result reports an undo */
+  undone: boolean
+}
+
+export interface BulkProgress {
+  label: string
+  current: number
+  total: number
+}
+
+interface UseBulkEditOptions<T> {
+  getId: (item: T) => string
+  /** Shown in the failure summary */
+  getLabel: (item: T) => string
+  /** Called after a run or undo finishes (e.g. to refetch the list) */
+  onDone?: () => void
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+/**
+ * Runs a change over selected items one by one, reporting progress, and
+ * keeps a summary of what failed together with the undos of what succeeded.
+ *
+ * @example
+ * const bulk = useBulkEdit({ getId: (t) => t.id, getLabel: (t) => t.title, onDone: reset })
+ * await bulk.run(selectedTasks, {
+ *   label: 'Set priority to 8',
+ *   run: async (task) => {
+ *     await tasksApi.update(task.id, { priority: 8 })
+ *     return () => tasksApi.update(task.id, { priority: task.priority })
+ *   },
+ * })
+ */
+export function useBulkEdit<T>({ getId, getLabel, onDone }: UseBulkEditOptions<T>) {
+  const [progress, setProgress] = useState<BulkProgress | null>(null)
+  const [result, setResult] = useState<BulkResult | null>(null)
+  const undoRef = useRef<{ label: string; entries: { id: string; label: string; undo: BulkUndo }[] } | null>(null)
+
+  const run = useCallback(
+    async (items: T[], operation: BulkOperation<T>) => {
+      setResult(null)
+      setProgress({ label: operation.label, current: 0, total: items.length })
+      const entries: { id: string; label: string; undo: BulkUndo }[] = []
+      const failures: BulkFailure[] = []
+
+      for (let i = 0; i < items.length; i++) {
+        const item = items[i]
+        try {
+          const undo = await operation.run(item)
+          if (undo) entries.push({ id: getId(item), label: getLabel(item), undo })
+        } catch (error) {
+          failures.push({ id: getId(item), label: getLabel(item), error: errorMessage(error) })
+        }
+        setProgress({ label: operation.label, current: i + 1, total: items.length })
+      }
+
+      undoRef.current = entries.length > 0 ? { label: operation.label, entries } : null
+      setProgress(null)
+      setResult({
+        label: operation.label,
+        total: items.length,
+        succeeded: items.length - failures.length,
+        failures,
+        canUndo: entries.length > 0,
+        undone: false,
+      })
+      onDone?.()
+    },
+    [getId, getLabel, onDone],
+  )
+
+  const undo = useCallback(async () => {
+    const pending = undoRef.current
+    if (!pending) return
+    undoRef.current = null
+    const label = `Undo: ${pending.label}`
+    setProgress({ label, current: 0, total: pending.entries.length })
+    const failures: BulkFailure[] = []
+
+    for (let i = 0; i < pending.entries.length; i++) {
+      const { id, label: itemLabel, undo: undoEntry } = pending.entries[i]
+      try {
+        await undoEntry()
+      } catch (error) {
+        failures.push({ id, label: itemLabel, error: errorMessage(error) })
+      }
+      setProgress({ label, current: i + 1, total: pending.entries.length })
+    }
+
+    setProgress(null)
+    setResult({
+      label,
+      total: pending.entries.length,
+      succeeded: pending.entries.length - failures.length,
+      failures,
+      canUndo: false,
+      undone: true,
+    })
+    onDone?.()
+  }, [onDone])
+
+  const dismiss = useCallback(() => {
+    undoRef.current = null
+    setResult(null)
+  }, [])
+
+  return { run, undo, dismiss, progress, result, busy: progress !== null }
+}
@@ -0,0 +1,66 @@
+import { useCallback } from 'react'
+import { useShortcuts } from './useShortcuts'
+
+interface CardNavigationOptions {
+  /** Toggle selection of the focused card (e.g. `multiSelect.toggle`) */
+  onToggleSelect?: (id: string) => void
+  /** Open the focused card */
+  onOpen?: (id: string) => void
+  enabled?: boolean
+}
+
+/** Cards opt in with a `data-nav-id` attribute and must be focusable */
+const CARD_SELECTOR = '[data-nav-id]'
+
+function focusedCardId(): string | null {
+  const active = document.activeElement
+  return active instanceof HTMLElement ? active.closest<HTMLElement>(CARD_SELECTOR)?.dataset.navId ?? null : null
+}
+
+/**
+ * `j` / `k` move focus through the cards rendered on the page (list rows or
+ * kanban cards, in document order), `x` toggles selection and `o` opens the
+ * focused card. Uses real DOM focus so Enter keeps its native behavior.
+ */
+export function useCardNavigation(scope: string, { onToggleSelect, onOpen, enabled = true }: CardNavigationOptions = {}) {
+  const move = useCallback((delta: 1 | -1) => {
+    const cards = Array.from(document.querySelectorAll<HTMLElement>(CARD_SELECTOR))
+    if (cards.length === 0) return
+    const currentId = focusedCardId()
+    const currentIndex = currentId ? cards.findIndex((c) => c.dataset.navId === currentId) : -1
+    const nextIndex =
+      currentIndex === -1 ? (delta === 1 ? 0 : cards.length - 1) : Math.min(cards.length - 1, Math.max(0, currentIndex + delta))
+    const next = cards[nextIndex]
+    next.focus({ preventScroll: true })
+    next.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+  }, [])
+
+  useShortcuts(
+    scope,
+    [
+      { keys: 'j', description: 'Next card', handler: () => move(1) },
+      { keys: 'k', description: 'Previous card', handler: () => move(-1) },
+      ...(onToggleSelect
+        ? [{
+            keys: 'x',
+            description: 'Select focused card',
+            handler: () => {
+              const id = focusedCardId()
+              if (id) onToggleSelect(id)
+            },
+          }]
+        : []),
+      ...(onOpen
+        ? [{
+            keys: 'o',
+            description: 'Open focused card',
+            handler: () => {
+              const id = focusedCardId()
+              if (id) onOpen(id)
+            },
+          }]
+        : []),
+    ],
+    enabled,
+  )
+}
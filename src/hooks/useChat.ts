@@ -1,7 +1,7 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
 import { useAtom, useSetAtom } from 'jotai'
 import { chatSessionIdAtom, chatStreamingAtom, chatCompactingAtom, chatWsStatusAtom, chatReplayingAtom, chatSessionPermissionOverrideAtom, chatAutoApprovedToolsAtom, chatSessionModelAtom, chatAutoContinueAtom, chatDraftInputAtom } from '@/atoms'
-import { chatApi, ChatWebSocket } from '@/services'
+import { chatApi, ChatWebSocket, notifyChatEvent } from '@/services'
 import type { ChatMessage, ChatEvent, PermissionMode } from '@/types'
 
 let blockIdCounter = 0
@@ -1158,7 +1158,13 @@ export function useChat() {
   useEffect(() => {
     const ws = getWs()
     ws.setCallbacks({
-      onEvent: handleEvent,
+      onEvent: (event) => {
+        // Notify on arrival — handleEvent may buffer the event until history loads.
+        // Remembered tools are approved without the user, so don't notify for them.
+        const autoApproved = event.type === 'permission_request' && autoApprovedToolsRef.current.has(event.tool)
+        if (ws.sessionId && !autoApproved) notifyChatEvent(ws.sessionId, event)
+        handleEvent(event)
+      },
       onStatusChange: setWsStatus,
       onReplayComplete: () => {
         setIsReplaying(false)
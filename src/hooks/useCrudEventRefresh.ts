@@ -1,6 +1,7 @@
 import { useCallback, useRef } from 'react'
 import { useSetAtom } from 'jotai'
 import {
+  applyCrudEventAtom,
   planRefreshAtom,
   taskRefreshAtom,
   projectRefreshAtom,
@@ -10,16 +11,30 @@ import {
   chatSessionRefreshAtom,
 } from '@/atoms'
 import { useEventBus } from './useEventBus'
-import type { CrudEvent, EntityType } from '@/types'
+import type { CrudEvent, EntityType, EventBusSync } from '@/types'
 
 const DEBOUNCE_MS = 500
 
 /**
- * Top-level hook that listens to WebSocket CRUD events and bumps
- * refresh counters for each entity type. Pages include the relevant
- * counter atom in their useEffect deps to auto-refetch.
+ * Entity types whose `updated` events are patched in place by the pages that
+ * show them (via `useEntityPatches`), so they don't trigger a refetch —
+ * except status changes, which move server-computed data (progress, graphs,
+ * next task) and filtered lists.
+ */
+const PATCHED_IN_PLACE: EntityType[] = ['plan', 'task', 'step', 'note']
+
+/**
+ * Top-level hook that listens to WebSocket CRUD events, records them in the
+ * normalized entity store and bumps refresh counters for each entity type.
+ * Pages include the relevant counter atom in their useEffect deps to
+ * auto-refetch; updates that can be patched in place skip the bump.
+ *
+ * Events missed while disconnected are replayed by the bus on reconnect and
+ * flow through the same path. When the server can't replay them, every
+ * counter is bumped so all mounted pages refetch.
  */
 export function useCrudEventRefresh() {
+  const applyCrudEvent = useSetAtom(applyCrudEventAtom)
   const bumpPlan = useSetAtom(planRefreshAtom)
   const bumpTask = useSetAtom(taskRefreshAtom)
   const bumpProject = useSetAtom(projectRefreshAtom)
@@ -34,6 +49,17 @@ export function useCrudEventRefresh() {
     (event: CrudEvent) => {
       const entityType = event.entity_type
 
+      applyCrudEvent(event)
+      const hasPayload = Object.keys(event.payload || {}).length > 0
+      if (
+        event.action === 'updated' &&
+        hasPayload &&
+        !('status' in event.payload) &&
+        PATCHED_IN_PLACE.includes(entityType)
+      ) {
+        return
+      }
+
       // Debounce per entity type to avoid rapid-fire refetches
       const existing = timers.current.get(entityType)
       if (existing) clearTimeout(existing)
@@ -85,8 +111,18 @@ export function useCrudEventRefresh() {
         }, DEBOUNCE_MS),
       )
     },
+    [applyCrudEvent, bumpPlan, bumpTask, bumpProject, bumpMilestone, bumpNote, bumpWorkspace, bumpChatSession],
+  )
+
+  const handleSync = useCallback(
+    (sync: EventBusSync) => {
+      if (sync.mode !== 'resync') return
+      for (const bump of [bumpPlan, bumpTask, bumpProject, bumpMilestone, bumpNote, bumpWorkspace, bumpChatSession]) {
+        bump((c) => c + 1)
+      }
+    },
     [bumpPlan, bumpTask, bumpProject, bumpMilestone, bumpNote, bumpWorkspace, bumpChatSession],
   )
 
-  useEventBus(handleEvent)
+  useEventBus(handleEvent, handleSync)
 }
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react'
+import { useAtomValue } from 'jotai'
+import { entityStoreAtom } from '@/atoms'
+import type { EntityRecord } from '@/atoms'
+import type { EntityType } from '@/types'
+
+/** Merge a store record's fields into an entity, dropping cleared relations */
+export function patchEntity<T extends object>(item: T, record: EntityRecord): T {
+  const next = { ...item, ...record.fields } as Record<string, unknown>
+  for (const key of record.cleared) next[key] = undefined
+  return next as T
+}
+
+/** Apply a store record to a list: patch the matching item in place, or drop it if deleted */
+export function patchEntityList<T extends { id: string }>(items: T[], record: EntityRecord): T[] {
+  if (!items.some((item) => item.id === record.id)) return items
+  if (record.deleted) return items.filter((item) => item.id !== record.id)
+  return items.map((item) => (item.id === record.id ? patchEntity(item, record) : item))
+}
+
+/**
+ * Calls `onPatch` for every entity store record of the given type(s) that
+ * changed after mount. Records that predate the mount are skipped — the
+ * page's own fetch is at least as fresh.
+ *
+ * @example
+ * useEntityPatches('task', (record) => setTasks((prev) => patchEntityList(prev, record)))
+ */
+export function useEntityPatches(
+  entityTypes: EntityType | EntityType[],
+  onPatch: (record: EntityRecord) => void,
+) {
+  const store = useAtomValue(entityStoreAtom)
+  const appliedVersion = useRef(store.version)
+  const handler = useRef(onPatch)
+  useEffect(() => {
+    handler.current = onPatch
+  })
+
+  const typesKey = (Array.isArray(entityTypes) ? entityTypes : [entityTypes]).join(',')
+
+  useEffect(() => {
+    if (store.version <= appliedVersion.current) return
+    const types = typesKey.split(',')
+    for (const record of Object.values(store.records)) {
+      if (record.version > appliedVersion.current && types.includes(record.entityType)) {
+        handler.current(record)
+      }
+    }
+    appliedVersion.current = store.version
+  }, [store, typesKey])
+}
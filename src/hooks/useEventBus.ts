@@ -1,23 +1,34 @@
 import { useEffect } from 'react'
 import { useSetAtom } from 'jotai'
-import { eventBusStatusAtom } from '@/atoms'
+import { eventBusStatusAtom, eventBusLastSyncedAtom } from '@/atoms'
 import { getEventBus } from '@/services'
-import type { CrudEvent } from '@/types'
+import type { CrudEvent, EventBusSync } from '@/types'
 
 /**
- * Hook that connects the EventBus singleton and syncs its status to Jotai.
- * Optionally receives an onEvent callback for reacting to specific events.
+ * Hook that connects the EventBus singleton and syncs its status and
+ * last-synced time to Jotai.
+ * Optionally receives an onEvent callback for reacting to specific events,
+ * and an onSync callback for reacting to (re)connect sync outcomes.
  */
-export function useEventBus(onEvent?: (event: CrudEvent) => void) {
+export function useEventBus(onEvent?: (event: CrudEvent) => void, onSync?: (sync: EventBusSync) => void) {
   const setStatus = useSetAtom(eventBusStatusAtom)
+  const setLastSynced = useSetAtom(eventBusLastSyncedAtom)
 
   useEffect(() => {
     const bus = getEventBus()
 
-    // Sync status to Jotai atom
-    const offStatus = bus.onStatus(setStatus)
+    // Sync status to Jotai atom (a drop also freezes the last-synced time)
+    const offStatus = bus.onStatus((status) => {
+      setStatus(status)
+      setLastSynced(bus.lastSyncedAt)
+    })
+    const offSync = bus.onSync((sync) => {
+      setLastSynced(sync.syncedAt)
+      onSync?.(sync)
+    })
     // Set initial status
     setStatus(bus.status)
+    setLastSynced(bus.lastSyncedAt)
 
     // Connect if not already
     bus.connect()
@@ -30,7 +41,8 @@ export function useEventBus(onEvent?: (event: CrudEvent) => void) {
 
     return () => {
       offStatus()
+      offSync()
       offEvent?.()
     }
-  }, [setStatus, onEvent])
+  }, [setStatus, setLastSynced, onEvent, onSync])
 }
@@ -1,11 +1,15 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
-import type { PaginatedResponse } from '@/types'
+import type { EntityType, PaginatedResponse } from '@/types'
+import { patchEntity, useEntityPatches } from './useEntityPatches'
 
 const DEFAULT_PAGE_SIZE = 25
 
 interface UseInfiniteListOptions<T, F = Record<string, unknown>> {
-  /** Fetch function: receives { limit, offset, ...filters } → PaginatedResponse<T> */
-  fetcher: (params: { limit: number; offset: number } & F) => Promise<PaginatedResponse<T>>
+  /**
+   * Fetch function: receives { limit, offset, ...filters } → PaginatedResponse<T>.
+   * The signal is aborted when the list resets (filters change) or unmounts.
+   */
+  fetcher: (params: { limit: number; offset: number } & F, signal: AbortSignal) => Promise<PaginatedResponse<T>>
   /** Extra params passed to fetcher (filters, search, etc.). Changes reset the list. */
   filters?: F
   /** Items per batch (default: 25) */
@@ -14,6 +18,8 @@ interface UseInfiniteListOptions<T, F = Record<string, unknown>> {
   threshold?: number
   /** Whether fetching is enabled (default: true). Set false to pause. */
   enabled?: boolean
+  /** Patch loaded items in place from entity store updates of this type */
+  entityType?: EntityType
 }
 
 interface UseInfiniteListReturn<T> {
@@ -46,6 +52,7 @@ export function useInfiniteList<T, F = Record<string, unknown>>(
     pageSize = DEFAULT_PAGE_SIZE,
     threshold = 200,
     enabled = true,
+    entityType,
   } = options
 
   const [items, setItems] = useState<T[]>([])
@@ -60,6 +67,8 @@ export function useInfiniteList<T, F = Record<string, unknown>>(
   const fetchingRef = useRef(false)
   // Generation counter: invalidates in-flight requests on reset
   const generationRef = useRef(0)
+  // Aborts the in-flight request of the previous generation
+  const controllerRef = useRef<AbortController | null>(null)
 
   // Stable ref for filters to use in serialization
   const filtersKey = JSON.stringify(filters ?? {})
@@ -82,7 +91,8 @@ export function useInfiniteList<T, F = Record<string, unknown>>(
           offset,
           ...(filters as F),
         }
-        const response = await fetcher(params)
+        const signal = controllerRef.current?.signal ?? new AbortController().signal
+        const response = await fetcher(params, signal)
 
         // Bail if a reset happened while we were fetching
         if (generation !== generationRef.current) return
@@ -114,11 +124,18 @@ export function useInfiniteList<T, F = Record<string, unknown>>(
     [fetcher, pageSize, filtersKey],
   )
 
+  // Start a new generation, cancelling whatever the previous one was fetching
+  const nextGeneration = useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = new AbortController()
+    generationRef.current += 1
+    return generationRef.current
+  }, [])
+
   // Reset when filters change
   useEffect(() => {
     if (!enabled) return
-    generationRef.current += 1
-    const gen = generationRef.current
+    const gen = nextGeneration()
     offsetRef.current = 0
     fetchingRef.current = false
     setItems([])
@@ -130,8 +147,7 @@ export function useInfiniteList<T, F = Record<string, unknown>>(
 
   // Manual reset
   const reset = useCallback(() => {
-    generationRef.current += 1
-    const gen = generationRef.current
+    const gen = nextGeneration()
     offsetRef.current = 0
     fetchingRef.current = false
     setItems([])
@@ -139,7 +155,7 @@ export function useInfiniteList<T, F = Record<string, unknown>>(
     setTotal(0)
     setLoading(true)
     fetchPage(0, gen, true)
-  }, [fetchPage])
+  }, [fetchPage, nextGeneration])
 
   // Load next page
   const loadMore = useCallback(() => {
@@ -185,10 +201,11 @@ export function useInfiniteList<T, F = Record<string, unknown>>(
     [threshold],
   )
 
-  // Cleanup observer on unmount
+  // Cleanup observer and in-flight request on unmount
   useEffect(() => {
     return () => {
       observerRef.current?.disconnect()
+      controllerRef.current?.abort()
     }
   }, [])
 
@@ -209,6 +226,13 @@ export function useInfiniteList<T, F = Record<string, unknown>>(
     })
   }, [])
 
+  // Live updates: patch or drop loaded items as their entities change
+  useEntityPatches(entityType ?? [], (record) => {
+    const matches = (item: T) => (item as { id?: string }).id === record.id
+    if (record.deleted) removeItems(matches)
+    else updateItem(matches, (item) => patchEntity(item as object, record) as T)
+  })
+
   return {
     items,
     loading,
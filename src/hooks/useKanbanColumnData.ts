@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import type { PaginatedResponse } from '@/types'
+import type { EntityRecord } from '@/atoms'
+import { patchEntity } from './useEntityPatches'
 
 export interface ColumnData<T> {
   items: T[]
@@ -15,7 +17,8 @@ export interface ColumnData<T> {
 
 interface UseKanbanColumnDataOptions<T> {
   status: string
-  fetchFn: (params: Record<string, unknown>) => Promise<PaginatedResponse<T>>
+  /** The signal is aborted when the column refetches (filters change) or unmounts */
+  fetchFn: (params: Record<string, unknown>, signal: AbortSignal) => Promise<PaginatedResponse<T>>
   pageSize?: number
   filters?: Record<string, unknown>
   enabled?: boolean
@@ -38,6 +41,8 @@ export function useKanbanColumnData<T>({
   const [loadingMore, setLoadingMore] = useState(false)
   const offsetRef = useRef(0)
   const fetchingRef = useRef(false)
+  // Signal of the current fetch generation — loadMore pages belong to it too
+  const signalRef = useRef<AbortSignal | null>(null)
 
   // Serialize filters for dependency tracking
   const filtersKey = JSON.stringify(filters)
@@ -46,7 +51,8 @@ export function useKanbanColumnData<T>({
   useEffect(() => {
     if (!enabled) return
 
-    let cancelled = false
+    const controller = new AbortController()
+    signalRef.current = controller.signal
     offsetRef.current = 0
 
     async function fetchInitial() {
@@ -54,20 +60,23 @@ export function useKanbanColumnData<T>({
       fetchingRef.current = true
       try {
         const parsedFilters = JSON.parse(filtersKey)
-        const response = await fetchFn({
-          ...parsedFilters,
-          status,
-          limit: pageSize,
-          offset: 0,
-        })
-        if (cancelled) return
+        const response = await fetchFn(
+          {
+            ...parsedFilters,
+            status,
+            limit: pageSize,
+            offset: 0,
+          },
+          controller.signal,
+        )
+        if (controller.signal.aborted) return
         setItems(response.items || [])
         setTotal(response.total || 0)
         offsetRef.current = (response.items || []).length
       } catch (error) {
-        if (!cancelled) console.error(`Failed to fetch column ${status}:`, error)
+        if (!controller.signal.aborted) console.error(`Failed to fetch column ${status}:`, error)
       } finally {
-        if (!cancelled) {
+        if (!controller.signal.aborted) {
           setLoading(false)
           fetchingRef.current = false
         }
@@ -75,7 +84,11 @@ export function useKanbanColumnData<T>({
     }
 
     fetchInitial()
-    return () => { cancelled = true }
+    return () => {
+      controller.abort()
+      // A superseded loadMore must not keep blocking the next generation
+      fetchingRef.current = false
+    }
   }, [status, fetchFn, pageSize, filtersKey, enabled, refreshTrigger])
 
   const hasMore = items.length < total
@@ -84,22 +97,27 @@ export function useKanbanColumnData<T>({
     if (fetchingRef.current || !hasMore) return
     fetchingRef.current = true
     setLoadingMore(true)
+    const signal = signalRef.current ?? new AbortController().signal
     try {
       const parsedFilters = JSON.parse(filtersKey)
-      const response = await fetchFn({
-        ...parsedFilters,
-        status,
-        limit: pageSize,
-        offset: offsetRef.current,
-      })
+      const response = await fetchFn(
+        {
+          ...parsedFilters,
+          status,
+          limit: pageSize,
+          offset: offsetRef.current,
+        },
+        signal,
+      )
+      if (signal.aborted) return
       setItems((prev) => [...prev, ...(response.items || [])])
       setTotal(response.total || 0)
       offsetRef.current += (response.items || []).length
     } catch (error) {
-      console.error(`Failed to load more for column ${status}:`, error)
+      if (!signal.aborted) console.error(`Failed to load more for column ${status}:`, error)
     } finally {
       setLoadingMore(false)
-      fetchingRef.current = false
+      if (!signal.aborted) fetchingRef.current = false
     }
   }, [status, fetchFn, pageSize, filtersKey, hasMore])
 
@@ -129,3 +147,33 @@ export function useKanbanColumnData<T>({
     updateItem,
   }
 }
+
+/**
+ * Apply an entity store record across a board's columns (keyed by status):
+ * patch the card in place, move it when its status changed, or drop it when
+ * deleted. Cards not on the board are ignored.
+ */
+export function applyRecordToColumns<T extends { id: string; status: string }>(
+  columns: Record<string, ColumnData<T>>,
+  record: EntityRecord,
+) {
+  for (const [status, column] of Object.entries(columns)) {
+    const item = column.items.find((i) => i.id === record.id)
+    if (!item) continue
+
+    if (record.deleted) {
+      column.removeItem(record.id)
+      return
+    }
+
+    const patched = patchEntity(item, record)
+    const target = columns[patched.status]
+    if (patched.status !== status && target) {
+      column.removeItem(record.id)
+      if (!target.items.some((i) => i.id === record.id)) target.addItem(patched)
+    } else {
+      column.updateItem(record.id, patched)
+    }
+    return
+  }
+}
@@ -1,6 +1,11 @@
 import { useCallback, useMemo } from 'react'
 import { useSearchParams } from 'react-router-dom'
 
+/** Field the task board is split into swimlanes by */
+export type KanbanGroupBy = 'plan' | 'assignee' | 'project' | 'tag' | 'priority'
+
+const GROUP_BY_VALUES: KanbanGroupBy[] = ['plan', 'assignee', 'project', 'tag', 'priority']
+
 export interface KanbanFilters {
   milestone_id?: string
   plan_id?: string
@@ -11,6 +16,8 @@ export interface KanbanFilters {
   exclude_projects?: string[]
   exclude_completed?: boolean
   exclude_failed?: boolean
+  /** Swimlane grouping — a layout option, not sent to the API */
+  group_by?: KanbanGroupBy
 }
 
 export interface UseKanbanFiltersReturn {
@@ -23,6 +30,9 @@ export interface UseKanbanFiltersReturn {
   buildApiParams: () => Record<string, string | number | undefined>
 }
 
+/** URL params owned by other hooks (`useViewMode`, `useListSort`) */
+const PRESERVED_PARAMS = ['view', 'sort']
+
 function parseFiltersFromParams(params: URLSearchParams): KanbanFilters {
   const filters: KanbanFilters = {}
 
@@ -50,6 +60,10 @@ function parseFiltersFromParams(params: URLSearchParams): KanbanFilters {
   if (params.get('hide_completed') === '1') filters.exclude_completed = true
   if (params.get('hide_failed') === '1') filters.exclude_failed = true
 
+  // Old links and saved views may hold a grouping that no longer exists
+  const group = params.get('group')
+  if (group && GROUP_BY_VALUES.includes(group as KanbanGroupBy)) filters.group_by = group as KanbanGroupBy
+
   return filters
 }
 
@@ -65,27 +79,28 @@ function filtersToParams(filters: KanbanFilters): Record<string, string> {
   if (filters.exclude_projects?.length) params.exclude_projects = filters.exclude_projects.join(',')
   if (filters.exclude_completed) params.hide_completed = '1'
   if (filters.exclude_failed) params.hide_failed = '1'
+  if (filters.group_by) params.group = filters.group_by
 
   return params
 }
 
+/** Filters as URL params, for writing them together with other params in one update */
+export { filtersToParams as kanbanFiltersToParams }
+
 export function useKanbanFilters(): UseKanbanFiltersReturn {
   const [searchParams, setSearchParams] = useSearchParams()
 
   const filters = useMemo(() => parseFiltersFromParams(searchParams), [searchParams])
 
-  const setFilter = useCallback(
-    <K extends keyof KanbanFilters>(key: K, value: KanbanFilters[K]) => {
-      const newFilters = { ...parseFiltersFromParams(searchParams), [key]: value }
-      // Remove undefined/empty values
-      if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
-        delete newFilters[key]
-      }
+  const writeFilters = useCallback(
+    (newFilters: KanbanFilters) => {
       setSearchParams((prev) => {
         const newParams = new URLSearchParams()
-        // Preserve non-filter params (like view)
-        const viewParam = prev.get('view')
-        if (viewParam) newParams.set('view', viewParam)
+        // Preserve non-filter params (view mode, list sort)
+        for (const key of PRESERVED_PARAMS) {
+          const value = prev.get(key)
+          if (value) newParams.set(key, value)
+        }
         // Set filter params
         const filterParams = filtersToParams(newFilters)
         for (const [k, v] of Object.entries(filterParams)) {
@@ -94,7 +109,19 @@ export function useKanbanFilters(): UseKanbanFiltersReturn {
         return newParams
       }, { replace: true })
     },
-    [searchParams, setSearchParams],
+    [setSearchParams],
+  )
+
+  const setFilter = useCallback(
+    <K extends keyof KanbanFilters>(key: K, value: KanbanFilters[K]) => {
+      const newFilters = { ...parseFiltersFromParams(searchParams), [key]: value }
+      // Remove undefined/empty values
+      if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+        delete newFilters[key]
+      }
+      writeFilters(newFilters)
+    },
+    [searchParams, writeFilters],
   )
 
   const toggleExcludeProject = useCallback(
@@ -111,8 +138,13 @@ export function useKanbanFilters(): UseKanbanFiltersReturn {
   const clearFilters = useCallback(() => {
     setSearchParams((prev) => {
       const newParams = new URLSearchParams()
-      const viewParam = prev.get('view')
-      if (viewParam) newParams.set('view', viewParam)
+      for (const key of PRESERVED_PARAMS) {
+        const value = prev.get(key)
+        if (value) newParams.set(key, value)
+      }
+      // Grouping is a layout choice, not a filter — keep it
+      const groupParam = prev.get('group')
+      if (groupParam) newParams.set('group', groupParam)
       return newParams
     }, { replace: true })
   }, [setSearchParams])
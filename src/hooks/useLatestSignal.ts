@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useRef } from 'react'
+
+/**
+ * Returns a function that hands out a fresh AbortSignal per call and aborts
+ * the one handed out before it. Everything is aborted on unmount.
+ *
+ * Detail pages call it at the top of `fetchData` so a refetch (route param
+ * change, WS refresh, retry) cancels the request it supersedes instead of
+ * racing it.
+ *
+ * @example
+ * const nextSignal = useLatestSignal()
+ * const fetchData = useCallback(async () => {
+ *   const signal = nextSignal()
+ *   const plan = await plansApi.get(planId, { signal })
+ *   if (signal.aborted) return
+ *   setPlan(plan)
+ * }, [planId, nextSignal])
+ */
+export function useLatestSignal(): () => AbortSignal {
+  const controllerRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    return () => controllerRef.current?.abort()
+  }, [])
+
+  return useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = new AbortController()
+    return controllerRef.current.signal
+  }, [])
+}
@@ -0,0 +1,41 @@
+import { useCallback, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
+
+export interface ListSort {
+  sort_by?: string
+  sort_order?: 'asc' | 'desc'
+}
+
+/**
+ * List sort kept in the `sort` URL param as `field:order` (empty = server
+ * default order). Returns the raw value for selects and the API params.
+ *
+ * @example
+ * const [sort, setSort, sortParams] = useListSort()
+ * setSort('priority:desc') // ?sort=priority:desc → { sort_by: 'priority', sort_order: 'desc' }
+ */
+export function useListSort(): [string, (sort: string) => void, ListSort] {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const sort = searchParams.get('sort') ?? ''
+
+  const setSort = useCallback(
+    (value: string) => {
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev)
+        if (value) next.set('sort', value)
+        else next.delete('sort')
+        return next
+      }, { replace: true })
+    },
+    [setSearchParams],
+  )
+
+  const params = useMemo<ListSort>(() => {
+    if (!sort) return {}
+    const [sort_by, order] = sort.split(':')
+    return { sort_by, sort_order: order === 'asc' ? 'asc' : 'desc' }
+  }, [sort])
+
+  return [sort, setSort, params]
+}
@@ -0,0 +1,48 @@
+import { useCallback, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAtomValue, useSetAtom } from 'jotai'
+import { notificationSettingsAtom, chatSessionIdAtom, chatPanelModeAtom } from '@/atoms'
+import { configureNotifications, notify } from '@/services'
+import { workspacePath } from '@/utils/paths'
+import { useEventBus } from './useEventBus'
+import type { CrudEvent, NotificationTarget } from '@/types'
+
+/**
+ * Top-level hook that feeds notification settings and click-through to the
+ * notifications service, and raises notifications for tasks that become
+ * blocked or failed. Chat notifications are raised by `useChat`.
+ */
+export function useNotifications(wsSlug: string) {
+  const settings = useAtomValue(notificationSettingsAtom)
+  const setSessionId = useSetAtom(chatSessionIdAtom)
+  const setChatMode = useSetAtom(chatPanelModeAtom)
+  const navigate = useNavigate()
+
+  useEffect(() => {
+    configureNotifications(settings, (target: NotificationTarget) => {
+      if (target.kind === 'chat') {
+        setSessionId(target.sessionId)
+        setChatMode((mode) => (mode === 'closed' ? 'open' : mode))
+      } else {
+        navigate(workspacePath(wsSlug, `/tasks/${target.taskId}`))
+      }
+    })
+  }, [settings, wsSlug, navigate, setSessionId, setChatMode])
+
+  const handleEvent = useCallback((event: CrudEvent) => {
+    // Like replayed chat events, changes caught up on after a reconnect are stale news
+    if (event.replaying) return
+    if (event.entity_type !== 'task' || event.action !== 'updated') return
+    const status = event.payload?.status
+    if (status !== 'blocked' && status !== 'failed') return
+    const title = typeof event.payload.title === 'string' ? event.payload.title : 'A task'
+    void notify({
+      type: status === 'blocked' ? 'task_blocked' : 'task_failed',
+      title: status === 'blocked' ? 'Task blocked' : 'Task failed',
+      body: title,
+      target: { kind: 'task', taskId: event.entity_id },
+    })
+  }, [])
+
+  useEventBus(handleEvent)
+}
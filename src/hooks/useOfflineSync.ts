@@ -0,0 +1,57 @@
+import { useEffect } from 'react'
+import { useAtomValue, useSetAtom } from 'jotai'
+import {
+  eventBusStatusAtom,
+  offlineStateAtom,
+  planRefreshAtom,
+  taskRefreshAtom,
+  projectRefreshAtom,
+  milestoneRefreshAtom,
+  workspaceRefreshAtom,
+} from '@/atoms'
+import { checkConnectivity, getOfflineState, onOfflineState, onReplay } from '@/services'
+import { useToast } from './useToast'
+
+/**
+ * Top-level hook that syncs the API layer's offline state to Jotai and
+ * reacts to queue replays: pages refetch so replayed changes show their
+ * server-side result, and rejected changes are reported.
+ */
+export function useOfflineSync() {
+  const setOfflineState = useSetAtom(offlineStateAtom)
+  const busStatus = useAtomValue(eventBusStatusAtom)
+  const bumpPlan = useSetAtom(planRefreshAtom)
+  const bumpTask = useSetAtom(taskRefreshAtom)
+  const bumpProject = useSetAtom(projectRefreshAtom)
+  const bumpMilestone = useSetAtom(milestoneRefreshAtom)
+  const bumpWorkspace = useSetAtom(workspaceRefreshAtom)
+  const { warning } = useToast()
+
+  useEffect(() => {
+    setOfflineState(getOfflineState())
+    return onOfflineState(setOfflineState)
+  }, [setOfflineState])
+
+  useEffect(
+    () =>
+      onReplay(({ replayed, rejected }) => {
+        // Queued mutations only touch plans, tasks/steps and milestones
+        bumpPlan((c) => c + 1)
+        bumpTask((c) => c + 1)
+        bumpProject((c) => c + 1)
+        bumpMilestone((c) => c + 1)
+        bumpWorkspace((c) => c + 1)
+        if (rejected.length > 0) {
+          warning(
+            `${rejected.length} of ${replayed + rejected.length} offline change${rejected.length + replayed !== 1 ? 's' : ''} could not be applied`,
+          )
+        }
+      }),
+    [bumpPlan, bumpTask, bumpProject, bumpMilestone, bumpWorkspace, warning],
+  )
+
+  // The event bus reconnecting is a good hint the backend is back
+  useEffect(() => {
+    if (busStatus === 'connected') void checkConnectivity()
+  }, [busStatus])
+}
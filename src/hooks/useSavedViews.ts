@@ -0,0 +1,150 @@
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { useAtom } from 'jotai'
+import { defaultSavedViewsAtom, personalSavedViewsAtom } from '@/atoms'
+import { workspacesApi } from '@/services'
+import { useWorkspaceSlug } from './useWorkspace'
+import type { SavedView, SavedViewPage, SavedViewScope, SavedViewState } from '@/types'
+
+interface UseSavedViewsOptions {
+  /** Current page state, matched against the views to find the active tab */
+  current: SavedViewState
+  /** Page state with nothing applied (the "All" tab) */
+  initial: SavedViewState
+  /** Restore a captured state on the page */
+  apply: (state: SavedViewState) => void
+  /** The page opened without filters — only then is the default view applied */
+  pristine: boolean
+}
+
+export interface UseSavedViewsReturn {
+  /** Shared views first, then personal ones, each in creation order */
+  views: SavedView[]
+  /** View matching the current state, null for "All" or unsaved changes */
+  activeId: string | null
+  isInitial: boolean
+  defaultId?: string
+  select: (view: SavedView | null) => void
+  save: (name: string, scope: SavedViewScope) => Promise<SavedView>
+  remove: (view: SavedView) => Promise<void>
+  setDefault: (viewId?: string) => void
+}
+
+function stateOf(state: SavedViewState): SavedViewState {
+  return { filters: state.filters, view_mode: state.view_mode || undefined, sort: state.sort || undefined }
+}
+
+/** Order-independent identity of a state, for matching it against saved views */
+function stateKey(state: SavedViewState): string {
+  const sortKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sortKeys)
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value)
+          .filter(([, v]) => v !== undefined)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([k, v]) => [k, sortKeys(v)]),
+      )
+    }
+    return value
+  }
+  return JSON.stringify(sortKeys(stateOf(state)))
+}
+
+/**
+ * Named filter / view mode / sort combinations of a list page. Personal
+ * views and the user's default view are kept in localStorage, shared views
+ * come from the workspace. The default view is applied once the views are
+ * loaded, unless the page was opened with filters already set (e.g. a link).
+ *
+ * @example
+ * const savedViews = useSavedViews('notes', { current, initial, apply, pristine })
+ * <SavedViewTabs savedViews={savedViews} />
+ */
+export function useSavedViews(
+  page: SavedViewPage,
+  { current, initial, apply, pristine }: UseSavedViewsOptions,
+): UseSavedViewsReturn {
+  const wsSlug = useWorkspaceSlug()
+  const [personalByWs, setPersonalByWs] = useAtom(personalSavedViewsAtom)
+  const [defaultsByWs, setDefaultsByWs] = useAtom(defaultSavedViewsAtom)
+  const [shared, setShared] = useState<{ key: string; views: SavedView[] } | null>(null)
+  const key = `${wsSlug}:${page}`
+
+  useEffect(() => {
+    let cancelled = false
+    workspacesApi
+      .listViews(wsSlug, page)
+      .then((views) => views.map((view): SavedView => ({ ...view, scope: 'shared' })))
+      .catch(() => [] as SavedView[])
+      .then((views) => {
+        if (!cancelled) setShared({ key: `${wsSlug}:${page}`, views })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [wsSlug, page])
+
+  // Shared views of another workspace / page are stale until the refetch lands
+  const loaded = shared?.key === key
+  const sharedViews = loaded ? shared.views : undefined
+  const personalViews = personalByWs[wsSlug]
+  const views = useMemo(
+    () => [...(sharedViews ?? []), ...(personalViews ?? []).filter((view) => view.page === page)],
+    [sharedViews, personalViews, page],
+  )
+  const defaultId = defaultsByWs[wsSlug]?.[page]
+
+  const currentKey = stateKey(current)
+  const isInitial = currentKey === stateKey(initial)
+  const activeId = isInitial ? null : (views.find((view) => stateKey(view) === currentKey)?.id ?? null)
+
+  // Apply the default view once per workspace/page, when the page opened pristine
+  const [pristineAtMount] = useState(pristine)
+  const applyRef = useRef(apply)
+  useEffect(() => { applyRef.current = apply })
+  const defaultAppliedRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!loaded || defaultAppliedRef.current === key) return
+    defaultAppliedRef.current = key
+    const view = views.find((v) => v.id === defaultId)
+    if (pristineAtMount && view) applyRef.current(stateOf(view))
+  }, [loaded, key, views, defaultId, pristineAtMount])
+
+  const setDefault = (viewId?: string) =>
+    setDefaultsByWs((prev) => ({ ...prev, [wsSlug]: { ...prev[wsSlug], [page]: viewId } }))
+
+  const save = async (name: string, scope: SavedViewScope): Promise<SavedView> => {
+    const state = stateOf(current)
+    if (scope === 'shared') {
+      const created = await workspacesApi.createView(wsSlug, { name, page, ...state })
+      const view: SavedView = { ...created, scope: 'shared' }
+      setShared((prev) => ({ key, views: [...(prev?.key === key ? prev.views : []), view] }))
+      return view
+    }
+    const view: SavedView = {
+      ...state,
+      id: `personal-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      page,
+      scope: 'personal',
+      created_at: new Date().toISOString(),
+    }
+    setPersonalByWs((prev) => ({ ...prev, [wsSlug]: [...(prev[wsSlug] ?? []), view] }))
+    return view
+  }
+
+  const remove = async (view: SavedView) => {
+    if (view.scope === 'shared') {
+      await workspacesApi.deleteView(wsSlug, view.id)
+      setShared((prev) => (prev ? { ...prev, views: prev.views.filter((v) => v.id !== view.id) } : prev))
+    } else {
+      setPersonalByWs((prev) => ({ ...prev, [wsSlug]: (prev[wsSlug] ?? []).filter((v) => v.id !== view.id) }))
+    }
+    if (defaultId === view.id) setDefault(undefined)
+  }
+
+  const select = (view: SavedView | null) => apply(stateOf(view ?? initial))
+
+  return { views, activeId, isInitial, defaultId, select, save, remove, setDefault }
+}
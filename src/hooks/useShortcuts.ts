@@ -0,0 +1,37 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react'
+import { shortcutRegistry } from '@/utils/shortcuts'
+import type { Shortcut } from '@/utils/shortcuts'
+
+/**
+ * Register keyboard shortcuts for the lifetime of the calling component.
+ *
+ * Bindings are re-registered only when their keys or descriptions change;
+ * handlers are read through a ref so inline closures always see fresh state.
+ *
+ * @example
+ * useShortcuts('Plans', [
+ *   { keys: 'c', description: 'Create plan', handler: openCreatePlan },
+ * ])
+ */
+export function useShortcuts(scope: string, bindings: Shortcut[], enabled = true) {
+  const bindingsRef = useRef(bindings)
+  useEffect(() => {
+    bindingsRef.current = bindings
+  })
+
+  const signature = bindings.map((b) => `${b.keys}:${b.description}:${b.allowInInput ? 1 : 0}`).join('|')
+
+  useEffect(() => {
+    if (!enabled) return
+    const wrapped = bindingsRef.current.map((binding) => ({
+      ...binding,
+      handler: (e: KeyboardEvent) => bindingsRef.current.find((b) => b.keys === binding.keys)?.handler(e),
+    }))
+    return shortcutRegistry.register(scope, wrapped)
+  }, [scope, signature, enabled])
+}
+
+/** All currently registered shortcut scopes (re-renders on registration changes) */
+export function useRegisteredShortcuts() {
+  return useSyncExternalStore(shortcutRegistry.subscribe, shortcutRegistry.getSnapshot)
+}
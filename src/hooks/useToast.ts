@@ -1,16 +1,34 @@
 import { useCallback } from 'react'
 import { useSetAtom } from 'jotai'
 import { toastMessagesAtom } from '@/atoms'
+import { latestChangeId, undoChange } from '@/services'
 
-type ToastMessage = { id: string; type: 'success' | 'error' | 'info' | 'warning'; message: string }
+type ToastMessage = {
+  id: string
+  type: 'success' | 'error' | 'info' | 'warning'
+  message: string
+  action?: { label: string; onClick: () => void }
+}
+
+export interface ToastOptions {
+  action?: ToastMessage['action']
+  /**
+   * Offer an Undo button reverting the change just recorded in the undo
+   * history — pass it right after awaiting the service call.
+   */
+  undoable?: boolean
+}
 
 export function useToast() {
   const set = useSetAtom(toastMessagesAtom)
 
   const show = useCallback(
-    (type: ToastMessage['type'], message: string) => {
+    (type: ToastMessage['type'], message: string, options: ToastOptions = {}) => {
       const id = Math.random().toString(36).slice(2) + Date.now().toString(36)
-      set((prev: ToastMessage[]) => [...prev, { id, type, message }])
+      let action = options.action
+      const changeId = options.undoable ? latestChangeId() : undefined
+      if (changeId) action = { label: 'Undo', onClick: () => void undoChange(changeId) }
+      set((prev: ToastMessage[]) => [...prev, { id, type, message, action }])
       setTimeout(() => {
         set((prev: ToastMessage[]) => prev.filter((t) => t.id !== id))
       }, 4000)
@@ -19,9 +37,9 @@ export function useToast() {
   )
 
   return {
-    success: useCallback((msg: string) => show('success', msg), [show]),
-    error: useCallback((msg: string) => show('error', msg), [show]),
-    info: useCallback((msg: string) => show('info', msg), [show]),
-    warning: useCallback((msg: string) => show('warning', msg), [show]),
+    success: useCallback((msg: string, options?: ToastOptions) => show('success', msg, options), [show]),
+    error: useCallback((msg: string, options?: ToastOptions) => show('error', msg, options), [show]),
+    info: useCallback((msg: string, options?: ToastOptions) => show('info', msg, options), [show]),
+    warning: useCallback((msg: string, options?: ToastOptions) => show('warning', msg, options), [show]),
   }
 }
@@ -0,0 +1,45 @@
+import { useEffect } from 'react'
+import { useSetAtom } from 'jotai'
+import { noteRefreshAtom, planRefreshAtom, taskRefreshAtom } from '@/atoms'
+import { onHistoryApplied, redoChange, undoChange } from '@/services'
+import { GLOBAL_SCOPE } from '@/utils/shortcuts'
+import { useShortcuts } from './useShortcuts'
+import { useToast } from './useToast'
+
+/**
+ * Top-level hook for the undo history: binds Ctrl+Z / Ctrl+Shift+Z (Cmd on
+ * macOS), refetches the pages showing a replayed change and reports the
+ * outcome — an undo toast offers Redo, a failed replay an error.
+ *
+ * Text fields keep their native undo: the shortcuts don't fire while typing.
+ */
+export function useUndoHistory() {
+  const bumpPlan = useSetAtom(planRefreshAtom)
+  const bumpTask = useSetAtom(taskRefreshAtom)
+  const bumpNote = useSetAtom(noteRefreshAtom)
+  const { success, error } = useToast()
+
+  useEffect(
+    () =>
+      onHistoryApplied(({ entry, direction, error: replayError }) => {
+        if (entry.entityType === 'plan') bumpPlan((c) => c + 1)
+        else if (entry.entityType === 'note') bumpNote((c) => c + 1)
+        else bumpTask((c) => c + 1)
+
+        if (replayError) {
+          error(`Couldn't ${direction}: ${entry.label}`)
+        } else if (direction === 'undo') {
+          success(`Undone: ${entry.label}`, { action: { label: 'Redo', onClick: () => void redoChange() } })
+        } else {
+          success(`Redone: ${entry.label}`, { undoable: true })
+        }
+      }),
+    [bumpPlan, bumpTask, bumpNote, success, error],
+  )
+
+  useShortcuts(GLOBAL_SCOPE, [
+    // Some browsers report Cmd+Shift+Z with a lower-case key
+    { keys: 'mod+z', description: 'Undo last change', handler: (e) => void (e.shiftKey ? redoChange() : undoChange()) },
+    { keys: 'mod+Z', description: 'Redo last undone change', handler: () => void redoChange() },
+  ])
+}
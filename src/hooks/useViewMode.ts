@@ -1,7 +1,7 @@
 import { useCallback } from 'react'
 import { useSearchParams } from 'react-router-dom'
 
-type ViewMode = 'list' | 'kanban'
+export type ViewMode = 'list' | 'kanban' | 'timeline'
 
 export function useViewMode(defaultMode: ViewMode = 'list'): [ViewMode, (mode: ViewMode) => void] {
   const [searchParams, setSearchParams] = useSearchParams()
@@ -0,0 +1,135 @@
+import { useState, useCallback, useMemo, useRef, useEffect } from 'react'
+import { useAtom } from 'jotai'
+import { kanbanWipSettingsAtom } from '@/atoms'
+import { workspacesApi } from '@/services'
+import { useToast } from './useToast'
+import { useWorkspaceSlug } from './useWorkspace'
+import type { BoardWipSettings, WipBoard, WipPolicy } from '@/types'
+
+export interface WipDropDecision {
+  allowed: boolean
+  /** Reason given to exceed the limit under the `justify` policy */
+  justification?: string
+}
+
+interface PendingJustification {
+  columnTitle: string
+  limit: number
+  resolve: (decision: WipDropDecision) => void
+}
+
+export interface WipJustifyDialogState {
+  open: boolean
+  columnTitle: string
+  limit: number
+  onConfirm: (justification: string) => void
+  onCancel: () => void
+}
+
+const DEFAULT_SETTINGS: BoardWipSettings = { limits: {}, policy: 'warn' }
+
+/** Only the task board keeps a justification (as a decision on the task) */
+const BOARD_POLICIES: Record<WipBoard, WipPolicy[]> = {
+  task: ['warn', 'block', 'justify'],
+  plan: ['warn', 'block'],
+  milestone: ['warn', 'block'],
+}
+
+/** Whether a column holding `count` cards is over (or exactly at) its limit */
+export function wipState(count: number, limit?: number): 'over' | 'full' | undefined {
+  if (limit === undefined) return undefined
+  if (count > limit) return 'over'
+  if (count === limit) return 'full'
+  return undefined
+}
+
+/**
+ * WIP limits of one kanban board in the active workspace (stored on the
+ * workspace, so the whole team shares them), and the drop gate enforcing
+ * its policy.
+ *
+ * `requestDrop` resolves immediately unless the target column is at its limit:
+ * `warn` lets the drop through (columns only show the warning), `block`
+ * refuses it with a toast, `justify` waits for the justification dialog.
+ *
+ * @example
+ * const wip = useWipLimits('task')
+ * const { allowed, justification } = await wip.requestDrop('in_progress', 'In Progress', total)
+ * if (!allowed) return
+ */
+export function useWipLimits(board: WipBoard) {
+  const wsSlug = useWorkspaceSlug()
+  const [allSettings, setAllSettings] = useAtom(kanbanWipSettingsAtom)
+  const [pending, setPending] = useState<PendingJustification | null>(null)
+  const toast = useToast()
+
+  // Refetched on every mount so limits changed by teammates show up
+  useEffect(() => {
+    let cancelled = false
+    workspacesApi
+      .getWipSettings(wsSlug)
+      .then((loaded) => {
+        if (!cancelled) setAllSettings((prev) => ({ ...prev, [wsSlug]: loaded || {} }))
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [wsSlug, setAllSettings])
+
+  const policies = BOARD_POLICIES[board]
+  const stored = allSettings[wsSlug]?.[board] ?? DEFAULT_SETTINGS
+  const settings = useMemo(
+    () => (policies.includes(stored.policy) ? stored : { ...stored, policy: 'warn' as const }),
+    [stored, policies],
+  )
+  const settingsRef = useRef(settings)
+  useEffect(() => { settingsRef.current = settings })
+
+  /** Replace the board's settings on the workspace; non-positive limits are dropped */
+  const saveSettings = useCallback(
+    async (next: BoardWipSettings) => {
+      const limits = Object.fromEntries(
+        Object.entries(next.limits)
+          .filter(([, limit]) => limit > 0)
+          .map(([status, limit]) => [status, Math.floor(limit)]),
+      )
+      const saved = await workspacesApi.updateWipSettings(wsSlug, board, { limits, policy: next.policy })
+      setAllSettings((prev) => ({ ...prev, [wsSlug]: { ...prev[wsSlug], [board]: saved?.limits ? saved : { limits, policy: next.policy } } }))
+    },
+    [setAllSettings, wsSlug, board],
+  )
+
+  const limitFor = useCallback((status: string): number | undefined => settings.limits[status], [settings])
+
+  const requestDrop = useCallback(
+    (status: string, columnTitle: string, count: number): Promise<WipDropDecision> => {
+      const { limits, policy } = settingsRef.current
+      const limit = limits[status]
+      if (limit === undefined || count < limit || policy === 'warn') return Promise.resolve({ allowed: true })
+
+      if (policy === 'block') {
+        toast.warning(`${columnTitle} is at its WIP limit (${limit})`)
+        return Promise.resolve({ allowed: false })
+      }
+      return new Promise((resolve) => setPending({ columnTitle, limit, resolve }))
+    },
+    [toast],
+  )
+
+  const justifyDialog: WipJustifyDialogState = {
+    open: pending !== null,
+    columnTitle: pending?.columnTitle ?? '',
+    limit: pending?.limit ?? 0,
+    onConfirm: (justification) => {
+      pending?.resolve({ allowed: true, justification })
+      setPending(null)
+    },
+    onCancel: () => {
+      pending?.resolve({ allowed: false })
+      setPending(null)
+    },
+  }
+
+  return { settings, policies, limitFor, saveSettings, requestDrop, justifyDialog }
+}
@@ -1,17 +1,22 @@
 import { useState, useEffect, useMemo, useCallback } from 'react'
 import { Outlet, NavLink, useLocation, useParams } from 'react-router-dom'
 import { useAtom, useAtomValue, useSetAtom } from 'jotai'
-import { Menu, Home, Flag, Box, ClipboardList, CheckCircle2, FileText, Code, ChevronLeft, ChevronRight, MessageCircle } from 'lucide-react'
-import { sidebarCollapsedAtom, chatPanelModeAtom, chatPanelWidthAtom, eventBusStatusAtom, workspacesAtom, activeWorkspaceAtom, workspaceRefreshAtom } from '@/atoms'
+import { Menu, Home, Flag, Box, ClipboardList, CheckCircle2, FileText, Code, ChevronLeft, ChevronRight, MessageCircle, Search, CloudOff, Activity, Bell } from 'lucide-react'
+import { sidebarCollapsedAtom, commandPaletteOpenAtom, shortcutCheatSheetOpenAtom, activityDrawerOpenAtom, notificationSettingsOpenAtom, chatPanelModeAtom, chatPanelWidthAtom, eventBusStatusAtom, eventBusLastSyncedAtom, offlineStateAtom, workspacesAtom, activeWorkspaceAtom, workspaceRefreshAtom } from '@/atoms'
 import { ToastContainer } from '@/components/ui'
 import { ChatPanel } from '@/components/chat'
 import { UserMenu } from '@/components/auth/UserMenu'
 import { WorkspaceSwitcher } from '@/components/WorkspaceSwitcher'
-import { useMediaQuery, useCrudEventRefresh, useDragRegion, useWindowFullscreen, useViewTransition } from '@/hooks'
+import { CommandPalette } from '@/components/CommandPalette'
+import { ShortcutCheatSheet } from '@/components/ShortcutCheatSheet'
+import { ActivityDrawer } from '@/components/ActivityDrawer'
+import { NotificationSettingsDialog } from '@/components/NotificationSettingsDialog'
+import { useMediaQuery, useCrudEventRefresh, useOfflineSync, useNotifications, useDragRegion, useWindowFullscreen, useViewTransition, useShortcuts, useUndoHistory } from '@/hooks'
 import type { NavDirection } from '@/hooks'
 import { isTauri } from '@/services/env'
 import { workspacesApi } from '@/services/workspaces'
 import { workspacePath } from '@/utils/paths'
+import { GLOBAL_SCOPE } from '@/utils/shortcuts'
 
 function SidebarContent({ collapsed, trafficLightPad, wsSlug, onNavClick }: { collapsed: boolean; trafficLightPad?: boolean; wsSlug: string; onNavClick?: (href: string, direction: NavDirection) => void }) {
   const location = useLocation()
@@ -22,6 +27,7 @@ function SidebarContent({ collapsed, trafficLightPad, wsSlug, onNavClick }: { co
         { name: 'Overview', href: workspacePath(wsSlug, '/overview'), icon: Home },
         { name: 'Projects', href: workspacePath(wsSlug, '/projects'), icon: Box },
         { name: 'Milestones', href: workspacePath(wsSlug, '/milestones'), icon: Flag },
+        { name: 'Activity', href: workspacePath(wsSlug, '/activity'), icon: Activity },
       ],
     },
     {
@@ -122,6 +128,10 @@ export function MainLayout() {
   const { slug: wsSlug } = useParams<{ slug: string }>()
   const [collapsed, setCollapsed] = useAtom(sidebarCollapsedAtom)
   const [chatMode, setChatMode] = useAtom(chatPanelModeAtom)
+  const setCommandPaletteOpen = useSetAtom(commandPaletteOpenAtom)
+  const setCheatSheetOpen = useSetAtom(shortcutCheatSheetOpenAtom)
+  const [activityOpen, setActivityOpen] = useAtom(activityDrawerOpenAtom)
+  const setNotificationSettingsOpen = useSetAtom(notificationSettingsOpenAtom)
   const [chatWidth] = useAtom(chatPanelWidthAtom)
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
   const location = useLocation()
@@ -129,6 +139,9 @@ export function MainLayout() {
   const chatOpen = chatMode === 'open'
   const chatFullscreen = chatMode === 'fullscreen'
   const wsStatus = useAtomValue(eventBusStatusAtom)
+  const lastSynced = useAtomValue(eventBusLastSyncedAtom)
+  const lastSyncedLabel = lastSynced?.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  const offlineState = useAtomValue(offlineStateAtom)
   const isWindowFullscreen = useWindowFullscreen()
   const setWorkspaces = useSetAtom(workspacesAtom)
   const activeWorkspace = useAtomValue(activeWorkspaceAtom)
@@ -149,6 +162,15 @@ export function MainLayout() {
   // Connect to WebSocket CRUD event bus and auto-refresh pages
   useCrudEventRefresh()
 
+  // Track API reachability and replay changes queued while offline
+  useOfflineSync()
+
+  // Ctrl+Z / Ctrl+Shift+Z over changes recorded by the services layer
+  useUndoHistory()
+
+  // Browser / desktop notifications for chat results, permission requests and task failures
+  useNotifications(wsSlug || '')
+
   // Enable native window dragging on the header bar (Tauri desktop)
   const onDragMouseDown = useDragRegion()
 
@@ -179,6 +201,21 @@ export function MainLayout() {
 
   const currentSlug = wsSlug || ''
 
+  // Application-wide shortcuts — pages register their own scopes on top
+  const goTo = (path: string) => () => vtNavigate(workspacePath(currentSlug, path))
+  useShortcuts(GLOBAL_SCOPE, [
+    { keys: 'mod+k', description: 'Command palette', handler: () => setCommandPaletteOpen((prev) => !prev), allowInInput: true },
+    { keys: '?', description: 'Keyboard shortcuts', handler: () => setCheatSheetOpen((prev) => !prev) },
+    { keys: 'g o', description: 'Go to overview', handler: goTo('/overview') },
+    { keys: 'g h', description: 'Go to projects', handler: goTo('/projects') },
+    { keys: 'g m', description: 'Go to milestones', handler: goTo('/milestones') },
+    { keys: 'g a', description: 'Go to activity', handler: goTo('/activity') },
+    { keys: 'g p', description: 'Go to plans', handler: goTo('/plans') },
+    { keys: 'g t', description: 'Go to tasks', handler: goTo('/tasks') },
+    { keys: 'g n', description: 'Go to notes', handler: goTo('/notes') },
+    { keys: 'g c', description: 'Go to code', handler: goTo('/code') },
+  ])
+
   return (
     <div className="flex min-h-0 flex-1 bg-surface-base">
       {/* Desktop Sidebar */}
@@ -265,13 +302,61 @@ export function MainLayout() {
                   ? 'bg-amber-400 animate-pulse'
                   : 'bg-gray-600'
             }`}
-            title={`WebSocket: ${wsStatus}`}
+            title={`WebSocket: ${wsStatus}${lastSyncedLabel ? ` — last synced ${lastSyncedLabel}` : ''}`}
           />
 
+          {/* Last synced time while live updates are interrupted */}
+          {wsStatus !== 'connected' && lastSyncedLabel && (
+            <span
+              className="hidden sm:inline shrink-0 mr-3 text-xs text-gray-500"
+              title="Live updates paused — missed changes are replayed on reconnect"
+            >
+              last synced {lastSyncedLabel}
+            </span>
+          )}
+
+          {/* Offline / pending changes indicator */}
+          {(!offlineState.online || offlineState.pending > 0) && (
+            <span
+              className="flex items-center gap-1.5 shrink-0 mr-3 px-2 py-0.5 rounded-full text-xs bg-amber-500/10 text-amber-400"
+              title={
+                offlineState.online
+                  ? 'Syncing changes made while offline'
+                  : 'Backend unreachable — showing cached data; changes are queued'
+              }
+            >
+              <CloudOff className="w-3.5 h-3.5" />
+              {offlineState.online ? 'syncing' : 'offline'}
+              {offlineState.pending > 0 &&
+                ` — ${offlineState.pending} pending change${offlineState.pending !== 1 ? 's' : ''}`}
+            </span>
+          )}
+
           <Breadcrumb pathname={location.pathname} workspaceName={activeWorkspace?.name} />
 
-          {/* Chat toggle (only icon in header right) */}
-          <div className="ml-auto flex items-center">
+          {/* Command palette + chat toggle */}
+          <div className="ml-auto flex items-center gap-1">
+            <button
+              onClick={() => setCommandPaletteOpen(true)}
+              className="p-2 rounded-lg text-gray-400 hover:text-gray-200 hover:bg-white/[0.06] transition-colors"
+              title="Search (Ctrl+K)"
+            >
+              <Search className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setActivityOpen(!activityOpen)}
+              className={`p-2 rounded-lg transition-colors ${activityOpen ? 'text-indigo-400 bg-indigo-500/10' : 'text-gray-400 hover:text-gray-200 hover:bg-white/[0.06]'}`}
+              title="Activity"
+            >
+              <Activity className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setNotificationSettingsOpen(true)}
+              className="p-2 rounded-lg text-gray-400 hover:text-gray-200 hover:bg-white/[0.06] transition-colors"
+              title="Notification settings"
+            >
+              <Bell className="w-5 h-5" />
+            </button>
             <button
               onClick={() => setChatMode(chatMode === 'closed' ? 'open' : 'closed')}
               className={`p-2 rounded-lg transition-colors ${chatMode !== 'closed' ? 'text-indigo-400 bg-indigo-500/10' : 'text-gray-400 hover:text-gray-200 hover:bg-white/[0.06]'}`}
@@ -297,6 +382,10 @@ export function MainLayout() {
       </main>
 
       <ChatPanel />
+      <CommandPalette />
+      <ShortcutCheatSheet />
+      <ActivityDrawer />
+      <NotificationSettingsDialog />
       <ToastContainer />
     </div>
   )
@@ -327,8 +416,15 @@ function Breadcrumb({ pathname, workspaceName }: { pathname: string; workspaceNa
       notes: 'Notes',
       milestones: 'Milestones',
       code: 'Code',
+      activity: 'Activity',
       'project-milestones': 'Milestones',
       'feature-graphs': 'Feature Graphs',
+      releases: 'Releases',
+      file: 'File',
+    }
+    // Encoded file paths (code explorer) show only the file name
+    if (s.includes('%2F')) {
+      return decodeURIComponent(s).split('/').pop() || s
     }
     return labels[s] || s.charAt(0).toUpperCase() + s.slice(1)
   }
@@ -337,6 +433,8 @@ function Breadcrumb({ pathname, workspaceName }: { pathname: string; workspaceNa
   const linkOverrides: Record<string, string> = {
     'project-milestones': 'milestones',
     'feature-graphs': 'code',
+    releases: 'projects',
+    file: 'code',
   }
 
   return (
@@ -0,0 +1,10 @@
+import { PageShell } from '@/components/ui'
+import { ActivityFeed } from '@/components/ActivityFeed'
+
+export function ActivityPage() {
+  return (
+    <PageShell title="Activity" description="Every change in this workspace, as it happens">
+      <ActivityFeed />
+    </PageShell>
+  )
+}
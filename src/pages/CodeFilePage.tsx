@@ -0,0 +1,521 @@
+import { useEffect, useState, useCallback } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { Code, ChevronRight, GitBranch } from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardContent, LoadingPage, ErrorState, Badge, Button, PageHeader, SectionNav, Spinner } from '@/components/ui'
+import type { ParentLink } from '@/components/ui/PageHeader'
+import { CallGraphView } from '@/components/CallGraphView'
+import { codeApi } from '@/services'
+import type { FileSymbols, FileDependencies, CallGraphNode } from '@/services'
+import { useSectionObserver, useWorkspaceSlug } from '@/hooks'
+import { workspacePath, codeFilePath } from '@/utils/paths'
+import type { FunctionNode, StructNode, TraitNode } from '@/types'
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function formatGenerics(generics: string[]): string {
+  return generics.length > 0 ? `<${generics.join(', ')}>` : ''
+}
+
+function formatFunctionSignature(fn: FunctionNode): string {
+  const modifiers = [fn.is_async && 'async', fn.is_unsafe && 'unsafe'].filter(Boolean).join(' ')
+  const params = (fn.params || [])
+    .map((p) => (p.type_annotation ? `${p.name}: ${p.type_annotation}` : p.name))
+    .join(', ')
+  const ret = fn.return_type ? ` -> ${fn.return_type}` : ''
+  return `${modifiers ? `${modifiers} ` : ''}fn ${fn.name}${formatGenerics(fn.generics || [])}(${params})${ret}`
+}
+
+function complexityVariant(complexity: number): 'success' | 'warning' | 'error' {
+  if (complexity <= 5) return 'success'
+  if (complexity <= 10) return 'warning'
+  return 'error'
+}
+
+function VisibilityBadge({ visibility }: { visibility: FunctionNode['visibility'] }) {
+  return (
+    <Badge variant={visibility === 'public' ? 'info' : 'default'} className="text-[10px]">
+      {visibility === 'public' ? 'pub' : visibility === 'private' ? 'priv' : `pub(${visibility})`}
+    </Badge>
+  )
+}
+
+function LineRange({ start, end }: { start: number; end: number }) {
+  return (
+    <span className="text-xs text-gray-500 font-mono shrink-0">
+      L{start}
+      {end > start ? `–${end}` : ''}
+    </span>
+  )
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function CodeFilePage() {
+  const params = useParams()
+  const filePath = params['*'] || ''
+  const wsSlug = useWorkspaceSlug()
+  const [symbols, setSymbols] = useState<FileSymbols | null>(null)
+  const [dependencies, setDependencies] = useState<FileDependencies | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Call graph state — trail keeps the navigation history so users can step back
+  const [graphTrail, setGraphTrail] = useState<string[]>([])
+  const [graphNodes, setGraphNodes] = useState<CallGraphNode[]>([])
+  const [graphLoading, setGraphLoading] = useState(false)
+  const graphFocus = graphTrail[graphTrail.length - 1] ?? null
+
+  const fetchData = useCallback(async () => {
+    if (!filePath) return
+    setError(null)
+    setLoading(true)
+    try {
+      const [symbolsData, depsData] = await Promise.all([
+        codeApi.getFileSymbols(filePath),
+        codeApi.getFileDependencies(filePath).catch(() => null),
+      ])
+      setSymbols(symbolsData)
+      setDependencies(depsData)
+    } catch (error) {
+      console.error('Failed to fetch file symbols:', error)
+      setError('Failed to load file symbols')
+    } finally {
+      setLoading(false)
+    }
+  }, [filePath])
+
+  useEffect(() => {
+    fetchData()
+    setGraphTrail([])
+    setGraphNodes([])
+  }, [fetchData])
+
+  // Load the call graph whenever the focused function changes
+  useEffect(() => {
+    if (!graphFocus) return
+    let cancelled = false
+    setGraphLoading(true)
+    codeApi
+      .getCallGraph(graphFocus, 50)
+      .then((data) => {
+        if (!cancelled) setGraphNodes(data.nodes || [])
+      })
+      .catch(() => {
+        if (!cancelled) setGraphNodes([])
+      })
+      .finally(() => {
+        if (!cancelled) setGraphLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [graphFocus])
+
+  const openCallGraph = useCallback((name: string) => {
+    setGraphTrail([name])
+    // Defer so the section is rendered before scrolling to it
+    setTimeout(() => document.getElementById('callgraph')?.scrollIntoView({ behavior: 'smooth' }), 50)
+  }, [])
+
+  const navigateGraph = useCallback((name: string) => {
+    setGraphTrail((prev) => [...prev, name])
+  }, [])
+
+  const functions = symbols?.functions || []
+  const structs = symbols?.structs || []
+  const traits = symbols?.traits || []
+  const imports = dependencies?.imports || []
+  const dependents = dependencies?.dependents || []
+
+  const sectionIds = ['functions', 'types', ...(graphFocus ? ['callgraph'] : []), 'dependencies']
+  const activeSection = useSectionObserver(sectionIds)
+
+  if (!filePath) {
+    return <ErrorState title="No file selected" description="Open a file from the code search or architecture view." />
+  }
+  if (error) return <ErrorState title="Failed to load" description={error} onRetry={fetchData} />
+  if (loading || !symbols) return <LoadingPage />
+
+  const fileName = filePath.split('/').pop() || filePath
+
+  const sections = [
+    { id: 'functions', label: 'Functions', count: functions.length },
+    { id: 'types', label: 'Structs & Traits', count: structs.length + traits.length },
+    ...(graphFocus ? [{ id: 'callgraph', label: 'Call Graph' }] : []),
+    { id: 'dependencies', label: 'Dependencies', count: imports.length + dependents.length },
+  ]
+
+  const parentLinks: ParentLink[] = [
+    { icon: Code, label: 'Code', name: 'Explorer', href: workspacePath(wsSlug, '/code') },
+  ]
+
+  return (
+    <div className="pt-6 space-y-6">
+      <PageHeader
+        title={fileName}
+        parentLinks={parentLinks}
+        metadata={[
+          { label: 'Functions', value: String(functions.length) },
+          { label: 'Structs', value: String(structs.length) },
+          { label: 'Traits', value: String(traits.length) },
+        ]}
+      >
+        <span className="text-xs text-gray-500 font-mono break-all">{filePath}</span>
+      </PageHeader>
+
+      <SectionNav sections={sections} activeSection={activeSection} />
+
+      {/* Functions */}
+      <section id="functions" className="scroll-mt-20">
+      <Card>
+        <CardHeader>
+          <CardTitle>Functions ({functions.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {functions.length === 0 ? (
+            <p className="text-gray-500 text-sm">No functions in this file</p>
+          ) : (
+            <div className="space-y-2">
+              {functions.map((fn) => (
+                <FunctionRow
+                  key={`${fn.name}-${fn.line_start}`}
+                  fn={fn}
+                  active={graphFocus === fn.name}
+                  onOpenCallGraph={() => openCallGraph(fn.name)}
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      </section>
+
+      {/* Structs & Traits */}
+      <section id="types" className="scroll-mt-20">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Structs ({structs.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {structs.length === 0 ? (
+              <p className="text-gray-500 text-sm">No structs in this file</p>
+            ) : (
+              <div className="space-y-2">
+                {structs.map((s) => (
+                  <StructRow key={`${s.name}-${s.line_start}`} struct={s} />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Traits ({traits.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {traits.length === 0 ? (
+              <p className="text-gray-500 text-sm">No traits in this file</p>
+            ) : (
+              <div className="space-y-2">
+                {traits.map((t) => (
+                  <TraitRow key={`${t.name}-${t.line_start}`} trait={t} />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      </section>
+
+      {/* Call Graph */}
+      {graphFocus && (
+        <section id="callgraph" className="scroll-mt-20">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2 w-full">
+              <CardTitle>Call Graph</CardTitle>
+              <div className="flex items-center gap-1 min-w-0 overflow-x-auto text-xs font-mono">
+                {graphTrail.map((name, index) => {
+                  const isLast = index === graphTrail.length - 1
+                  return (
+                    <span key={`${name}-${index}`} className="flex items-center gap-1 shrink-0">
+                      {index > 0 && <ChevronRight className="w-3 h-3 text-gray-600" />}
+                      <button
+                        onClick={() => setGraphTrail((prev) => prev.slice(0, index + 1))}
+                        disabled={isLast}
+                        className={isLast ? 'text-gray-200' : 'text-gray-500 hover:text-indigo-400 transition-colors'}
+                      >
+                        {name}
+                      </button>
+                    </span>
+                  )
+                })}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {graphLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Spinner />
+              </div>
+            ) : (
+              <CallGraphView focus={graphFocus} nodes={graphNodes} onSelect={navigateGraph} />
+            )}
+          </CardContent>
+        </Card>
+        </section>
+      )}
+
+      {/* Dependencies */}
+      <section id="dependencies" className="scroll-mt-20">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+        <FileListCard title="Imports" emptyLabel="This file imports nothing" files={imports} />
+        <FileListCard title="Dependents" emptyLabel="No files depend on this file" files={dependents} />
+      </div>
+      </section>
+    </div>
+  )
+}
+
+// ============================================================================
+// ROWS
+// ============================================================================
+
+function FunctionRow({
+  fn,
+  active,
+  onOpenCallGraph,
+}: {
+  fn: FunctionNode
+  active: boolean
+  onOpenCallGraph: () => void
+}) {
+  const wsSlug = useWorkspaceSlug()
+  const [expanded, setExpanded] = useState(false)
+  const [references, setReferences] = useState<{ file_path: string; line: number; context: string }[] | null>(null)
+
+  const toggleReferences = async () => {
+    if (!expanded && references === null) {
+      setExpanded(true)
+      try {
+        const data = await codeApi.findReferences(fn.name, 20)
+        setReferences(data.items || [])
+      } catch {
+        setReferences([])
+      }
+      return
+    }
+    setExpanded(!expanded)
+  }
+
+  return (
+    <div className={`rounded-lg overflow-hidden ${active ? 'bg-indigo-500/10 ring-1 ring-indigo-500/30' : 'bg-white/[0.06]'}`}>
+      <div className="flex items-start gap-2 p-3">
+        <button
+          onClick={toggleReferences}
+          className="flex-shrink-0 w-6 h-6 flex items-center justify-center text-gray-500 hover:text-gray-300 transition-colors"
+          title={expanded ? 'Hide references' : 'Show references'}
+        >
+          <ChevronRight className={`w-4 h-4 transition-transform duration-150 ${expanded ? 'rotate-90' : ''}`} />
+        </button>
+        <div className="flex-1 min-w-0">
+          <code className="block text-sm text-gray-200 font-mono break-all">{formatFunctionSignature(fn)}</code>
+          {fn.docstring && <p className="text-xs text-gray-500 mt-1 line-clamp-2">{fn.docstring}</p>}
+          <div className="flex flex-wrap items-center gap-1.5 mt-2">
+            <VisibilityBadge visibility={fn.visibility} />
+            {fn.is_async && <Badge variant="purple" className="text-[10px]">async</Badge>}
+            {fn.is_unsafe && <Badge variant="error" className="text-[10px]">unsafe</Badge>}
+            <Badge variant={complexityVariant(fn.complexity)} className="text-[10px]">
+              complexity {fn.complexity}
+            </Badge>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <LineRange start={fn.line_start} end={fn.line_end} />
+          <Button variant="ghost" size="sm" onClick={onOpenCallGraph} title="Show callers and callees">
+            <GitBranch className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      {expanded && (
+        <div className="pl-11 pr-3 pb-3 space-y-1">
+          {references === null ? (
+            <div className="text-xs text-gray-500 py-2">Loading references...</div>
+          ) : references.length === 0 ? (
+            <div className="text-xs text-gray-500 py-1">No references found</div>
+          ) : (
+            references.map((ref, index) => (
+              <Link
+                key={`${ref.file_path}-${ref.line}-${index}`}
+                to={codeFilePath(wsSlug, ref.file_path)}
+                className="flex items-center gap-2 py-1.5 px-2 rounded bg-white/[0.03] hover:bg-white/[0.06] transition-colors min-w-0"
+              >
+                <span className="text-xs text-indigo-400 font-mono shrink-0">
+                  {ref.file_path.split('/').pop()}:{ref.line}
+                </span>
+                <span className="text-xs text-gray-400 font-mono truncate">{ref.context}</span>
+              </Link>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function StructRow({ struct }: { struct: StructNode }) {
+  const wsSlug = useWorkspaceSlug()
+  const [expanded, setExpanded] = useState(false)
+  const [implBlocks, setImplBlocks] = useState<{ file_path: string; line_start: number; line_end: number; methods: string[] }[] | null>(null)
+
+  const toggle = async () => {
+    if (!expanded && implBlocks === null) {
+      setExpanded(true)
+      try {
+        const data = await codeApi.getImplBlocks(struct.name, 20)
+        setImplBlocks(data.items || [])
+      } catch {
+        setImplBlocks([])
+      }
+      return
+    }
+    setExpanded(!expanded)
+  }
+
+  return (
+    <div className="bg-white/[0.06] rounded-lg overflow-hidden">
+      <button onClick={toggle} className="w-full flex items-center gap-2 p-3 text-left">
+        <ChevronRight className={`w-4 h-4 shrink-0 text-gray-500 transition-transform duration-150 ${expanded ? 'rotate-90' : ''}`} />
+        <code className="flex-1 min-w-0 text-sm text-gray-200 font-mono truncate">
+          struct {struct.name}
+          {formatGenerics(struct.generics || [])}
+        </code>
+        <VisibilityBadge visibility={struct.visibility} />
+        <LineRange start={struct.line_start} end={struct.line_end} />
+      </button>
+      {expanded && (
+        <div className="pl-9 pr-3 pb-3 space-y-1">
+          {implBlocks === null ? (
+            <div className="text-xs text-gray-500 py-2">Loading impl blocks...</div>
+          ) : implBlocks.length === 0 ? (
+            <div className="text-xs text-gray-500 py-1">No impl blocks found</div>
+          ) : (
+            implBlocks.map((block, index) => (
+              <div key={`${block.file_path}-${block.line_start}-${index}`} className="py-1.5 px-2 rounded bg-white/[0.03]">
+                <Link
+                  to={codeFilePath(wsSlug, block.file_path)}
+                  className="text-xs text-indigo-400 font-mono hover:text-indigo-300 transition-colors"
+                >
+                  {block.file_path.split('/').pop()}:{block.line_start}
+                </Link>
+                {block.methods.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {block.methods.map((method) => (
+                      <span key={method} className="px-1.5 py-0.5 bg-white/[0.06] rounded text-[11px] text-gray-300 font-mono">
+                        {method}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function TraitRow({ trait }: { trait: TraitNode }) {
+  const wsSlug = useWorkspaceSlug()
+  const [expanded, setExpanded] = useState(false)
+  const [implementors, setImplementors] = useState<{ type_name: string; file_path: string; line: number }[] | null>(null)
+
+  const toggle = async () => {
+    if (!expanded && implementors === null) {
+      setExpanded(true)
+      try {
+        const data = await codeApi.findTraitImplementations(trait.name, 20)
+        setImplementors(data.items || [])
+      } catch {
+        setImplementors([])
+      }
+      return
+    }
+    setExpanded(!expanded)
+  }
+
+  return (
+    <div className="bg-white/[0.06] rounded-lg overflow-hidden">
+      <button onClick={toggle} className="w-full flex items-center gap-2 p-3 text-left">
+        <ChevronRight className={`w-4 h-4 shrink-0 text-gray-500 transition-transform duration-150 ${expanded ? 'rotate-90' : ''}`} />
+        <code className="flex-1 min-w-0 text-sm text-gray-200 font-mono truncate">
+          trait {trait.name}
+          {formatGenerics(trait.generics || [])}
+        </code>
+        {trait.is_external && <Badge className="text-[10px]">external</Badge>}
+        <VisibilityBadge visibility={trait.visibility} />
+        <LineRange start={trait.line_start} end={trait.line_end} />
+      </button>
+      {expanded && (
+        <div className="pl-9 pr-3 pb-3 space-y-1">
+          {implementors === null ? (
+            <div className="text-xs text-gray-500 py-2">Loading implementations...</div>
+          ) : implementors.length === 0 ? (
+            <div className="text-xs text-gray-500 py-1">No implementations found</div>
+          ) : (
+            implementors.map((impl, index) => (
+              <Link
+                key={`${impl.type_name}-${index}`}
+                to={codeFilePath(wsSlug, impl.file_path)}
+                className="flex items-center justify-between gap-2 py-1.5 px-2 rounded bg-white/[0.03] hover:bg-white/[0.06] transition-colors"
+              >
+                <span className="text-xs text-gray-200 font-mono truncate">{impl.type_name}</span>
+                <span className="text-xs text-gray-500 font-mono shrink-0">
+                  {impl.file_path.split('/').pop()}:{impl.line}
+                </span>
+              </Link>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function FileListCard({ title, emptyLabel, files }: { title: string; emptyLabel: string; files: string[] }) {
+  const wsSlug = useWorkspaceSlug()
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          {title} ({files.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {files.length === 0 ? (
+          <p className="text-gray-500 text-sm">{emptyLabel}</p>
+        ) : (
+          <div className="space-y-1">
+            {files.map((file) => (
+              <Link
+                key={file}
+                to={codeFilePath(wsSlug, file)}
+                className="block font-mono text-sm text-gray-300 p-1 truncate hover:text-indigo-400 transition-colors"
+                title={file}
+              >
+                {file}
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
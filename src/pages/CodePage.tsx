@@ -1,8 +1,11 @@
 import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
 import { Card, CardHeader, CardTitle, CardContent, Button, SearchInput, LoadingPage, EmptyState, Select, PageShell, ErrorState } from '@/components/ui'
 import { codeApi, workspacesApi } from '@/services'
 import type { SearchResult, ArchitectureOverview } from '@/services'
 import { useWorkspaceSlug } from '@/hooks'
+import { codeFilePath } from '@/utils/paths'
+import { ImpactPanel } from '@/components/ImpactPanel'
 
 export function CodePage() {
   const wsSlug = useWorkspaceSlug()
@@ -12,7 +15,11 @@ export function CodePage() {
   const [loading, setLoading] = useState(false)
   const [searchError, setSearchError] = useState<string | null>(null)
   const [archError, setArchError] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'search' | 'architecture'>('search')
+  const [activeTab, setActiveTab] = useState<'search' | 'architecture' | 'impact'>('search')
+
+  // Impact analysis — the input is only analyzed on submit
+  const [impactInput, setImpactInput] = useState('')
+  const [impactTarget, setImpactTarget] = useState<string | null>(null)
 
   // Project filter
   const [projects, setProjects] = useState<{ slug: string; name: string }[]>([])
@@ -96,6 +103,12 @@ export function CodePage() {
           >
             Architecture
           </Button>
+          <Button
+            variant={activeTab === 'impact' ? 'primary' : 'secondary'}
+            onClick={() => setActiveTab('impact')}
+          >
+            Impact
+          </Button>
         </div>
       }
     >
@@ -148,9 +161,12 @@ export function CodePage() {
                 <Card key={result.document.id}>
                   <CardContent>
                     <div className="flex items-center justify-between mb-2">
-                      <span className="font-mono text-sm text-indigo-400 truncate flex-1 mr-4">
+                      <Link
+                        to={codeFilePath(wsSlug, result.document.path)}
+                        className="font-mono text-sm text-indigo-400 hover:text-indigo-300 truncate flex-1 mr-4 transition-colors"
+                      >
                         {result.document.path}
-                      </span>
+                      </Link>
                       <div className="flex items-center gap-3 shrink-0">
                         <span className="text-xs text-gray-500 capitalize">{result.document.language}</span>
                         <span className="text-xs text-green-400">
@@ -257,16 +273,17 @@ export function CodePage() {
                   ) : (
                     <div className="space-y-2">
                       {architecture.key_files.map((file) => (
-                        <div
+                        <Link
                           key={file.path}
-                          className="flex items-center justify-between p-2 bg-white/[0.06] rounded"
+                          to={codeFilePath(wsSlug, file.path)}
+                          className="flex items-center justify-between p-2 bg-white/[0.06] hover:bg-white/[0.1] rounded transition-colors"
                         >
                           <span className="font-mono text-sm text-gray-200 truncate flex-1 mr-4">{file.path}</span>
                           <div className="flex gap-4 text-sm shrink-0">
                             <span className="text-indigo-400">{file.dependents} dependents</span>
                             <span className="text-green-400">{file.imports} imports</span>
                           </div>
-                        </div>
+                        </Link>
                       ))}
                     </div>
                   )}
@@ -300,6 +317,46 @@ export function CodePage() {
           )}
         </div>
       )}
+
+      {activeTab === 'impact' && (
+        <div className="space-y-6">
+          <Card>
+            <CardContent>
+              <div className="flex gap-4">
+                <SearchInput
+                  value={impactInput}
+                  onChange={(e) => setImpactInput(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && impactInput.trim() && setImpactTarget(impactInput.trim())}
+                  placeholder="File path or symbol, e.g. src/api/handlers.rs"
+                  className="flex-1"
+                />
+                <Button onClick={() => setImpactTarget(impactInput.trim())} disabled={!impactInput.trim()}>
+                  Analyze
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {!impactTarget ? (
+            <EmptyState
+              variant="search"
+              title="Analyze blast radius"
+              description="Enter a file or symbol to see its dependents, affected tests and risk before editing it."
+            />
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  Impact of <span className="font-mono text-indigo-400">{impactTarget}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ImpactPanel target={impactTarget} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
     </PageShell>
   )
 }
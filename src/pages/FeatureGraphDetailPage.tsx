@@ -13,6 +13,7 @@ import {
   PageHeader,
 } from '@/components/ui'
 import type { ParentLink } from '@/components/ui/PageHeader'
+import { EntityNotesCard } from '@/components/EntityNotesCard'
 import { featureGraphsApi, projectsApi } from '@/services'
 import { useConfirmDialog, useToast, useWorkspaceSlug } from '@/hooks'
 import { workspacePath } from '@/utils/paths'
@@ -307,6 +308,9 @@ export function FeatureGraphDetailPage() {
         </Card>
       )}
 
+      {/* Knowledge notes */}
+      <EntityNotesCard entityType="feature_graph" entityId={detail.id} projectId={detail.project_id} />
+
       <ConfirmDialog {...confirmDialog.dialogProps} />
     </div>
   )
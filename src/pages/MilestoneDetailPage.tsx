@@ -4,10 +4,12 @@ import { useAtomValue } from 'jotai'
 import { ChevronsUpDown } from 'lucide-react'
 import { Card, CardHeader, CardTitle, CardContent, LoadingPage, ErrorState, Badge, Button, ConfirmDialog, LinkEntityDialog, ProgressBar, ViewToggle, PageHeader, StatusSelect, SectionNav } from '@/components/ui'
 import { ExpandablePlanRow, ExpandableTaskRow } from '@/components/expandable'
-import { workspacesApi, plansApi, tasksApi } from '@/services'
+import { workspacesApi, plansApi, tasksApi, isAbortError } from '@/services'
 import { PlanKanbanBoard } from '@/components/kanban'
-import { useViewMode, useConfirmDialog, useLinkDialog, useToast, useSectionObserver, useWorkspaceSlug, useViewTransition } from '@/hooks'
+import { AnalyticsPanel } from '@/components/AnalyticsPanel'
+import { useViewMode, useConfirmDialog, useLinkDialog, useToast, useSectionObserver, useWorkspaceSlug, useViewTransition, useLatestSignal, useEntityPatches, patchEntityList } from '@/hooks'
 import { workspacePath } from '@/utils/paths'
+import { statusChangeLabel } from '@/utils/undo'
 import { milestoneRefreshAtom, planRefreshAtom, taskRefreshAtom, projectRefreshAtom } from '@/atoms'
 import type { MilestoneDetail, MilestoneProgress, Plan, Project, Task, MilestoneStatus, PlanStatus, PaginatedResponse } from '@/types'
 
@@ -37,15 +39,19 @@ export function MilestoneDetailPage() {
   const [tasksCollapseAll, setTasksCollapseAll] = useState(0)
   const [tasksAllExpanded, setTasksAllExpanded] = useState(false)
 
+  const nextSignal = useLatestSignal()
+
   const refreshData = useCallback(async () => {
     if (!milestoneId) return
+    const signal = nextSignal()
     setError(null)
     // Only show loading spinner on initial load, not on WS-triggered refreshes
     const isInitialLoad = !milestone
     if (isInitialLoad) setLoading(true)
     try {
       // The enriched endpoint returns milestone + plans → tasks → steps + progress
-      const milestoneData = await workspacesApi.getMilestone(milestoneId)
+      const milestoneData = await workspacesApi.getMilestone(milestoneId, { signal })
+      if (signal.aborted) return
       setMilestone(milestoneData)
 
       // Progress comes directly from the enriched response
@@ -94,25 +100,37 @@ export function MilestoneDetailPage() {
         }
       }
     } catch (error) {
+      if (isAbortError(error)) return
       console.error('Failed to fetch milestone:', error)
       setError('Failed to load milestone')
     } finally {
-      if (isInitialLoad) setLoading(false)
+      if (isInitialLoad && !signal.aborted) setLoading(false)
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps -- milestone is a data object (would cause infinite loop)
-  }, [milestoneId, milestoneRefresh, planRefresh, taskRefresh, projectRefresh])
+  }, [milestoneId, milestoneRefresh, planRefresh, taskRefresh, projectRefresh, nextSignal])
 
   useEffect(() => {
     refreshData()
   }, [refreshData])
 
+  // Live updates from the entity store: tasks and plans are patched in place;
+  // status changes refetch through the refresh counters, since progress is
+  // aggregated server-side
+  useEntityPatches(['plan', 'task'], (record) => {
+    if (record.entityType === 'plan') setPlans((prev) => patchEntityList(prev, record))
+    else setMilestoneTasks((prev) => patchEntityList(prev, record))
+  })
+
   const handlePlanStatusChange = useCallback(
-    async (planId: string, newStatus: PlanStatus) => {
+    async (planId: string, newStatus: PlanStatus, previous: Plan) => {
       const original = plans.find((p) => p.id === planId)
       setPlans((prev) => prev.map((p) => (p.id === planId ? { ...p, status: newStatus } : p)))
       try {
-        await plansApi.updateStatus(planId, newStatus)
-        toast.success('Status updated')
+        await plansApi.updateStatus(planId, newStatus, {
+          label: statusChangeLabel('plan', previous.title, newStatus),
+          previous: previous.status,
+        })
+        toast.success('Status updated', { undoable: true })
       } catch (error) {
         if (original) {
           setPlans((prev) => prev.map((p) => (p.id === planId ? original : p)))
@@ -136,7 +154,7 @@ export function MilestoneDetailPage() {
     [plans],
   )
 
-  const sectionIds = ['progress', 'plans', 'tasks', 'projects']
+  const sectionIds = ['progress', 'plans', 'tasks', 'analytics', 'projects']
   const activeSection = useSectionObserver(sectionIds)
 
   if (error) return <ErrorState title="Failed to load" description={error} onRetry={refreshData} />
@@ -147,6 +165,7 @@ export function MilestoneDetailPage() {
     { id: 'progress', label: 'Progress' },
     { id: 'plans', label: 'Plans', count: plans.length },
     { id: 'tasks', label: 'Tasks', count: milestoneTasks.length },
+    { id: 'analytics', label: 'Analytics' },
     { id: 'projects', label: 'Projects', count: projects.length },
   ]
 
@@ -272,9 +291,12 @@ export function MilestoneDetailPage() {
                   key={plan.id}
                   plan={plan}
                   onStatusChange={async (newStatus: PlanStatus) => {
-                    await plansApi.updateStatus(plan.id, newStatus)
+                    await plansApi.updateStatus(plan.id, newStatus, {
+                      label: statusChangeLabel('plan', plan.title, newStatus),
+                      previous: plan.status,
+                    })
                     setPlans(prev => prev.map(p => p.id === plan.id ? { ...p, status: newStatus } : p))
-                    toast.success('Status updated')
+                    toast.success('Status updated', { undoable: true })
                   }}
                   refreshTrigger={taskRefresh}
                   expandAllSignal={plansExpandAll}
@@ -344,6 +366,18 @@ export function MilestoneDetailPage() {
       </Card>
       </section>
 
+      {/* Analytics */}
+      <section id="analytics" className="scroll-mt-20">
+      <Card>
+        <CardHeader>
+          <CardTitle>Analytics</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AnalyticsPanel tasks={milestoneTasks} targetDate={milestone.target_date} />
+        </CardContent>
+      </Card>
+      </section>
+
       {/* Projects (always visible) */}
       <section id="projects" className="scroll-mt-20">
       <Card>
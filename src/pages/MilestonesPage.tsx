@@ -3,13 +3,15 @@ import { useAtomValue } from 'jotai'
 import { Link } from 'react-router-dom'
 import { motion, AnimatePresence } from 'motion/react'
 import { milestoneRefreshAtom, workspaceRefreshAtom, activeWorkspaceAtom } from '@/atoms'
-import { Card, EmptyState, Badge, ProgressBar, InteractiveMilestoneStatusBadge, ViewToggle, Select, ConfirmDialog, OverflowMenu, PageShell, SelectZone, BulkActionBar, SkeletonCard, ErrorState } from '@/components/ui'
+import { Card, CardContent, EmptyState, Badge, ProgressBar, InteractiveMilestoneStatusBadge, ViewToggle, Select, ConfirmDialog, OverflowMenu, PageShell, SelectZone, BulkActionBar, SkeletonCard, ErrorState } from '@/components/ui'
 import { workspacesApi, projectsApi } from '@/services'
-import { useViewMode, useConfirmDialog, useToast, useMultiSelect, useWorkspaceSlug, useViewTransition } from '@/hooks'
+import { useViewMode, useConfirmDialog, useToast, useMultiSelect, useWorkspaceSlug, useViewTransition, useCardNavigation } from '@/hooks'
 import { MilestoneKanbanBoard } from '@/components/kanban'
+import { TimelineView } from '@/components/TimelineView'
+import type { TimelineItem, TimelineMarker } from '@/components/TimelineView'
 import { fadeInUp, staggerContainer, useReducedMotion } from '@/utils/motion'
 import type { MilestoneWithProgress } from '@/components/kanban'
-import type { MilestoneStatus } from '@/types'
+import type { MilestoneStatus, Task } from '@/types'
 
 const statusOptions = [
   { value: 'all', label: 'All Status' },
@@ -38,6 +40,10 @@ export function MilestonesPage() {
   const msRefresh = useAtomValue(milestoneRefreshAtom)
   const wsRefresh = useAtomValue(workspaceRefreshAtom)
 
+  // Timeline view: earliest task start per milestone + release markers, loaded on demand
+  const [taskStarts, setTaskStarts] = useState<Record<string, string>>({})
+  const [releaseMarkers, setReleaseMarkers] = useState<TimelineMarker[]>([])
+
   const loadMilestones = useCallback(async () => {
     const isInitialLoad = allMilestones.length === 0
     if (isInitialLoad) setLoading(true)
@@ -148,8 +154,121 @@ export function MilestonesPage() {
     [allMilestones],
   )
 
+  const milestoneKey = allMilestones.map((m) => m.id).join(',')
+
+  useEffect(() => {
+    if (viewMode !== 'timeline' || allMilestones.length === 0) return
+    let cancelled = false
+    ;(async () => {
+      const earliestStart = (tasks: Task[]) =>
+        tasks
+          .map((t) => t.started_at)
+          .filter((d): d is string => !!d)
+          .sort()[0]
+
+      const starts = await Promise.all(
+        allMilestones.map(async (m) => {
+          const isProjectMilestone = m.tags?.some((t) => t.startsWith('project:'))
+          try {
+            const tasks = isProjectMilestone
+              ? (await projectsApi.getMilestone(m.id)).tasks || []
+              : await workspacesApi.listMilestoneTasks(m.id)
+            return [m.id, earliestStart(Array.isArray(tasks) ? tasks : [])] as const
+          } catch {
+            return [m.id, undefined] as const
+          }
+        }),
+      )
+
+      const markers: TimelineMarker[] = []
+      try {
+        const projects = await workspacesApi.listProjects(wsSlug)
+        const releaseLists = await Promise.all(
+          projects.map((p) => projectsApi.listReleases(p.id).catch(() => ({ items: [] }))),
+        )
+        releaseLists.forEach((list, index) => {
+          for (const release of list.items || []) {
+            const date = release.released_at || release.target_date
+            if (!date || release.status === 'cancelled') continue
+            markers.push({
+              id: release.id,
+              label: projects.length > 1 ? `${projects[index].name} v${release.version}` : `v${release.version}`,
+              date,
+              done: release.status === 'released',
+            })
+          }
+        })
+      } catch {
+        // No releases
+      }
+
+      if (cancelled) return
+      setTaskStarts(Object.fromEntries(starts.filter(([, start]) => start)) as Record<string, string>)
+      setReleaseMarkers(markers)
+    })()
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- refetch only when the milestone set changes, not on local edits
+  }, [viewMode, milestoneKey, wsSlug])
+
+  const timelineItems = useMemo<TimelineItem[]>(
+    () =>
+      filteredMilestones
+        .map((m) => {
+          const isProjectMilestone = m.tags?.some((t) => t.startsWith('project:'))
+          return {
+            id: m.id,
+            title: m.title,
+            href: `/workspace/${wsSlug}/${isProjectMilestone ? 'project-milestones' : 'milestones'}/${m.id}`,
+            status: m.status?.toLowerCase() || 'open',
+            start: taskStarts[m.id] || m.created_at,
+            target: m.target_date,
+            progress: m.progress?.percentage,
+          }
+        })
+        .sort((a, b) => a.start.localeCompare(b.start)),
+    [filteredMilestones, taskStarts, wsSlug],
+  )
+
+  const handleTargetDateChange = useCallback(
+    async (milestoneId: string, targetDate: Date) => {
+      const original = allMilestones.find((m) => m.id === milestoneId)
+      const isProjectMilestone = original?.tags?.some((t) => t.startsWith('project:'))
+      const target_date = targetDate.toISOString()
+      setAllMilestones((prev) =>
+        prev.map((m) => (m.id === milestoneId ? { ...m, target_date } : m))
+      )
+      try {
+        if (isProjectMilestone) {
+          await projectsApi.updateMilestone(milestoneId, { target_date })
+        } else {
+          await workspacesApi.updateMilestone(milestoneId, { target_date })
+        }
+        toast.success(`Target date moved to ${targetDate.toLocaleDateString()}`)
+      } catch {
+        if (original) {
+          setAllMilestones((prev) =>
+            prev.map((m) => (m.id === milestoneId ? original : m))
+          )
+        }
+        toast.error('Failed to update target date')
+      }
+    },
+    [allMilestones, toast],
+  )
+
   const multiSelect = useMultiSelect(filteredMilestones, (m) => m.id)
 
+  useCardNavigation('Milestones', {
+    onOpen: (id) => {
+      const milestone = filteredMilestones.find((m) => m.id === id)
+      const isProjectMilestone = milestone?.tags?.some((t) => t.startsWith('project:'))
+      navigate(`/workspace/${wsSlug}/${isProjectMilestone ? 'project-milestones' : 'milestones'}/${id}`, { type: 'card-click' })
+    },
+    onToggleSelect: viewMode === 'list' ? (id) => multiSelect.toggle(id) : undefined,
+  })
+
   const handleBulkDelete = () => {
     const count = multiSelect.selectionCount
     confirmDialog.open({
@@ -183,7 +302,7 @@ export function MilestonesPage() {
       title="Milestones"
       description="Track milestones for this workspace"
       actions={
-        <ViewToggle value={viewMode} onChange={setViewMode} />
+        <ViewToggle value={viewMode} onChange={setViewMode} modes={['list', 'kanban', 'timeline']} />
       }
     >
       {/* Filters */}
@@ -194,7 +313,7 @@ export function MilestonesPage() {
           onChange={(value) => setSourceFilter(value)}
           className="w-full sm:w-40"
         />
-        {viewMode === 'list' && (
+        {viewMode !== 'kanban' && (
           <Select
             options={statusOptions}
             value={statusFilter}
@@ -218,6 +337,21 @@ export function MilestonesPage() {
           onMilestoneStatusChange={handleStatusChange}
           onMilestoneClick={(id) => navigate(`/workspace/${wsSlug}/milestones/${id}`, { type: 'card-click' })}
         />
+      ) : viewMode === 'timeline' ? (
+        error ? (
+          <ErrorState title="Failed to load" description={error} onRetry={loadMilestones} />
+        ) : (
+          <Card>
+            <CardContent className="pt-5">
+              <TimelineView
+                items={timelineItems}
+                markers={releaseMarkers}
+                onTargetDateChange={handleTargetDateChange}
+                emptyMessage={loading ? 'Loading milestones…' : 'No milestones match the current filters.'}
+              />
+            </CardContent>
+          </Card>
+        )
       ) : showListSkeleton ? (
         <div className="space-y-4">
           {Array.from({ length: 3 }).map((_, i) => (
@@ -318,7 +452,7 @@ function MilestoneCard({
     : `/workspace/${wsSlug}/milestones/${milestone.id}`
 
   return (
-    <Link to={detailPath}>
+    <Link to={detailPath} data-nav-id={milestone.id} className="block rounded-xl outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/60">
       <Card className={`transition-colors ${selected ? 'border-indigo-500/40 bg-indigo-500/[0.05]' : 'hover:border-indigo-500'}`}>
         <div className="flex">
           {onToggleSelect && (
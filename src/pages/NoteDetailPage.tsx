@@ -0,0 +1,423 @@
+import { useEffect, useState, useCallback } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { useAtomValue } from 'jotai'
+import { CheckCircle2, XCircle, FolderKanban, GitCommitVertical } from 'lucide-react'
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  LoadingPage,
+  ErrorState,
+  Button,
+  Badge,
+  ConfirmDialog,
+  FormDialog,
+  PageHeader,
+  SectionNav,
+  ImportanceBadge,
+  InteractiveNoteStatusBadge,
+  CollapsibleMarkdown,
+} from '@/components/ui'
+import type { ParentLink } from '@/components/ui/PageHeader'
+import { CreateNoteForm } from '@/components/forms'
+import { notesApi, workspacesApi, isAbortError } from '@/services'
+import { useConfirmDialog, useFormDialog, useToast, useSectionObserver, useWorkspaceSlug, useLatestSignal, useEntityPatches, patchEntity, patchEntityList } from '@/hooks'
+import { workspacePath, codeFilePath } from '@/utils/paths'
+import { statusChangeLabel } from '@/utils/undo'
+import { noteRefreshAtom } from '@/atoms'
+import type { Note, NoteAnchor, NoteStatus, Project } from '@/types'
+
+/** Upper bound on how far the supersession chain is walked in each direction */
+const MAX_CHAIN_LENGTH = 20
+
+/**
+ * Walk `supersedes` back to the original note and `superseded_by` forward to
+ * the latest revision. Returns the chain oldest first, including `note`.
+ */
+async function fetchSupersessionChain(note: Note): Promise<Note[]> {
+  const seen = new Set([note.id])
+  const older: Note[] = []
+  const newer: Note[] = []
+
+  let previousId = note.supersedes
+  while (previousId && !seen.has(previousId) && older.length < MAX_CHAIN_LENGTH) {
+    seen.add(previousId)
+    const previous = await notesApi.get(previousId).catch(() => null)
+    if (!previous) break
+    older.unshift(previous)
+    previousId = previous.supersedes
+  }
+
+  let nextId = note.superseded_by
+  while (nextId && !seen.has(nextId) && newer.length < MAX_CHAIN_LENGTH) {
+    seen.add(nextId)
+    const next = await notesApi.get(nextId).catch(() => null)
+    if (!next) break
+    newer.push(next)
+    nextId = next.superseded_by
+  }
+
+  return [...older, note, ...newer]
+}
+
+export function NoteDetailPage() {
+  const { noteId } = useParams<{ noteId: string }>()
+  const navigate = useNavigate()
+  const wsSlug = useWorkspaceSlug()
+  const [note, setNote] = useState<Note | null>(null)
+  const [chain, setChain] = useState<Note[]>([])
+  const [project, setProject] = useState<Project | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [formLoading, setFormLoading] = useState(false)
+  const confirmDialog = useConfirmDialog()
+  const supersedeDialog = useFormDialog()
+  const toast = useToast()
+  const noteRefresh = useAtomValue(noteRefreshAtom)
+
+  const nextSignal = useLatestSignal()
+
+  const fetchData = useCallback(async () => {
+    if (!noteId) return
+    const signal = nextSignal()
+    setError(null)
+    // Only show loading spinner on initial load, not on WS-triggered refreshes
+    const isInitialLoad = !note || note.id !== noteId
+    if (isInitialLoad) setLoading(true)
+    try {
+      const noteData = await notesApi.get(noteId, { signal })
+      if (signal.aborted) return
+      setNote(noteData)
+
+      const [chainData, projectsData] = await Promise.all([
+        fetchSupersessionChain(noteData),
+        noteData.project_id
+          ? workspacesApi.listProjects(wsSlug).catch(() => [] as Project[])
+          : Promise.resolve([] as Project[]),
+      ])
+      if (signal.aborted) return
+      setChain(chainData)
+      setProject((Array.isArray(projectsData) ? projectsData : []).find((p) => p.id === noteData.project_id) || null)
+    } catch (error) {
+      if (isAbortError(error)) return
+      console.error('Failed to fetch note:', error)
+      setError('Failed to load note')
+    } finally {
+      if (isInitialLoad && !signal.aborted) setLoading(false)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- note is a data object (would cause infinite loop)
+  }, [noteId, wsSlug, noteRefresh, nextSignal])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  // Live updates from the entity store — patched in place instead of refetching
+  useEntityPatches('note', (record) => {
+    if (record.id === noteId && !record.deleted) setNote((prev) => (prev ? patchEntity(prev, record) : prev))
+    setChain((prev) => patchEntityList(prev, record))
+  })
+
+  const sectionIds = ['content', 'anchors', 'history']
+  const activeSection = useSectionObserver(sectionIds)
+
+  if (error) return <ErrorState title="Failed to load" description={error} onRetry={fetchData} />
+  if (loading || !note) return <LoadingPage />
+
+  const anchors = note.anchors || []
+  const invalidAnchors = anchors.filter((a) => !a.is_valid).length
+  const tags = note.tags || []
+
+  const replaceNote = (updated: Note) => {
+    setNote(updated)
+    setChain((prev) => prev.map((n) => (n.id === updated.id ? updated : n)))
+  }
+
+  const handleStatusChange = async (newStatus: NoteStatus) => {
+    try {
+      replaceNote(
+        await notesApi.update(
+          note.id,
+          { status: newStatus },
+          { label: statusChangeLabel('note', undefined, newStatus), previous: { status: note.status } },
+        ),
+      )
+      toast.success(`Status changed to ${newStatus.replace('_', ' ')}`, { undoable: true })
+    } catch {
+      toast.error('Failed to update status')
+    }
+  }
+
+  const handleConfirm = async () => {
+    try {
+      replaceNote(await notesApi.confirm(note.id))
+      toast.success('Note confirmed as valid')
+    } catch {
+      toast.error('Failed to confirm note')
+    }
+  }
+
+  const handleInvalidate = async () => {
+    const reason = window.prompt('Reason for invalidation:')
+    if (!reason) return
+    try {
+      replaceNote(await notesApi.invalidate(note.id, reason))
+      toast.success('Note invalidated')
+    } catch {
+      toast.error('Failed to invalidate note')
+    }
+  }
+
+  const supersedeForm = CreateNoteForm({
+    onSubmit: async (data) => {
+      setFormLoading(true)
+      try {
+        const replacement = await notesApi.supersede(note.id, data)
+        toast.success('Note superseded')
+        supersedeDialog.close()
+        if (replacement?.id) {
+          navigate(workspacePath(wsSlug, `/notes/${replacement.id}`))
+        } else {
+          fetchData()
+        }
+      } catch {
+        toast.error('Failed to supersede note')
+      } finally {
+        setFormLoading(false)
+      }
+    },
+    loading: formLoading,
+    defaultProjectId: note.project_id,
+    workspaceSlug: wsSlug,
+  })
+
+  const sections = [
+    { id: 'content', label: 'Content' },
+    { id: 'anchors', label: 'Anchors', count: anchors.length },
+    { id: 'history', label: 'History', count: chain.length },
+  ]
+
+  const parentLinks: ParentLink[] = []
+  if (project) {
+    parentLinks.push({
+      icon: FolderKanban,
+      label: 'Project',
+      name: project.name,
+      href: workspacePath(wsSlug, `/projects/${project.slug}`),
+    })
+  }
+
+  return (
+    <div className="pt-6 space-y-6">
+      <PageHeader
+        title={note.content.split('\n')[0].replace(/^#+\s*/, '').slice(0, 120) || 'Note'}
+        parentLinks={parentLinks.length > 0 ? parentLinks : undefined}
+        status={<InteractiveNoteStatusBadge status={note.status} onStatusChange={handleStatusChange} />}
+        metadata={[
+          { label: 'Type', value: note.note_type },
+          { label: 'Importance', value: <ImportanceBadge importance={note.importance} /> },
+          { label: 'Staleness', value: `${((note.staleness_score || 0) * 100).toFixed(0)}%` },
+          { label: 'Created', value: `${new Date(note.created_at).toLocaleDateString()} by ${note.created_by}` },
+          ...(note.last_confirmed_at
+            ? [{ label: 'Confirmed', value: new Date(note.last_confirmed_at).toLocaleDateString() }]
+            : []),
+        ]}
+        actions={
+          <Button
+            size="sm"
+            onClick={() => supersedeDialog.open({ title: 'Supersede Note', submitLabel: 'Supersede', size: 'lg' })}
+            disabled={!!note.superseded_by}
+            title={note.superseded_by ? 'This note has already been superseded' : undefined}
+          >
+            Supersede with…
+          </Button>
+        }
+        overflowActions={[
+          { label: 'Confirm', onClick: handleConfirm },
+          { label: 'Invalidate', onClick: handleInvalidate },
+          {
+            label: 'Delete',
+            variant: 'danger',
+            onClick: () =>
+              confirmDialog.open({
+                title: 'Delete Note',
+                description: 'This will permanently delete this note and its anchors.',
+                onConfirm: async () => {
+                  await notesApi.delete(note.id)
+                  toast.success('Note deleted')
+                  navigate(workspacePath(wsSlug, '/notes'))
+                },
+              }),
+          },
+        ]}
+      />
+
+      <SectionNav sections={sections} activeSection={activeSection} />
+
+      {note.superseded_by && (
+        <Link
+          to={workspacePath(wsSlug, `/notes/${note.superseded_by}`)}
+          className="flex items-center gap-2 px-3 py-2 rounded-lg bg-yellow-900/20 border border-yellow-800/30 text-yellow-500 text-sm hover:bg-yellow-900/30 transition-colors"
+        >
+          This note has been superseded — view the newer version
+        </Link>
+      )}
+
+      {/* Content */}
+      <section id="content" className="scroll-mt-20">
+        <Card>
+          <CardHeader>
+            <CardTitle>Content</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CollapsibleMarkdown content={note.content} />
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-3">
+                {tags.map((tag, index) => (
+                  <Badge key={`${tag}-${index}`} variant="default">{tag}</Badge>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </section>
+
+      {/* Anchors */}
+      <section id="anchors" className="scroll-mt-20">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle>Anchors</CardTitle>
+              {anchors.length > 0 && (
+                <Badge variant={invalidAnchors > 0 ? 'warning' : 'success'}>
+                  {anchors.length - invalidAnchors}/{anchors.length} valid
+                </Badge>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {anchors.length === 0 ? (
+              <p className="text-gray-500 text-sm">This note is not anchored to any code</p>
+            ) : (
+              <div className="space-y-2">
+                {anchors.map((anchor, index) => (
+                  <AnchorRow key={`${anchor.entity_type}-${anchor.entity_id}-${index}`} anchor={anchor} wsSlug={wsSlug} />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </section>
+
+      {/* Supersession history */}
+      <section id="history" className="scroll-mt-20">
+        <Card>
+          <CardHeader>
+            <CardTitle>History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {chain.length <= 1 ? (
+              <p className="text-gray-500 text-sm">This note has no earlier or later versions</p>
+            ) : (
+              <ol className="relative ml-2 border-l border-white/[0.1] space-y-4">
+                {chain.map((version, index) => (
+                  <TimelineEntry
+                    key={version.id}
+                    note={version}
+                    version={index + 1}
+                    current={version.id === note.id}
+                    wsSlug={wsSlug}
+                  />
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </section>
+
+      <FormDialog {...supersedeDialog.dialogProps} onSubmit={supersedeForm.submit} loading={formLoading}>
+        <p className="text-sm text-gray-400">
+          The replacement note will be linked to this one, which is then marked as superseded.
+        </p>
+        {supersedeForm.fields}
+      </FormDialog>
+      <ConfirmDialog {...confirmDialog.dialogProps} />
+    </div>
+  )
+}
+
+function AnchorRow({ anchor, wsSlug }: { anchor: NoteAnchor; wsSlug: string }) {
+  const label = <span className="font-mono text-sm truncate">{anchor.entity_id}</span>
+
+  return (
+    <div className="flex items-center gap-3 p-3 bg-white/[0.06] rounded-lg min-w-0">
+      {anchor.is_valid ? (
+        <CheckCircle2 className="w-4 h-4 shrink-0 text-green-400" aria-label="Valid" />
+      ) : (
+        <XCircle className="w-4 h-4 shrink-0 text-red-400" aria-label="Invalid" />
+      )}
+      <Badge variant="default">{anchor.entity_type}</Badge>
+      <div className="flex-1 min-w-0 flex">
+        {anchor.entity_type === 'file' ? (
+          <Link
+            to={codeFilePath(wsSlug, anchor.entity_id)}
+            className="min-w-0 flex text-gray-200 hover:text-indigo-400 transition-colors"
+            title={anchor.entity_id}
+          >
+            {label}
+          </Link>
+        ) : (
+          <span className="min-w-0 flex text-gray-200" title={anchor.entity_id}>{label}</span>
+        )}
+      </div>
+      <span className={`text-xs shrink-0 ${anchor.is_valid ? 'text-gray-500' : 'text-red-400'}`}>
+        {anchor.is_valid ? 'Verified' : 'Last verified'} {new Date(anchor.last_verified).toLocaleDateString()}
+      </span>
+    </div>
+  )
+}
+
+function TimelineEntry({
+  note,
+  version,
+  current,
+  wsSlug,
+}: {
+  note: Note
+  version: number
+  current: boolean
+  wsSlug: string
+}) {
+  const summary = note.content.split('\n')[0].replace(/^#+\s*/, '').slice(0, 160)
+
+  return (
+    <li className="relative pl-5">
+      <span
+        className={`absolute -left-[9px] top-0.5 flex items-center justify-center w-[18px] h-[18px] rounded-full border ${
+          current ? 'bg-indigo-500 border-indigo-400' : 'bg-surface-base border-white/[0.2]'
+        }`}
+      >
+        <GitCommitVertical className={`w-3 h-3 ${current ? 'text-white' : 'text-gray-500'}`} />
+      </span>
+      <div className="flex flex-wrap items-center gap-2 mb-1">
+        <span className="text-xs font-medium text-gray-400">v{version}</span>
+        <Badge variant={current ? 'info' : 'default'}>{note.status.replace('_', ' ')}</Badge>
+        <span className="text-xs text-gray-500">
+          {new Date(note.created_at).toLocaleDateString()} by {note.created_by}
+        </span>
+        {current && <span className="text-xs text-indigo-400">Viewing</span>}
+      </div>
+      {current ? (
+        <p className="text-sm text-gray-200">{summary}</p>
+      ) : (
+        <Link
+          to={workspacePath(wsSlug, `/notes/${note.id}`)}
+          className="text-sm text-gray-300 hover:text-indigo-400 transition-colors"
+        >
+          {summary}
+        </Link>
+      )}
+    </li>
+  )
+}
@@ -0,0 +1,372 @@
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react'
+import { Link } from 'react-router-dom'
+import { useAtomValue } from 'jotai'
+import { CheckCircle2, XCircle, RefreshCw } from 'lucide-react'
+import {
+  Card,
+  CardContent,
+  Button,
+  Badge,
+  EmptyState,
+  ErrorState,
+  FormDialog,
+  ImportanceBadge,
+  LoadingPage,
+  PageShell,
+  ProgressBar,
+  CollapsibleMarkdown,
+} from '@/components/ui'
+import { CreateNoteForm } from '@/components/forms'
+import { notesApi, workspacesApi } from '@/services'
+import { useFormDialog, useToast, useWorkspaceSlug, useShortcuts, useEntityPatches, patchEntityList } from '@/hooks'
+import { formatShortcutKey } from '@/utils/shortcuts'
+import { workspacePath } from '@/utils/paths'
+import { noteRefreshAtom } from '@/atoms'
+import type { Note, NoteImportance } from '@/types'
+
+const importanceRank: Record<NoteImportance, number> = {
+  critical: 3,
+  high: 2,
+  medium: 1,
+  low: 0,
+}
+
+/** Most stale first, then most important */
+function compareForReview(a: Note, b: Note): number {
+  const staleness = (b.staleness_score || 0) - (a.staleness_score || 0)
+  if (staleness !== 0) return staleness
+  return (importanceRank[b.importance] ?? 0) - (importanceRank[a.importance] ?? 0)
+}
+
+export function NoteReviewPage() {
+  const wsSlug = useWorkspaceSlug()
+  const noteRefresh = useAtomValue(noteRefreshAtom)
+  const toast = useToast()
+  const supersedeDialog = useFormDialog()
+  const [queue, setQueue] = useState<Note[]>([])
+  const [currentId, setCurrentId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [recomputing, setRecomputing] = useState(false)
+  const [acting, setActing] = useState(false)
+  const [formLoading, setFormLoading] = useState(false)
+  // Every note that has been in the queue since the page opened. Notes that
+  // leave the queue (triaged here or elsewhere) count as reviewed.
+  const [seenIds, setSeenIds] = useState<Set<string>>(new Set())
+  const loadedRef = useRef(false)
+
+  const fetchQueue = useCallback(async () => {
+    setError(null)
+    // Only show loading spinner on initial load, not on WS-triggered refreshes
+    const isInitialLoad = !loadedRef.current
+    if (isInitialLoad) setLoading(true)
+    try {
+      const [needsReview, projects] = await Promise.all([
+        notesApi.getNeedsReview(),
+        workspacesApi.listProjects(wsSlug).catch(() => []),
+      ])
+      // Keep notes from this workspace's projects, plus global notes
+      const projectIds = new Set((Array.isArray(projects) ? projects : []).map((p) => p.id))
+      const items = (needsReview.items || [])
+        .filter((n) => !n.project_id || projectIds.has(n.project_id))
+        .sort(compareForReview)
+      setSeenIds((prev) => new Set([...prev, ...items.map((n) => n.id)]))
+      setQueue(items)
+      loadedRef.current = true
+    } catch (error) {
+      console.error('Failed to fetch review queue:', error)
+      setError('Failed to load review queue')
+    } finally {
+      if (isInitialLoad) setLoading(false)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- noteRefresh triggers refetch on note CRUD events
+  }, [wsSlug, noteRefresh])
+
+  useEffect(() => {
+    fetchQueue()
+  }, [fetchQueue])
+
+  // Live updates: edits are patched in place; status changes, which can take
+  // a note out of the queue, refetch through noteRefresh
+  useEntityPatches('note', (record) => setQueue((prev) => patchEntityList(prev, record)))
+
+  const currentIndex = useMemo(() => {
+    const index = queue.findIndex((n) => n.id === currentId)
+    return index === -1 ? 0 : index
+  }, [queue, currentId])
+  const current: Note | undefined = queue[currentIndex]
+
+  const reviewed = seenIds.size - queue.length
+  const total = seenIds.size
+
+  const step = useCallback(
+    (delta: number) => {
+      if (queue.length === 0) return
+      const next = (currentIndex + delta + queue.length) % queue.length
+      setCurrentId(queue[next].id)
+    },
+    [queue, currentIndex],
+  )
+
+  /** Drop the current note from the queue and move on to the one after it */
+  const resolveCurrent = useCallback(() => {
+    if (!current) return
+    const next = queue[currentIndex + 1] ?? queue[currentIndex - 1]
+    setQueue((prev) => prev.filter((n) => n.id !== current.id))
+    setCurrentId(next?.id ?? null)
+  }, [current, queue, currentIndex])
+
+  const runAction = useCallback(
+    async (action: (note: Note) => Promise<unknown>, successMessage: string, errorMessage: string) => {
+      if (!current || acting) return
+      setActing(true)
+      try {
+        await action(current)
+        toast.success(successMessage)
+        resolveCurrent()
+      } catch {
+        toast.error(errorMessage)
+      } finally {
+        setActing(false)
+      }
+    },
+    [current, acting, toast, resolveCurrent],
+  )
+
+  const handleConfirm = () =>
+    runAction((note) => notesApi.confirm(note.id), 'Note confirmed as valid', 'Failed to confirm note')
+
+  const handleInvalidate = () => {
+    if (!current) return
+    const reason = window.prompt('Reason for invalidation:')
+    if (!reason) return
+    runAction((note) => notesApi.invalidate(note.id, reason), 'Note invalidated', 'Failed to invalidate note')
+  }
+
+  const handleArchive = () =>
+    runAction(
+      (note) => notesApi.update(note.id, { status: 'archived' }),
+      'Note archived',
+      'Failed to archive note',
+    )
+
+  const openSupersede = () => {
+    if (!current) return
+    supersedeDialog.open({ title: 'Supersede Note', submitLabel: 'Supersede', size: 'lg' })
+  }
+
+  const handleRecompute = async () => {
+    setRecomputing(true)
+    try {
+      await notesApi.updateStaleness()
+      await fetchQueue()
+      toast.success('Staleness scores updated')
+    } catch {
+      toast.error('Failed to update staleness')
+    } finally {
+      setRecomputing(false)
+    }
+  }
+
+  const supersedeForm = CreateNoteForm({
+    onSubmit: async (data) => {
+      if (!current) return
+      setFormLoading(true)
+      try {
+        await notesApi.supersede(current.id, data)
+        toast.success('Note superseded')
+        supersedeDialog.close()
+        resolveCurrent()
+      } catch {
+        toast.error('Failed to supersede note')
+      } finally {
+        setFormLoading(false)
+      }
+    },
+    loading: formLoading,
+    defaultProjectId: current?.project_id,
+    workspaceSlug: wsSlug,
+  })
+
+  useShortcuts(
+    'Review',
+    [
+      { keys: 'c', description: 'Confirm note', handler: handleConfirm },
+      { keys: 'i', description: 'Invalidate note', handler: handleInvalidate },
+      { keys: 'a', description: 'Archive note', handler: handleArchive },
+      { keys: 's', description: 'Supersede note', handler: openSupersede },
+      { keys: 'j', description: 'Next note', handler: () => step(1) },
+      { keys: 'k', description: 'Previous note', handler: () => step(-1) },
+    ],
+    !!current,
+  )
+
+  if (error) return <ErrorState title="Failed to load" description={error} onRetry={fetchQueue} />
+  if (loading) return <LoadingPage />
+
+  const anchors = current?.anchors || []
+
+  return (
+    <PageShell
+      title="Review Queue"
+      description="Triage stale knowledge notes, most stale first"
+      actions={
+        <>
+          <Link to={workspacePath(wsSlug, '/notes')}>
+            <Button variant="secondary">All Notes</Button>
+          </Link>
+          <Button variant="secondary" onClick={handleRecompute} loading={recomputing}>
+            <RefreshCw className="w-4 h-4 mr-1.5" />
+            Recompute Staleness
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        {/* Progress counters */}
+        <Card>
+          <CardContent>
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-1 mb-2 text-sm">
+              <span className="text-gray-400">
+                <span className="text-gray-100 font-medium">{queue.length}</span> remaining
+              </span>
+              <span className="text-gray-400">
+                <span className="text-green-400 font-medium">{reviewed}</span> reviewed this session
+              </span>
+              {current && (
+                <span className="text-gray-500 ml-auto">
+                  {currentIndex + 1} of {queue.length}
+                </span>
+              )}
+            </div>
+            <ProgressBar value={reviewed} max={Math.max(total, 1)} size="sm" />
+          </CardContent>
+        </Card>
+
+        {!current ? (
+          <EmptyState
+            variant="notes"
+            title="Nothing to review"
+            description="No notes currently need review. Recompute staleness to re-check anchors."
+          />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[1fr_280px] gap-4">
+            {/* Current note */}
+            <Card>
+              <CardContent>
+                <div className="flex flex-wrap items-center gap-2 mb-3">
+                  <Badge variant="default">{current.note_type}</Badge>
+                  <Badge variant={current.status === 'stale' ? 'error' : 'warning'}>
+                    {current.status.replace('_', ' ')}
+                  </Badge>
+                  <ImportanceBadge importance={current.importance} />
+                  <span className="text-xs text-yellow-500">
+                    Staleness: {((current.staleness_score || 0) * 100).toFixed(0)}%
+                  </span>
+                  <Link
+                    to={workspacePath(wsSlug, `/notes/${current.id}`)}
+                    className="ml-auto text-xs text-indigo-400 hover:text-indigo-300 transition-colors"
+                  >
+                    Details
+                  </Link>
+                </div>
+
+                <CollapsibleMarkdown content={current.content} />
+
+                {anchors.length > 0 && (
+                  <div className="mt-4 space-y-1">
+                    {anchors.map((anchor, index) => (
+                      <div key={`${anchor.entity_id}-${index}`} className="flex items-center gap-2 text-xs min-w-0">
+                        {anchor.is_valid ? (
+                          <CheckCircle2 className="w-3.5 h-3.5 shrink-0 text-green-400" />
+                        ) : (
+                          <XCircle className="w-3.5 h-3.5 shrink-0 text-red-400" />
+                        )}
+                        <span className="text-gray-500">{anchor.entity_type}</span>
+                        <span className="font-mono text-gray-300 truncate">{anchor.entity_id}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500">
+                  <span>Created by {current.created_by}</span>
+                  <span>{new Date(current.created_at).toLocaleDateString()}</span>
+                  {current.last_confirmed_at && (
+                    <span>Last confirmed: {new Date(current.last_confirmed_at).toLocaleDateString()}</span>
+                  )}
+                </div>
+
+                <div className="mt-5 pt-4 border-t border-white/[0.06] flex flex-wrap gap-2">
+                  <TriageButton label="Confirm" shortcut="c" onClick={handleConfirm} disabled={acting} />
+                  <TriageButton label="Invalidate" shortcut="i" onClick={handleInvalidate} disabled={acting} />
+                  <TriageButton label="Archive" shortcut="a" onClick={handleArchive} disabled={acting} />
+                  <TriageButton label="Supersede…" shortcut="s" onClick={openSupersede} disabled={acting} />
+                  <div className="ml-auto flex gap-2">
+                    <TriageButton label="Previous" shortcut="k" onClick={() => step(-1)} variant="ghost" />
+                    <TriageButton label="Skip" shortcut="j" onClick={() => step(1)} variant="ghost" />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Queue */}
+            <Card>
+              <CardContent>
+                <div className="text-xs text-gray-500 mb-2">Up next</div>
+                <div className="space-y-1 max-h-[60vh] overflow-y-auto">
+                  {queue.map((note) => (
+                    <button
+                      key={note.id}
+                      onClick={() => setCurrentId(note.id)}
+                      className={`w-full text-left px-2 py-1.5 rounded transition-colors ${
+                        note.id === current.id ? 'bg-indigo-500/[0.15] text-gray-100' : 'text-gray-400 hover:bg-white/[0.06]'
+                      }`}
+                    >
+                      <div className="text-sm truncate">{note.content.split('\n')[0].replace(/^#+\s*/, '')}</div>
+                      <div className="flex items-center gap-2 text-xs text-gray-500">
+                        <span>{((note.staleness_score || 0) * 100).toFixed(0)}%</span>
+                        <span>{note.importance}</span>
+                        <span>{note.note_type}</span>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+
+      <FormDialog {...supersedeDialog.dialogProps} onSubmit={supersedeForm.submit} loading={formLoading}>
+        <p className="text-sm text-gray-400">
+          The replacement note will be linked to this one, which is then marked as superseded.
+        </p>
+        {supersedeForm.fields}
+      </FormDialog>
+    </PageShell>
+  )
+}
+
+function TriageButton({
+  label,
+  shortcut,
+  onClick,
+  disabled,
+  variant = 'secondary',
+}: {
+  label: string
+  shortcut: string
+  onClick: () => void
+  disabled?: boolean
+  variant?: 'secondary' | 'ghost'
+}) {
+  return (
+    <Button size="sm" variant={variant} onClick={onClick} disabled={disabled}>
+      {label}
+      <kbd className="ml-2 text-[10px] text-gray-500 bg-white/[0.06] border border-white/[0.1] rounded px-1 font-mono">
+        {formatShortcutKey(shortcut)}
+      </kbd>
+    </Button>
+  )
+}
@@ -1,15 +1,33 @@
 import { useState, useMemo, useCallback } from 'react'
 import { useAtom, useAtomValue } from 'jotai'
+import { Link, useNavigate } from 'react-router-dom'
 import { motion, AnimatePresence } from 'motion/react'
 import { FileText, Code, FolderOpen, Package, Shapes, AlertTriangle } from 'lucide-react'
 import { notesAtom, notesLoadingAtom, noteTypeFilterAtom, noteStatusFilterAtom, noteRefreshAtom } from '@/atoms'
 import { notesApi } from '@/services'
 import { Card, CardContent, Button, EmptyState, Select, InteractiveNoteStatusBadge, ImportanceBadge, Badge, ConfirmDialog, FormDialog, OverflowMenu, PageShell, SelectZone, BulkActionBar, CollapsibleMarkdown, LoadMoreSentinel, SkeletonCard } from '@/components/ui'
 import type { OverflowMenuAction } from '@/components/ui'
-import { useConfirmDialog, useFormDialog, useToast, useMultiSelect, useInfiniteList, useWorkspaceSlug } from '@/hooks'
+import {
+  useConfirmDialog,
+  useFormDialog,
+  useToast,
+  useMultiSelect,
+  useInfiniteList,
+  useListSort,
+  useSavedViews,
+  useWorkspaceSlug,
+  useShortcuts,
+  useCardNavigation,
+  useBulkEdit,
+} from '@/hooks'
 import { CreateNoteForm } from '@/components/forms'
+import { SavedViewTabs } from '@/components/SavedViewTabs'
+import { BulkEditDialog, BulkEditFeedback, noteOperation } from '@/components/bulk'
+import type { BulkChange } from '@/components/bulk'
 import { fadeInUp, staggerContainer, useReducedMotion } from '@/utils/motion'
-import type { Note, NoteType, NoteStatus, NoteScopeType, PaginatedResponse } from '@/types'
+import { workspacePath } from '@/utils/paths'
+import { statusChangeLabel } from '@/utils/undo'
+import type { Note, NoteType, NoteStatus, NoteScopeType, PaginatedResponse, SavedViewState } from '@/types'
 
 const iconClass = 'w-3 h-3 flex-shrink-0'
 const FileTextIcon = () => <FileText className={iconClass} />
@@ -39,38 +57,69 @@ const statusOptions = [
   { value: 'archived', label: 'Archived' },
 ]
 
+const bulkStatusOptions = statusOptions.filter((o) => o.value !== 'all')
+
+const importanceOptions = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'critical', label: 'Critical' },
+]
+
+const noteId = (note: Note) => note.id
+const noteLabel = (note: Note) => note.content.split('\n')[0].slice(0, 60)
+
+const sortOptions = [
+  { value: '', label: 'Default order' },
+  { value: 'created_at:desc', label: 'Newest first' },
+  { value: 'created_at:asc', label: 'Oldest first' },
+  { value: 'last_confirmed_at:desc', label: 'Recently confirmed' },
+  { value: 'staleness_score:desc', label: 'Most stale' },
+]
+
 export function NotesPage() {
   const [, setNotesAtom] = useAtom(notesAtom)
   const [, setLoadingAtom] = useAtom(notesLoadingAtom)
   const [typeFilter, setTypeFilter] = useAtom(noteTypeFilterAtom)
   const [statusFilter, setStatusFilter] = useAtom(noteStatusFilterAtom)
   const noteRefresh = useAtomValue(noteRefreshAtom)
+  const [sort, setSort, sortParams] = useListSort()
   const confirmDialog = useConfirmDialog()
   const formDialog = useFormDialog()
   const toast = useToast()
   const [formLoading, setFormLoading] = useState(false)
   const wsSlug = useWorkspaceSlug()
+  const navigate = useNavigate()
   const reducedMotion = useReducedMotion()
 
   const filters = useMemo(
     () => ({
       note_type: typeFilter !== 'all' ? typeFilter : undefined,
       status: statusFilter !== 'all' ? statusFilter : undefined,
+      ...sortParams,
       _refresh: noteRefresh,
       _ws: wsSlug,
     }),
-    [typeFilter, statusFilter, noteRefresh, wsSlug],
+    [typeFilter, statusFilter, sortParams, noteRefresh, wsSlug],
   )
 
   const fetcher = useCallback(
-    (params: { limit: number; offset: number; note_type?: string; status?: string }): Promise<PaginatedResponse<Note>> => {
-      return notesApi.list({
-        limit: params.limit,
-        offset: params.offset,
-        note_type: params.note_type,
-        status: params.status,
-        workspace_slug: wsSlug,
-      })
+    (
+      params: { limit: number; offset: number; note_type?: string; status?: string; sort_by?: string; sort_order?: 'asc' | 'desc' },
+      signal: AbortSignal,
+    ): Promise<PaginatedResponse<Note>> => {
+      return notesApi.list(
+        {
+          limit: params.limit,
+          offset: params.offset,
+          note_type: params.note_type,
+          status: params.status,
+          sort_by: params.sort_by,
+          sort_order: params.sort_order,
+          workspace_slug: wsSlug,
+        },
+        { signal },
+      )
     },
     [wsSlug],
   )
@@ -85,7 +134,7 @@ export function NotesPage() {
     reset,
     removeItems,
     updateItem,
-  } = useInfiniteList({ fetcher, filters })
+  } = useInfiniteList({ fetcher, filters, entityType: 'note' })
 
   // Sync notes atom
   useCallback(() => {
@@ -113,6 +162,38 @@ export function NotesPage() {
 
   const multiSelect = useMultiSelect(notes, (n) => n.id)
 
+  useShortcuts('Notes', [{ keys: 'c', description: 'Create note', handler: openCreateNote }])
+  useCardNavigation('Notes', {
+    onToggleSelect: (id) => multiSelect.toggle(id),
+    onOpen: (id) => navigate(workspacePath(wsSlug, `/notes/${id}`)),
+  })
+
+  const savedViews = useSavedViews('notes', {
+    current: {
+      filters: {
+        note_type: typeFilter !== 'all' ? typeFilter : undefined,
+        status: statusFilter !== 'all' ? statusFilter : undefined,
+      },
+      sort,
+    },
+    initial: { filters: {} },
+    apply: (state: SavedViewState) => {
+      const { note_type, status } = state.filters as { note_type?: NoteType; status?: NoteStatus }
+      setTypeFilter(note_type ?? 'all')
+      setStatusFilter(status ?? 'all')
+      setSort(state.sort ?? '')
+    },
+    pristine: sort === '' && typeFilter === 'all' && statusFilter === 'all',
+  })
+
+  const [bulkEditOpen, setBulkEditOpen] = useState(false)
+  const bulkEdit = useBulkEdit({ getId: noteId, getLabel: noteLabel, onDone: reset })
+
+  const handleBulkEdit = (change: BulkChange) => {
+    setBulkEditOpen(false)
+    void bulkEdit.run(multiSelect.selectedItems, noteOperation(change))
+  }
+
   const handleBulkDelete = () => {
     const count = multiSelect.selectionCount
     confirmDialog.open({
@@ -151,10 +232,16 @@ export function NotesPage() {
             onChange={(value) => setStatusFilter(value as NoteStatus | 'all')}
             className="w-full sm:w-36"
           />
+          <Select options={sortOptions} value={sort} onChange={setSort} className="w-full sm:w-44" />
+          <Link to={workspacePath(wsSlug, '/notes/review')}>
+            <Button variant="secondary" className="w-full sm:w-auto">Review Queue</Button>
+          </Link>
           <Button onClick={openCreateNote}>Create Note</Button>
         </>
       }
     >
+      <SavedViewTabs savedViews={savedViews} />
+
       {loading ? (
         <div className="space-y-4">
           {Array.from({ length: 3 }).map((_, i) => (
@@ -215,6 +302,25 @@ export function NotesPage() {
         count={multiSelect.selectionCount}
         onDelete={handleBulkDelete}
         onClear={multiSelect.clear}
+        onEdit={() => setBulkEditOpen(true)}
+        editing={bulkEdit.busy}
+      />
+      <BulkEditDialog
+        open={bulkEditOpen}
+        onClose={() => setBulkEditOpen(false)}
+        onSubmit={handleBulkEdit}
+        count={multiSelect.selectionCount}
+        noun="note"
+        kinds={['status', 'priority', 'tags', 'link']}
+        statusOptions={bulkStatusOptions}
+        priorityOptions={importanceOptions}
+      />
+      <BulkEditFeedback
+        progress={bulkEdit.progress}
+        result={bulkEdit.result}
+        noun="note"
+        onUndo={() => void bulkEdit.undo()}
+        onDismiss={bulkEdit.dismiss}
       />
       <FormDialog {...formDialog.dialogProps} onSubmit={noteForm.submit} loading={formLoading}>
         {noteForm.fields}
@@ -257,6 +363,7 @@ function NoteCard({ note, onDelete, onUpdate, selected, onToggleSelect }: NoteCa
   const tags = note.tags || []
   const anchors = note.anchors || []
   const toast = useToast()
+  const wsSlug = useWorkspaceSlug()
   const typeColors: Record<NoteType, string> = {
     guideline: 'border-l-blue-500',
     gotcha: 'border-l-red-500',
@@ -272,9 +379,13 @@ function NoteCard({ note, onDelete, onUpdate, selected, onToggleSelect }: NoteCa
 
   const handleStatusChange = async (newStatus: NoteStatus) => {
     try {
-      const updated = await notesApi.update(note.id, { status: newStatus })
+      const updated = await notesApi.update(
+        note.id,
+        { status: newStatus },
+        { label: statusChangeLabel('note', undefined, newStatus), previous: { status: note.status } },
+      )
       onUpdate(updated)
-      toast.success(`Status changed to ${newStatus.replace('_', ' ')}`)
+      toast.success(`Status changed to ${newStatus.replace('_', ' ')}`, { undoable: true })
     } catch {
       toast.error('Failed to update status')
     }
@@ -312,6 +423,7 @@ function NoteCard({ note, onDelete, onUpdate, selected, onToggleSelect }: NoteCa
   const hiddenCount = anchors.length - visibleAnchors.length
 
   return (
+    <div data-nav-id={note.id} tabIndex={0} className="rounded-xl outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/60">
     <Card lazy="sm" className={`border-l-4 ${typeColors[note.note_type] || 'border-l-gray-500'} transition-colors ${selected ? 'border-l-indigo-500 bg-indigo-500/[0.05]' : ''}`}>
       <div className="flex">
         {onToggleSelect && (
@@ -320,10 +432,13 @@ function NoteCard({ note, onDelete, onUpdate, selected, onToggleSelect }: NoteCa
         <CardContent className="flex-1 min-w-0">
         {/* Superseded banner */}
         {note.superseded_by && (
-          <div className="flex items-center gap-1.5 mb-2 px-2 py-1 rounded bg-yellow-900/20 border border-yellow-800/30 text-yellow-500 text-xs">
+          <Link
+            to={workspacePath(wsSlug, `/notes/${note.superseded_by}`)}
+            className="flex items-center gap-1.5 mb-2 px-2 py-1 rounded bg-yellow-900/20 border border-yellow-800/30 text-yellow-500 text-xs hover:bg-yellow-900/30 transition-colors"
+          >
             <AlertTriangleIcon />
             <span>This note has been superseded by a newer version</span>
-          </div>
+          </Link>
         )}
 
         <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2 mb-2">
@@ -380,9 +495,16 @@ function NoteCard({ note, onDelete, onUpdate, selected, onToggleSelect }: NoteCa
           {note.last_confirmed_at && (
             <span>Last confirmed: {new Date(note.last_confirmed_at).toLocaleDateString()}</span>
           )}
+          <Link
+            to={workspacePath(wsSlug, `/notes/${note.id}`)}
+            className="ml-auto text-indigo-400 hover:text-indigo-300 transition-colors"
+          >
+            Details
+          </Link>
         </div>
       </CardContent>
       </div>
     </Card>
+    </div>
   )
 }
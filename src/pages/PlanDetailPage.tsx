@@ -1,17 +1,21 @@
 import { useEffect, useState, useCallback, useMemo } from 'react'
 import { useParams, Link } from 'react-router-dom'
 import { useSetAtom, useAtomValue } from 'jotai'
-import { ChevronsUpDown, ChevronRight, Flag } from 'lucide-react'
+import { ChevronsUpDown, ChevronRight, Flag, ArrowRight } from 'lucide-react'
 import { Card, CardHeader, CardTitle, CardContent, LoadingPage, ErrorState, Badge, Button, ConfirmDialog, FormDialog, LinkEntityDialog, LinkedEntityBadge, InteractiveTaskStatusBadge, ViewToggle, PageHeader, StatusSelect, SectionNav } from '@/components/ui'
 import type { ParentLink } from '@/components/ui/PageHeader'
-import { plansApi, tasksApi, projectsApi, workspacesApi } from '@/services'
+import { plansApi, tasksApi, projectsApi, workspacesApi, isAbortError } from '@/services'
 import { KanbanBoard } from '@/components/kanban'
-import { useViewMode, useConfirmDialog, useFormDialog, useLinkDialog, useToast, useSectionObserver, useWorkspaceSlug, useViewTransition } from '@/hooks'
+import { useViewMode, useConfirmDialog, useFormDialog, useLinkDialog, useToast, useSectionObserver, useWorkspaceSlug, useViewTransition, useLatestSignal, useEntityPatches, patchEntity, patchEntityList } from '@/hooks'
 import { workspacePath } from '@/utils/paths'
+import { statusChangeLabel } from '@/utils/undo'
 import { chatSuggestedProjectIdAtom, planRefreshAtom, taskRefreshAtom, projectRefreshAtom } from '@/atoms'
-import { CreateTaskForm, CreateConstraintForm } from '@/components/forms'
+import { CreateTaskForm, CreateConstraintForm, LinkCommitForm } from '@/components/forms'
 import { DependencyGraphView } from '@/components/DependencyGraphView'
-import type { Plan, Decision, DependencyGraph, Task, Constraint, Step, PlanStatus, TaskStatus, StepStatus, PaginatedResponse, Project } from '@/types'
+import { EntityNotesCard } from '@/components/EntityNotesCard'
+import { AnalyticsPanel } from '@/components/AnalyticsPanel'
+import { CommitList, FileCrossReference } from '@/components/CommitList'
+import type { Plan, Decision, DependencyGraph, Task, Constraint, Step, PlanStatus, TaskStatus, StepStatus, PaginatedResponse, Project, Commit } from '@/types'
 import type { KanbanTask } from '@/components/kanban'
 
 interface DecisionWithTask extends Decision {
@@ -28,12 +32,18 @@ export function PlanDetailPage() {
   const [constraints, setConstraints] = useState<Constraint[]>([])
   const [decisions, setDecisions] = useState<DecisionWithTask[]>([])
   const [graph, setGraph] = useState<DependencyGraph | null>(null)
+  const [criticalPath, setCriticalPath] = useState<{ tasks: Task[]; total_priority: number } | null>(null)
+  const [showCriticalPath, setShowCriticalPath] = useState(true)
+  const [nextTask, setNextTask] = useState<Task | null>(null)
+  const [commits, setCommits] = useState<Commit[]>([])
+  const [commitView, setCommitView] = useState<'commits' | 'files'>('commits')
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [viewMode, setViewMode] = useViewMode()
   const confirmDialog = useConfirmDialog()
   const taskFormDialog = useFormDialog()
   const constraintFormDialog = useFormDialog()
+  const commitFormDialog = useFormDialog()
   const linkDialog = useLinkDialog()
   const toast = useToast()
   const setSuggestedProjectId = useSetAtom(chatSuggestedProjectIdAtom)
@@ -46,25 +56,34 @@ export function PlanDetailPage() {
   const [tasksCollapseAll, setTasksCollapseAll] = useState(0)
   const [tasksAllExpanded, setTasksAllExpanded] = useState(false)
   const [linkedMilestones, setLinkedMilestones] = useState<Array<{ id: string; title: string; href: string }>>([])
+  const nextSignal = useLatestSignal()
 
   const fetchData = useCallback(async () => {
     if (!planId) return
+    const signal = nextSignal()
     setError(null)
     // Only show loading spinner on initial load, not on WS-triggered refreshes
     const isInitialLoad = !plan
     if (isInitialLoad) setLoading(true)
     try {
-      const [planResponse, tasksData, constraintsData, graphData] = await Promise.all([
-        plansApi.get(planId),
-        tasksApi.list({ plan_id: planId, limit: 100 }),
-        plansApi.listConstraints(planId),
-        plansApi.getDependencyGraph(planId).catch(() => null),
+      const [planResponse, tasksData, constraintsData, graphData, criticalPathData, nextTaskData, commitsData] = await Promise.all([
+        plansApi.get(planId, { signal }),
+        tasksApi.list({ plan_id: planId, limit: 100 }, { signal }),
+        plansApi.listConstraints(planId, { signal }),
+        plansApi.getDependencyGraph(planId, { signal }).catch(() => null),
+        plansApi.getCriticalPath(planId, { signal }).catch(() => null),
+        plansApi.getNextTask(planId, { signal }).catch(() => null),
+        plansApi.getCommits(planId, { signal }).catch(() => null),
       ])
+      if (signal.aborted) return
       const planData = (planResponse as unknown as { plan: Plan }).plan || planResponse
       setPlan(planData)
       setTasks(tasksData.items || [])
       setConstraints(Array.isArray(constraintsData) ? constraintsData : [])
       setGraph(graphData)
+      setCriticalPath(criticalPathData)
+      setNextTask(nextTaskData)
+      setCommits(commitsData?.items || [])
 
       // Extract decisions from PlanDetails response — backend nests them in tasks[].decisions[]
       const rawTasks = (planResponse as unknown as { tasks?: { task?: Task; decisions?: Decision[] }[] }).tasks || []
@@ -82,6 +101,7 @@ export function PlanDetailPage() {
       if (planData.project_id) {
         try {
           const allProjects = await projectsApi.list()
+          if (signal.aborted) return
           const proj = (allProjects.items || []).find(p => p.id === planData.project_id)
           setLinkedProject(proj || null)
           if (proj) setSuggestedProjectId(proj.id)
@@ -90,18 +110,29 @@ export function PlanDetailPage() {
         setLinkedProject(null)
       }
     } catch (error) {
+      if (isAbortError(error)) return
       console.error('Failed to fetch plan:', error)
       setError('Failed to load plan')
     } finally {
-      if (isInitialLoad) setLoading(false)
+      if (isInitialLoad && !signal.aborted) setLoading(false)
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps -- plan and setSuggestedProjectId: plan is a data object (would cause loop), Jotai setter is stable
-  }, [planId, planRefresh, taskRefresh, projectRefresh])
+  }, [planId, planRefresh, taskRefresh, projectRefresh, nextSignal])
 
   useEffect(() => {
     fetchData()
   }, [fetchData])
 
+  // Live updates from the entity store — patched in place; status changes also
+  // bump the refresh counters, refetching the graph, critical path and next task
+  useEntityPatches(['plan', 'task'], (record) => {
+    if (record.entityType === 'plan') {
+      if (record.id === planId && !record.deleted) setPlan((prev) => (prev ? patchEntity(prev, record) : prev))
+      return
+    }
+    setTasks((prev) => patchEntityList(prev, record))
+  })
+
   // Resolve linked milestones (workspace milestones that reference this plan)
   useEffect(() => {
     if (!planId) return
@@ -140,12 +171,17 @@ export function PlanDetailPage() {
   }, [planId, wsSlug])
 
   const handleTaskStatusChange = useCallback(
-    async (taskId: string, newStatus: TaskStatus) => {
+    async (taskId: string, newStatus: TaskStatus, previous?: KanbanTask) => {
       const original = tasks.find((t) => t.id === taskId)
+      const before = previous ?? original
       setTasks((prev) => prev.map((t) => (t.id === taskId ? { ...t, status: newStatus } : t)))
       try {
-        await tasksApi.update(taskId, { status: newStatus })
-        toast.success('Status updated')
+        await tasksApi.update(
+          taskId,
+          { status: newStatus },
+          before && { label: statusChangeLabel('task', before.title, newStatus), previous: { status: before.status } },
+        )
+        toast.success('Status updated', { undoable: true })
       } catch (error) {
         if (original) {
           setTasks((prev) => prev.map((t) => (t.id === taskId ? original : t)))
@@ -160,8 +196,8 @@ export function PlanDetailPage() {
 
   // Stable fetchFn for KanbanBoard — fetches tasks scoped to this plan
   const kanbanFetchFn = useCallback(
-    (params: Record<string, unknown>): Promise<PaginatedResponse<KanbanTask>> => {
-      return tasksApi.list({ plan_id: planId, ...params } as Record<string, string | number | undefined>)
+    (params: Record<string, unknown>, signal: AbortSignal): Promise<PaginatedResponse<KanbanTask>> => {
+      return tasksApi.list({ plan_id: planId, ...params } as Record<string, string | number | undefined>, { signal })
     },
     [planId],
   )
@@ -198,7 +234,26 @@ export function PlanDetailPage() {
     loading: formLoading,
   })
 
-  const sectionIds = ['overview', 'tasks', 'constraints', 'decisions', ...(graph && (graph.nodes || []).length > 0 ? ['graph'] : [])]
+  const commitForm = LinkCommitForm({
+    onSubmit: async (data) => {
+      if (!planId) return
+      setFormLoading(true)
+      try {
+        await plansApi.linkCommit(planId, data.commit_sha)
+        const commitsData = await plansApi.getCommits(planId)
+        setCommits(commitsData.items || [])
+        commitFormDialog.close()
+        toast.success('Commit linked')
+      } catch {
+        toast.error('Failed to link commit')
+      } finally {
+        setFormLoading(false)
+      }
+    },
+    loading: formLoading,
+  })
+
+  const sectionIds = ['overview', 'tasks', 'constraints', 'decisions', 'commits', ...(graph && (graph.nodes || []).length > 0 ? ['graph'] : []), 'analytics', 'notes']
   const activeSection = useSectionObserver(sectionIds)
 
   // Build a fresh status map from local tasks state (includes optimistic updates)
@@ -208,6 +263,12 @@ export function PlanDetailPage() {
     [tasks],
   )
 
+  // Stable ID list so the graph layout is only recomputed when the path changes
+  const criticalPathIds = useMemo(
+    () => (criticalPath?.tasks || []).map((t) => t.id),
+    [criticalPath],
+  )
+
   if (error) return <ErrorState title="Failed to load" description={error} onRetry={fetchData} />
   if (loading || !plan) return <LoadingPage />
 
@@ -224,7 +285,10 @@ export function PlanDetailPage() {
     { id: 'tasks', label: 'Tasks', count: tasks.length },
     { id: 'constraints', label: 'Constraints', count: constraints.length },
     { id: 'decisions', label: 'Decisions', count: decisions.length },
+    { id: 'commits', label: 'Commits', count: commits.length },
     ...(graph && (graph.nodes || []).length > 0 ? [{ id: 'graph', label: 'Graph', count: (graph.nodes || []).length }] : []),
+    { id: 'analytics', label: 'Analytics' },
+    { id: 'notes', label: 'Notes' },
   ]
 
   // Build parent links for milestone navigation
@@ -260,9 +324,12 @@ export function PlanDetailPage() {
               cancelled: { bg: 'bg-red-900/50', text: 'text-red-400', dot: 'bg-red-400' },
             }}
             onStatusChange={async (newStatus: PlanStatus) => {
-              await plansApi.updateStatus(plan.id, newStatus)
+              await plansApi.updateStatus(plan.id, newStatus, {
+                label: statusChangeLabel('plan', plan.title, newStatus),
+                previous: plan.status,
+              })
               setPlan({ ...plan, status: newStatus })
-              toast.success('Status updated')
+              toast.success('Status updated', { undoable: true })
             }}
           />
         }
@@ -315,6 +382,29 @@ export function PlanDetailPage() {
 
       <SectionNav sections={sections} activeSection={activeSection} />
 
+      {/* Next Up — the task the backend recommends working on next */}
+      {nextTask && (
+        <Link
+          to={workspacePath(wsSlug, `/tasks/${nextTask.id}`)}
+          className="group flex items-center gap-4 p-4 rounded-xl bg-indigo-500/10 ring-1 ring-inset ring-indigo-500/30 hover:bg-indigo-500/15 transition-colors"
+        >
+          <div className="flex-1 min-w-0">
+            <div className="text-xs font-medium uppercase tracking-wide text-indigo-400 mb-1">Next up</div>
+            <div className="text-gray-100 font-medium truncate">
+              {nextTask.title || nextTask.description}
+            </div>
+            {nextTask.title && nextTask.description && (
+              <p className="text-sm text-gray-400 truncate mt-0.5">{nextTask.description}</p>
+            )}
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {nextTask.priority !== undefined && <Badge variant="info">P{nextTask.priority}</Badge>}
+            {criticalPathIds.includes(nextTask.id) && <Badge variant="error">Critical</Badge>}
+            <ArrowRight className="w-4 h-4 text-indigo-400 transition-transform group-hover:translate-x-0.5" />
+          </div>
+        </Link>
+      )}
+
       {/* Task Stats */}
       <section id="overview" className="scroll-mt-20">
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-3 md:gap-4">
@@ -453,6 +543,40 @@ export function PlanDetailPage() {
         </section>
       </div>
 
+      {/* Commits */}
+      <section id="commits" className="scroll-mt-20">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between w-full">
+            <CardTitle>Commits ({commits.length})</CardTitle>
+            <div className="flex items-center gap-3">
+              <div className="flex rounded-md bg-white/[0.06] p-0.5">
+                {(['commits', 'files'] as const).map((view) => (
+                  <button
+                    key={view}
+                    onClick={() => setCommitView(view)}
+                    className={`text-xs px-2 py-1 rounded transition-colors ${
+                      commitView === view ? 'bg-white/[0.1] text-gray-200' : 'text-gray-500 hover:text-gray-300'
+                    }`}
+                  >
+                    {view === 'commits' ? 'Commits' : 'By file'}
+                  </button>
+                ))}
+              </div>
+              <Button size="sm" onClick={() => commitFormDialog.open({ title: 'Link Commit', submitLabel: 'Link' })}>Link</Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {commitView === 'commits' ? (
+            <CommitList commits={commits} tasks={tasks} />
+          ) : (
+            <FileCrossReference commits={commits} tasks={tasks} />
+          )}
+        </CardContent>
+      </Card>
+      </section>
+
       {/* Dependency Graph */}
       {graph && (graph.nodes || []).length > 0 && (
         <section id="graph" className="scroll-mt-20">
@@ -460,24 +584,61 @@ export function PlanDetailPage() {
           <CardHeader>
             <div className="flex items-center justify-between w-full">
               <CardTitle>Dependency Graph</CardTitle>
-              <span className="text-sm text-gray-500">
-                {(graph.nodes || []).length} tasks &middot; {(graph.edges || []).length} dependencies
-              </span>
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-gray-500">
+                  {(graph.nodes || []).length} tasks &middot; {(graph.edges || []).length} dependencies
+                </span>
+                {criticalPathIds.length > 0 && (
+                  <button
+                    onClick={() => setShowCriticalPath(!showCriticalPath)}
+                    className={`text-xs px-2 py-1 rounded-md transition-colors ${
+                      showCriticalPath
+                        ? 'bg-rose-500/15 text-rose-400 ring-1 ring-inset ring-rose-500/30'
+                        : 'text-gray-500 hover:text-gray-300'
+                    }`}
+                    title="Toggle critical path overlay"
+                  >
+                    Critical path &middot; {criticalPathIds.length} tasks &middot; priority {criticalPath?.total_priority ?? 0}
+                  </button>
+                )}
+              </div>
             </div>
           </CardHeader>
           <CardContent>
-            <DependencyGraphView graph={graph} taskStatuses={taskStatusMap} />
+            <DependencyGraphView
+              graph={graph}
+              taskStatuses={taskStatusMap}
+              criticalPath={showCriticalPath ? criticalPathIds : undefined}
+            />
           </CardContent>
         </Card>
         </section>
       )}
 
+      <section id="analytics" className="scroll-mt-20">
+        <Card>
+          <CardHeader>
+            <CardTitle>Analytics</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AnalyticsPanel tasks={tasks} />
+          </CardContent>
+        </Card>
+      </section>
+
+      <section id="notes" className="scroll-mt-20">
+        <EntityNotesCard entityType="plan" entityId={plan.id} projectId={plan.project_id} />
+      </section>
+
       <FormDialog {...taskFormDialog.dialogProps} onSubmit={taskForm.submit} loading={formLoading}>
         {taskForm.fields}
       </FormDialog>
       <FormDialog {...constraintFormDialog.dialogProps} onSubmit={constraintForm.submit} loading={formLoading}>
         {constraintForm.fields}
       </FormDialog>
+      <FormDialog {...commitFormDialog.dialogProps} onSubmit={commitForm.submit} loading={formLoading}>
+        {commitForm.fields}
+      </FormDialog>
       <LinkEntityDialog {...linkDialog.dialogProps} />
       <ConfirmDialog {...confirmDialog.dialogProps} />
     </div>
@@ -1,6 +1,6 @@
 import { useEffect, useState, useCallback, useMemo } from 'react'
 import { useAtom, useAtomValue } from 'jotai'
-import { Link } from 'react-router-dom'
+import { Link, useSearchParams } from 'react-router-dom'
 import { motion, AnimatePresence } from 'motion/react'
 import { plansAtom, plansLoadingAtom, planStatusFilterAtom, planRefreshAtom } from '@/atoms'
 import { plansApi } from '@/services'
@@ -20,12 +20,30 @@ import {
   LoadMoreSentinel,
   SkeletonCard,
 } from '@/components/ui'
-import { useViewMode, useConfirmDialog, useFormDialog, useToast, useMultiSelect, useInfiniteList, useWorkspaceSlug, useViewTransition } from '@/hooks'
+import {
+  useViewMode,
+  useListSort,
+  useSavedViews,
+  useConfirmDialog,
+  useFormDialog,
+  useToast,
+  useMultiSelect,
+  useInfiniteList,
+  useWorkspaceSlug,
+  useViewTransition,
+  useShortcuts,
+  useCardNavigation,
+  useBulkEdit,
+} from '@/hooks'
 import { CreatePlanForm } from '@/components/forms'
 import { PlanKanbanBoard, PlanKanbanFilterBar } from '@/components/kanban'
 import type { PlanKanbanFilters } from '@/components/kanban'
+import { SavedViewTabs } from '@/components/SavedViewTabs'
+import { BulkEditDialog, BulkEditFeedback, planOperation } from '@/components/bulk'
+import type { BulkChange } from '@/components/bulk'
 import { fadeInUp, staggerContainer, useReducedMotion } from '@/utils/motion'
-import type { Plan, PlanStatus, PaginatedResponse } from '@/types'
+import { statusChangeLabel } from '@/utils/undo'
+import type { Plan, PlanStatus, PaginatedResponse, SavedViewState } from '@/types'
 
 const statusOptions = [
   { value: 'all', label: 'All Status' },
@@ -36,6 +54,18 @@ const statusOptions = [
   { value: 'cancelled', label: 'Cancelled' },
 ]
 
+const sortOptions = [
+  { value: '', label: 'Default order' },
+  { value: 'created_at:desc', label: 'Newest first' },
+  { value: 'created_at:asc', label: 'Oldest first' },
+  { value: 'priority:desc', label: 'Highest priority' },
+  { value: 'title:asc', label: 'Title A–Z' },
+]
+
+const bulkStatusOptions = statusOptions.filter((o) => o.value !== 'all')
+const planId = (plan: Plan) => plan.id
+const planLabel = (plan: Plan) => plan.title
+
 const defaultFilters: PlanKanbanFilters = {
   project: 'all',
   search: '',
@@ -52,6 +82,8 @@ export function PlansPage() {
   const planRefresh = useAtomValue(planRefreshAtom)
   const reducedMotion = useReducedMotion()
   const [viewMode, setViewMode] = useViewMode()
+  const [sort, setSort, sortParams] = useListSort()
+  const [searchParams, setSearchParams] = useSearchParams()
   const { navigate } = useViewTransition()
   const confirmDialog = useConfirmDialog()
   const formDialog = useFormDialog()
@@ -88,20 +120,29 @@ export function PlansPage() {
   const listFilters = useMemo(
     () => ({
       status: statusFilter !== 'all' ? statusFilter : undefined,
+      ...sortParams,
       _refresh: planRefresh,
       _ws: wsSlug, // trigger reset on workspace change
     }),
-    [statusFilter, planRefresh, wsSlug],
+    [statusFilter, sortParams, planRefresh, wsSlug],
   )
 
   const listFetcher = useCallback(
-    (params: { limit: number; offset: number; status?: string }): Promise<PaginatedResponse<Plan>> => {
-      return plansApi.list({
-        limit: params.limit,
-        offset: params.offset,
-        status: params.status,
-        workspace_slug: wsSlug,
-      })
+    (
+      params: { limit: number; offset: number; status?: string; sort_by?: string; sort_order?: 'asc' | 'desc' },
+      signal: AbortSignal,
+    ): Promise<PaginatedResponse<Plan>> => {
+      return plansApi.list(
+        {
+          limit: params.limit,
+          offset: params.offset,
+          status: params.status,
+          sort_by: params.sort_by,
+          sort_order: params.sort_order,
+          workspace_slug: wsSlug,
+        },
+        { signal },
+      )
     },
     [wsSlug],
   )
@@ -120,6 +161,7 @@ export function PlansPage() {
     fetcher: listFetcher,
     filters: listFilters,
     enabled: viewMode === 'list',
+    entityType: 'plan',
   })
 
   // Sync plans atom for other components that read it
@@ -132,7 +174,7 @@ export function PlansPage() {
 
   // Stable fetchFn for PlanKanbanBoard (workspace-scoped via server filter)
   const kanbanFetchFn = useCallback(
-    async (params: Record<string, unknown>): Promise<PaginatedResponse<Plan>> => {
+    async (params: Record<string, unknown>, signal: AbortSignal): Promise<PaginatedResponse<Plan>> => {
       const apiParams: Record<string, unknown> = {
         ...params,
         workspace_slug: wsSlug,
@@ -141,7 +183,7 @@ export function PlansPage() {
       if (kanbanFilters.priority_max !== undefined) apiParams.priority_max = kanbanFilters.priority_max
       if (kanbanFilters.search) apiParams.search = kanbanFilters.search
 
-      const response = await plansApi.list(apiParams as Record<string, string | number | undefined>)
+      const response = await plansApi.list(apiParams as Record<string, string | number | undefined>, { signal })
 
       // Client-side filtering (project only — workspace is handled server-side)
       let filtered = response.items || []
@@ -181,15 +223,18 @@ export function PlansPage() {
   }, [kanbanFilters.hide_completed, kanbanFilters.hide_cancelled])
 
   const handlePlanStatusChange = useCallback(
-    async (planId: string, newStatus: PlanStatus) => {
+    async (planId: string, newStatus: PlanStatus, previous: Plan) => {
       const oldPlan = plans.find((p) => p.id === planId)
       updateItem(
         (p) => p.id === planId,
         (p) => ({ ...p, status: newStatus }),
       )
       try {
-        await plansApi.updateStatus(planId, newStatus)
-        toast.success('Status updated')
+        await plansApi.updateStatus(planId, newStatus, {
+          label: statusChangeLabel('plan', previous.title, newStatus),
+          previous: previous.status,
+        })
+        toast.success('Status updated', { undoable: true })
       } catch {
         // Rollback optimistic update
         if (oldPlan) updateItem((p) => p.id === planId, () => oldPlan)
@@ -237,8 +282,43 @@ export function PlansPage() {
     })
   }
 
+  const [bulkEditOpen, setBulkEditOpen] = useState(false)
+  const bulkEdit = useBulkEdit({ getId: planId, getLabel: planLabel, onDone: reset })
+
+  const handleBulkEdit = (change: BulkChange) => {
+    setBulkEditOpen(false)
+    void bulkEdit.run(multiSelect.selectedItems, planOperation(change))
+  }
+
   const openCreatePlan = () => formDialog.open({ title: 'Create Plan', size: 'lg' })
 
+  useShortcuts('Plans', [{ keys: 'c', description: 'Create plan', handler: openCreatePlan }])
+  useCardNavigation('Plans', {
+    onOpen: (id) => navigate(`/workspace/${wsSlug}/plans/${id}`, { type: 'card-click' }),
+    onToggleSelect: viewMode === 'list' ? (id) => multiSelect.toggle(id) : undefined,
+  })
+
+  // Saved views: list status + board filters, view mode and sort
+  const savedViews = useSavedViews('plans', {
+    current: {
+      filters: { status: statusFilter !== 'all' ? statusFilter : undefined, board: kanbanFilters },
+      view_mode: viewMode,
+      sort,
+    },
+    initial: { filters: { board: defaultFilters }, view_mode: viewMode },
+    apply: (state: SavedViewState) => {
+      const { status, board } = state.filters as { status?: PlanStatus; board?: Partial<PlanKanbanFilters> }
+      setStatusFilter(status ?? 'all')
+      setKanbanFilters({ ...defaultFilters, ...board })
+      // One URL update: separate setSearchParams calls in the same tick overwrite each other
+      const params = new URLSearchParams()
+      if (state.view_mode && state.view_mode !== 'list') params.set('view', state.view_mode)
+      if (state.sort) params.set('sort', state.sort)
+      setSearchParams(params, { replace: true })
+    },
+    pristine: searchParams.toString() === '' && statusFilter === 'all',
+  })
+
   const showListSkeleton = loading && viewMode === 'list' && plans.length === 0
 
   return (
@@ -255,11 +335,16 @@ export function PlansPage() {
               className="w-full sm:w-40"
             />
           )}
+          {viewMode === 'list' && (
+            <Select options={sortOptions} value={sort} onChange={setSort} className="w-full sm:w-44" />
+          )}
           <ViewToggle value={viewMode} onChange={setViewMode} />
           <Button onClick={openCreatePlan}>Create Plan</Button>
         </>
       }
     >
+      <SavedViewTabs savedViews={savedViews} />
+
       {/* Kanban filters */}
       {viewMode === 'kanban' && (
         <PlanKanbanFilterBar
@@ -323,12 +408,15 @@ export function PlansPage() {
                     onToggleSelect={(shiftKey) => multiSelect.toggle(plan.id, shiftKey)}
                     plan={plan}
                     onStatusChange={async (newStatus) => {
-                      await plansApi.updateStatus(plan.id, newStatus)
+                      await plansApi.updateStatus(plan.id, newStatus, {
+                        label: statusChangeLabel('plan', plan.title, newStatus),
+                        previous: plan.status,
+                      })
                       updateItem(
                         (p) => p.id === plan.id,
                         (p) => ({ ...p, status: newStatus }),
                       )
-                      toast.success('Status updated')
+                      toast.success('Status updated', { undoable: true })
                     }}
                     onDelete={() =>
                       confirmDialog.open({
@@ -354,6 +442,24 @@ export function PlansPage() {
         count={multiSelect.selectionCount}
         onDelete={handleBulkDelete}
         onClear={multiSelect.clear}
+        onEdit={() => setBulkEditOpen(true)}
+        editing={bulkEdit.busy}
+      />
+      <BulkEditDialog
+        open={bulkEditOpen}
+        onClose={() => setBulkEditOpen(false)}
+        onSubmit={handleBulkEdit}
+        count={multiSelect.selectionCount}
+        noun="plan"
+        kinds={['status', 'priority']}
+        statusOptions={bulkStatusOptions}
+      />
+      <BulkEditFeedback
+        progress={bulkEdit.progress}
+        result={bulkEdit.result}
+        noun="plan"
+        onUndo={() => void bulkEdit.undo()}
+        onDismiss={bulkEdit.dismiss}
       />
       <FormDialog {...formDialog.dialogProps} onSubmit={planForm.submit} loading={formLoading}>
         {planForm.fields}
@@ -387,7 +493,7 @@ function PlanCard({
   wsSlug: string
 }) {
   return (
-    <Link to={`/workspace/${wsSlug}/plans/${plan.id}`}>
+    <Link to={`/workspace/${wsSlug}/plans/${plan.id}`} data-nav-id={plan.id} className="block rounded-xl outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/60">
       <Card lazy="lg" className={`transition-colors ${selected ? 'border-indigo-500/40 bg-indigo-500/[0.05]' : 'hover:border-indigo-500'}`}>
         <div className="flex">
           {onToggleSelect && (
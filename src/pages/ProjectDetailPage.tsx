@@ -4,9 +4,12 @@ import { useSetAtom, useAtomValue } from 'jotai'
 import { FolderOpen, Clipboard, RefreshCw, ChevronsUpDown, Trash2 } from 'lucide-react'
 import { Card, CardHeader, CardTitle, CardContent, Button, ConfirmDialog, FormDialog, LinkEntityDialog, LoadingPage, ErrorState, Badge, ProgressBar, PageHeader, SectionNav } from '@/components/ui'
 import { ExpandablePlanRow } from '@/components/expandable'
-import { projectsApi, plansApi, featureGraphsApi } from '@/services'
-import { useConfirmDialog, useFormDialog, useLinkDialog, useToast, useSectionObserver, useWorkspaceSlug } from '@/hooks'
+import { EntityNotesCard } from '@/components/EntityNotesCard'
+import { TimelineView } from '@/components/TimelineView'
+import { projectsApi, plansApi, featureGraphsApi, isAbortError } from '@/services'
+import { useConfirmDialog, useFormDialog, useLinkDialog, useToast, useSectionObserver, useWorkspaceSlug, useLatestSignal, useEntityPatches, patchEntityList } from '@/hooks'
 import { workspacePath } from '@/utils/paths'
+import { statusChangeLabel } from '@/utils/undo'
 import { chatSuggestedProjectIdAtom, projectRefreshAtom, planRefreshAtom, milestoneRefreshAtom, taskRefreshAtom } from '@/atoms'
 import { CreateMilestoneForm, CreateReleaseForm } from '@/components/forms'
 import type { Project, Plan, ProjectRoadmap, PlanStatus, FeatureGraph } from '@/types'
@@ -37,20 +40,25 @@ export function ProjectDetailPage() {
   const [plansCollapseAll, setPlansCollapseAll] = useState(0)
   const [plansAllExpanded, setPlansAllExpanded] = useState(false)
 
+  const nextSignal = useLatestSignal()
+
   const fetchData = useCallback(async () => {
     if (!slug) return
+    const signal = nextSignal()
     setError(null)
     // Only show loading spinner on initial load, not on WS-triggered refreshes
     const isInitialLoad = !project
     if (isInitialLoad) setLoading(true)
     try {
       // First get the project
-      const projectData = await projectsApi.get(slug)
+      const projectData = await projectsApi.get(slug, { signal })
+      if (signal.aborted) return
       setProject(projectData)
       setSuggestedProjectId(projectData.id)
 
       // Fetch plans filtered by project_id (client-side filter as backend filter doesn't work)
-      const allPlansData = await plansApi.list({ limit: 100 })
+      const allPlansData = await plansApi.list({ limit: 100 }, { signal })
+      if (signal.aborted) return
       const projectPlans = (allPlansData.items || []).filter(
         (plan) => plan.project_id === projectData.id
       )
@@ -72,18 +80,24 @@ export function ProjectDetailPage() {
         console.error('Failed to fetch feature graphs:', fgError)
       }
     } catch (error) {
+      if (isAbortError(error)) return
       console.error('Failed to fetch project:', error)
       setError('Failed to load project')
     } finally {
-      if (isInitialLoad) setLoading(false)
+      if (isInitialLoad && !signal.aborted) setLoading(false)
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps -- project is a data object (would cause loop); setSuggestedProjectId is a stable Jotai setter
-  }, [slug, projectRefresh, planRefresh, milestoneRefresh, taskRefresh])
+  }, [slug, projectRefresh, planRefresh, milestoneRefresh, taskRefresh, nextSignal])
 
   useEffect(() => {
     fetchData()
   }, [fetchData])
 
+  // Live updates from the entity store: plans are patched in place (status
+  // changes refetch through the refresh counters, the roadmap aggregates
+  // progress server-side)
+  useEntityPatches('plan', (record) => setPlans((prev) => patchEntityList(prev, record)))
+
   const handleSync = async () => {
     if (!slug) return
     setSyncing(true)
@@ -142,7 +156,7 @@ export function ProjectDetailPage() {
   })
 
   const hasRoadmap = roadmap && ((roadmap.milestones || []).length > 0 || roadmap.releases.length > 0)
-  const sectionIds = [...(hasRoadmap ? ['roadmap'] : []), 'plans', 'feature-graphs']
+  const sectionIds = [...(hasRoadmap ? ['roadmap'] : []), 'plans', 'feature-graphs', 'notes']
   const activeSection = useSectionObserver(sectionIds)
 
   if (error) return <ErrorState title="Failed to load" description={error} onRetry={fetchData} />
@@ -152,6 +166,7 @@ export function ProjectDetailPage() {
     ...(hasRoadmap ? [{ id: 'roadmap', label: 'Roadmap', count: (roadmap!.milestones || []).length + roadmap!.releases.length }] : []),
     { id: 'plans', label: 'Plans', count: plans.length },
     { id: 'feature-graphs', label: 'Feature Graphs', count: featureGraphs.length },
+    { id: 'notes', label: 'Notes' },
   ]
 
   return (
@@ -235,7 +250,52 @@ export function ProjectDetailPage() {
 
       {/* Milestones & Releases */}
       {roadmap && (
-        <section id="roadmap" className="scroll-mt-20">
+        <section id="roadmap" className="scroll-mt-20 space-y-4 md:space-y-6">
+        {(roadmap.milestones || []).length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Timeline</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TimelineView
+                items={(roadmap.milestones || []).map(({ milestone, tasks, progress }) => ({
+                  id: milestone.id,
+                  title: milestone.title,
+                  href: workspacePath(wsSlug, `/project-milestones/${milestone.id}`),
+                  status: milestone.status?.toLowerCase() || 'open',
+                  start: (tasks || []).map((t) => t.started_at).filter((d): d is string => !!d).sort()[0] || milestone.created_at,
+                  target: milestone.target_date,
+                  progress: progress?.percentage,
+                }))}
+                markers={roadmap.releases
+                  .filter(({ release }) => (release.released_at || release.target_date) && release.status !== 'cancelled')
+                  .map(({ release }) => ({
+                    id: release.id,
+                    label: `v${release.version}`,
+                    date: (release.released_at || release.target_date) as string,
+                    done: release.status === 'released',
+                  }))}
+                onTargetDateChange={async (milestoneId, targetDate) => {
+                  const target_date = targetDate.toISOString()
+                  try {
+                    await projectsApi.updateMilestone(milestoneId, { target_date })
+                    setRoadmap({
+                      ...roadmap,
+                      milestones: roadmap.milestones.map((entry) =>
+                        entry.milestone.id === milestoneId
+                          ? { ...entry, milestone: { ...entry.milestone, target_date } }
+                          : entry,
+                      ),
+                    })
+                    toast.success(`Target date moved to ${targetDate.toLocaleDateString()}`)
+                  } catch {
+                    toast.error('Failed to update target date')
+                  }
+                }}
+              />
+            </CardContent>
+          </Card>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
           <Card>
             <CardHeader>
@@ -283,7 +343,11 @@ export function ProjectDetailPage() {
               ) : (
                 <div className="space-y-3">
                   {roadmap.releases.map(({ release }) => (
-                    <div key={release.id} className="flex items-center justify-between gap-2 p-3 bg-white/[0.06] rounded-lg">
+                    <Link
+                      key={release.id}
+                      to={workspacePath(wsSlug, `/releases/${release.id}`)}
+                      className="flex items-center justify-between gap-2 p-3 bg-white/[0.06] rounded-lg hover:bg-white/[0.08] transition-colors"
+                    >
                       <div className="min-w-0 truncate">
                         <span className="font-medium text-gray-200">v{release.version}</span>
                         {release.title && (
@@ -293,7 +357,7 @@ export function ProjectDetailPage() {
                       <Badge variant={release.status === 'released' ? 'success' : 'default'}>
                         {release.status}
                       </Badge>
-                    </div>
+                    </Link>
                   ))}
                 </div>
               )}
@@ -359,9 +423,12 @@ export function ProjectDetailPage() {
                   key={plan.id}
                   plan={plan}
                   onStatusChange={async (newStatus: PlanStatus) => {
-                    await plansApi.updateStatus(plan.id, newStatus)
+                    await plansApi.updateStatus(plan.id, newStatus, {
+                      label: statusChangeLabel('plan', plan.title, newStatus),
+                      previous: plan.status,
+                    })
                     setPlans((prev) => prev.map((p) => (p.id === plan.id ? { ...p, status: newStatus } : p)))
-                    toast.success('Status updated')
+                    toast.success('Status updated', { undoable: true })
                   }}
                   refreshTrigger={taskRefresh}
                   expandAllSignal={plansExpandAll}
@@ -436,6 +503,10 @@ export function ProjectDetailPage() {
       </Card>
       </section>
 
+      <section id="notes" className="scroll-mt-20">
+        <EntityNotesCard entityType="project" entityId={project.id} projectId={project.id} />
+      </section>
+
       <FormDialog {...milestoneFormDialog.dialogProps} onSubmit={milestoneForm.submit} loading={formLoading}>
         {milestoneForm.fields}
       </FormDialog>
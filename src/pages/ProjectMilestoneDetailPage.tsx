@@ -20,10 +20,12 @@ import {
 } from '@/components/ui'
 import type { ParentLink } from '@/components/ui/PageHeader'
 import { ExpandablePlanRow, ExpandableTaskRow } from '@/components/expandable'
-import { projectsApi, plansApi, tasksApi } from '@/services'
+import { projectsApi, plansApi, tasksApi, isAbortError } from '@/services'
 import { PlanKanbanBoard } from '@/components/kanban'
-import { useViewMode, useConfirmDialog, useLinkDialog, useToast, useSectionObserver, useWorkspaceSlug } from '@/hooks'
+import { AnalyticsPanel } from '@/components/AnalyticsPanel'
+import { useViewMode, useConfirmDialog, useLinkDialog, useToast, useSectionObserver, useWorkspaceSlug, useLatestSignal, useEntityPatches, patchEntityList } from '@/hooks'
 import { workspacePath } from '@/utils/paths'
+import { statusChangeLabel } from '@/utils/undo'
 import { milestoneRefreshAtom, planRefreshAtom, taskRefreshAtom, projectRefreshAtom } from '@/atoms'
 import type {
   Milestone,
@@ -63,17 +65,21 @@ export function ProjectMilestoneDetailPage() {
   const [tasksCollapseAll, setTasksCollapseAll] = useState(0)
   const [tasksAllExpanded, setTasksAllExpanded] = useState(false)
 
+  const nextSignal = useLatestSignal()
+
   const refreshData = useCallback(async () => {
     if (!milestoneId) return
+    const signal = nextSignal()
     setError(null)
     // Only show loading spinner on initial load, not on WS-triggered refreshes
     const isInitialLoad = !milestone
     if (isInitialLoad) setLoading(true)
     try {
       const [response, progressData] = await Promise.all([
-        projectsApi.getMilestone(milestoneId),
+        projectsApi.getMilestone(milestoneId, { signal }),
         projectsApi.getMilestoneProgress(milestoneId).catch(() => null),
       ])
+      if (signal.aborted) return
 
       // API returns { milestone: {...}, tasks: [...] }
       setMilestone(response.milestone)
@@ -124,25 +130,37 @@ export function ProjectMilestoneDetailPage() {
         }
       }
     } catch (error) {
+      if (isAbortError(error)) return
       console.error('Failed to fetch milestone:', error)
       setError('Failed to load milestone')
     } finally {
-      if (isInitialLoad) setLoading(false)
+      if (isInitialLoad && !signal.aborted) setLoading(false)
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps -- milestone is a data object (would cause infinite loop)
-  }, [milestoneId, milestoneRefresh, planRefresh, taskRefresh, projectRefresh])
+  }, [milestoneId, milestoneRefresh, planRefresh, taskRefresh, projectRefresh, nextSignal])
 
   useEffect(() => {
     refreshData()
   }, [refreshData])
 
+  // Live updates from the entity store: tasks and plans are patched in place;
+  // status changes refetch through the refresh counters, since progress is
+  // aggregated server-side
+  useEntityPatches(['plan', 'task'], (record) => {
+    if (record.entityType === 'plan') setPlans((prev) => patchEntityList(prev, record))
+    else setMilestoneTasks((prev) => patchEntityList(prev, record))
+  })
+
   const handlePlanStatusChange = useCallback(
-    async (planId: string, newStatus: PlanStatus) => {
+    async (planId: string, newStatus: PlanStatus, previous: Plan) => {
       const original = plans.find((p) => p.id === planId)
       setPlans((prev) => prev.map((p) => (p.id === planId ? { ...p, status: newStatus } : p)))
       try {
-        await plansApi.updateStatus(planId, newStatus)
-        toast.success('Status updated')
+        await plansApi.updateStatus(planId, newStatus, {
+          label: statusChangeLabel('plan', previous.title, newStatus),
+          previous: previous.status,
+        })
+        toast.success('Status updated', { undoable: true })
       } catch (error) {
         if (original) {
           setPlans((prev) => prev.map((p) => (p.id === planId ? original : p)))
@@ -182,7 +200,7 @@ export function ProjectMilestoneDetailPage() {
     toast.success('Task added')
   }, [milestoneId, toast])
 
-  const sectionIds = ['progress', 'plans', 'tasks']
+  const sectionIds = ['progress', 'plans', 'tasks', 'analytics']
   const activeSection = useSectionObserver(sectionIds)
 
   if (error) return <ErrorState title="Failed to load" description={error} onRetry={refreshData} />
@@ -192,6 +210,7 @@ export function ProjectMilestoneDetailPage() {
     { id: 'progress', label: 'Progress' },
     { id: 'plans', label: 'Plans', count: plans.length },
     { id: 'tasks', label: 'Tasks', count: milestoneTasks.length },
+    { id: 'analytics', label: 'Analytics' },
   ]
 
   // Build parent links for navigation
@@ -336,11 +355,14 @@ export function ProjectMilestoneDetailPage() {
                     key={plan.id}
                     plan={plan}
                     onStatusChange={async (newStatus: PlanStatus) => {
-                      await plansApi.updateStatus(plan.id, newStatus)
+                      await plansApi.updateStatus(plan.id, newStatus, {
+                        label: statusChangeLabel('plan', plan.title, newStatus),
+                        previous: plan.status,
+                      })
                       setPlans((prev) =>
                         prev.map((p) => (p.id === plan.id ? { ...p, status: newStatus } : p)),
                       )
-                      toast.success('Status updated')
+                      toast.success('Status updated', { undoable: true })
                     }}
                     refreshTrigger={taskRefresh}
                     expandAllSignal={plansExpandAll}
@@ -416,6 +438,18 @@ export function ProjectMilestoneDetailPage() {
         </Card>
       </section>
 
+      {/* Analytics */}
+      <section id="analytics" className="scroll-mt-20">
+        <Card>
+          <CardHeader>
+            <CardTitle>Analytics</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AnalyticsPanel tasks={milestoneTasks} targetDate={milestone.target_date} />
+          </CardContent>
+        </Card>
+      </section>
+
       <LinkEntityDialog {...linkDialog.dialogProps} />
       <ConfirmDialog {...confirmDialog.dialogProps} />
     </div>
@@ -6,7 +6,7 @@ import { activeWorkspaceAtom, projectRefreshAtom } from '@/atoms'
 import { projectsApi } from '@/services'
 import { workspacesApi } from '@/services/workspaces'
 import { Card, CardContent, Button, EmptyState, Badge, ConfirmDialog, FormDialog, OverflowMenu, PageShell, SelectZone, BulkActionBar, SkeletonCard, ErrorState } from '@/components/ui'
-import { useConfirmDialog, useFormDialog, useToast, useMultiSelect, useWorkspaceSlug } from '@/hooks'
+import { useConfirmDialog, useFormDialog, useToast, useMultiSelect, useWorkspaceSlug, useWorkspaceNavigate, useShortcuts, useCardNavigation } from '@/hooks'
 import { CreateProjectForm } from '@/components/forms'
 import { fadeInUp, staggerContainer, useReducedMotion } from '@/utils/motion'
 import type { Project } from '@/types'
@@ -72,6 +72,13 @@ export function ProjectsPage() {
 
   const multiSelect = useMultiSelect(projects, (p) => p.slug)
 
+  const wsNavigate = useWorkspaceNavigate()
+  useShortcuts('Projects', [{ keys: 'c', description: 'Create project', handler: openCreateDialog }])
+  useCardNavigation('Projects', {
+    onOpen: (slug) => wsNavigate(`/projects/${slug}`),
+    onToggleSelect: (slug) => multiSelect.toggle(slug),
+  })
+
   const handleBulkDelete = () => {
     const count = multiSelect.selectionCount
     confirmDialog.open({
@@ -174,7 +181,11 @@ export function ProjectsPage() {
 
 function ProjectCard({ project, onDelete, selected, onToggleSelect, wsSlug }: { project: Project; onDelete: () => void; selected?: boolean; onToggleSelect?: (shiftKey: boolean) => void; wsSlug: string }) {
   return (
-    <Link to={`/workspace/${wsSlug}/projects/${project.slug}`}>
+    <Link
+      to={`/workspace/${wsSlug}/projects/${project.slug}`}
+      data-nav-id={project.slug}
+      className="block h-full rounded-xl outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/60"
+    >
       <Card className={`h-full transition-colors ${selected ? 'border-indigo-500/40 bg-indigo-500/[0.05]' : 'hover:border-indigo-500'}`}>
         <div className="flex h-full">
           {onToggleSelect && (
@@ -0,0 +1,315 @@
+import { useEffect, useState, useCallback, useMemo } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { useAtomValue } from 'jotai'
+import { Check, Copy, Download, FolderKanban } from 'lucide-react'
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  LoadingPage,
+  ErrorState,
+  Button,
+  FormDialog,
+  LinkEntityDialog,
+  TaskStatusBadge,
+  PageHeader,
+  StatusSelect,
+  SectionNav,
+} from '@/components/ui'
+import type { ParentLink } from '@/components/ui/PageHeader'
+import { LinkCommitForm } from '@/components/forms'
+import { CommitList } from '@/components/CommitList'
+import { projectsApi, tasksApi, isAbortError } from '@/services'
+import { useFormDialog, useLinkDialog, useToast, useSectionObserver, useWorkspaceSlug, useLatestSignal, useEntityPatches, patchEntityList } from '@/hooks'
+import { workspacePath } from '@/utils/paths'
+import { buildReleaseChangelog } from '@/utils/changelog'
+import { projectRefreshAtom, taskRefreshAtom } from '@/atoms'
+import type { ReleaseStatus, Project, TaskStatus, TaskWithPlan } from '@/types'
+
+type ReleaseDetail = Awaited<ReturnType<typeof projectsApi.getRelease>>
+
+export function ReleaseDetailPage() {
+  const { releaseId } = useParams<{ releaseId: string }>()
+  const wsSlug = useWorkspaceSlug()
+  const [release, setRelease] = useState<ReleaseDetail | null>(null)
+  const [project, setProject] = useState<Project | null>(null)
+  // Tasks of the parent project — supplies tags for the changelog and options for linking
+  const [projectTasks, setProjectTasks] = useState<TaskWithPlan[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const linkDialog = useLinkDialog()
+  const commitFormDialog = useFormDialog()
+  const [formLoading, setFormLoading] = useState(false)
+  const toast = useToast()
+  const projectRefresh = useAtomValue(projectRefreshAtom)
+  const taskRefresh = useAtomValue(taskRefreshAtom)
+
+  const nextSignal = useLatestSignal()
+
+  const fetchData = useCallback(async () => {
+    if (!releaseId) return
+    const signal = nextSignal()
+    setError(null)
+    // Only show loading spinner on initial load, not on WS-triggered refreshes
+    const isInitialLoad = !release
+    if (isInitialLoad) setLoading(true)
+    try {
+      const releaseData = await projectsApi.getRelease(releaseId, { signal })
+      if (signal.aborted) return
+      setRelease(releaseData)
+
+      const [projectsData, tasksData] = await Promise.all([
+        projectsApi.list({ limit: 100 }).catch(() => null),
+        tasksApi.list({ project_id: releaseData.project_id, limit: 100 }, { signal }).catch(() => null),
+      ])
+      if (signal.aborted) return
+      setProject((projectsData?.items || []).find((p) => p.id === releaseData.project_id) ?? null)
+      setProjectTasks(tasksData?.items || [])
+    } catch (error) {
+      if (isAbortError(error)) return
+      console.error('Failed to fetch release:', error)
+      setError('Failed to load release')
+    } finally {
+      if (isInitialLoad && !signal.aborted) setLoading(false)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- release is a data object (would cause infinite loop)
+  }, [releaseId, projectRefresh, taskRefresh, nextSignal])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  // Live task updates from the entity store — patched in place instead of refetching
+  useEntityPatches('task', (record) => {
+    setRelease((prev) => (prev ? { ...prev, tasks: patchEntityList(prev.tasks || [], record) } : prev))
+    setProjectTasks((prev) => patchEntityList(prev, record))
+  })
+
+  const changelog = useMemo(() => {
+    if (!release) return ''
+    const tagsById = new Map(projectTasks.map((t) => [t.id, t.tags]))
+    const tasks = (release.tasks || []).map((t) => ({ ...t, tags: tagsById.get(t.id) }))
+    return buildReleaseChangelog(release, tasks, release.commits || [])
+  }, [release, projectTasks])
+
+  const commitForm = LinkCommitForm({
+    onSubmit: async (data) => {
+      if (!release) return
+      setFormLoading(true)
+      try {
+        await projectsApi.addCommitToRelease(release.id, data.commit_sha)
+        setRelease(await projectsApi.getRelease(release.id))
+        commitFormDialog.close()
+        toast.success('Commit linked')
+      } catch {
+        toast.error('Failed to link commit')
+      } finally {
+        setFormLoading(false)
+      }
+    },
+    loading: formLoading,
+  })
+
+  const sectionIds = ['tasks', 'commits', 'changelog']
+  const activeSection = useSectionObserver(sectionIds)
+
+  if (error) return <ErrorState title="Failed to load" description={error} onRetry={fetchData} />
+  if (loading || !release) return <LoadingPage />
+
+  const tasks = release.tasks || []
+  const commits = release.commits || []
+  const releaseTaskIds = new Set(tasks.map((t) => t.id))
+
+  const handleStatusChange = async (newStatus: ReleaseStatus) => {
+    const data: { status: ReleaseStatus; released_at?: string } = { status: newStatus }
+    if (newStatus === 'released' && !release.released_at) {
+      data.released_at = new Date().toISOString()
+    }
+    await projectsApi.updateRelease(release.id, data)
+    setRelease({ ...release, ...data })
+    toast.success('Status updated')
+  }
+
+  const handleAddTask = async (taskId: string) => {
+    await projectsApi.addTaskToRelease(release.id, taskId)
+    const updated = await projectsApi.getRelease(release.id)
+    setRelease(updated)
+    toast.success('Task added')
+  }
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(changelog)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const handleDownload = () => {
+    const blob = new Blob([changelog], { type: 'text/markdown' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `CHANGELOG-v${release.version}.md`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const sections = [
+    { id: 'tasks', label: 'Tasks', count: tasks.length },
+    { id: 'commits', label: 'Commits', count: commits.length },
+    { id: 'changelog', label: 'Changelog' },
+  ]
+
+  const parentLinks: ParentLink[] = []
+  if (project) {
+    parentLinks.push({
+      icon: FolderKanban,
+      label: 'Project',
+      name: project.name,
+      href: workspacePath(wsSlug, `/projects/${project.slug}`),
+    })
+  }
+
+  return (
+    <div className="pt-6 space-y-6">
+      <PageHeader
+        title={`v${release.version}${release.title ? ` — ${release.title}` : ''}`}
+        description={release.description}
+        parentLinks={parentLinks.length > 0 ? parentLinks : undefined}
+        status={
+          <StatusSelect
+            status={release.status}
+            options={[
+              { value: 'planned', label: 'Planned' },
+              { value: 'in_progress', label: 'In Progress' },
+              { value: 'released', label: 'Released' },
+              { value: 'cancelled', label: 'Cancelled' },
+            ]}
+            colorMap={{
+              planned: { bg: 'bg-white/[0.08]', text: 'text-gray-200', dot: 'bg-gray-400' },
+              in_progress: { bg: 'bg-yellow-900/50', text: 'text-yellow-400', dot: 'bg-yellow-400' },
+              released: { bg: 'bg-green-900/50', text: 'text-green-400', dot: 'bg-green-400' },
+              cancelled: { bg: 'bg-red-900/50', text: 'text-red-400', dot: 'bg-red-400' },
+            }}
+            onStatusChange={handleStatusChange}
+          />
+        }
+        metadata={[
+          { label: 'Created', value: new Date(release.created_at).toLocaleDateString() },
+          ...(release.target_date
+            ? [{ label: 'Target', value: new Date(release.target_date).toLocaleDateString() }]
+            : []),
+          ...(release.released_at
+            ? [{ label: 'Released', value: new Date(release.released_at).toLocaleDateString() }]
+            : []),
+        ]}
+      />
+
+      <SectionNav sections={sections} activeSection={activeSection} />
+
+      {/* Tasks */}
+      <section id="tasks" className="scroll-mt-20">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Tasks ({tasks.length})</CardTitle>
+              <Button
+                size="sm"
+                onClick={() =>
+                  linkDialog.open({
+                    title: 'Add Task to Release',
+                    submitLabel: 'Add',
+                    fetchOptions: async () => {
+                      const existingIds = new Set(tasks.map((t) => t.id))
+                      return projectTasks
+                        .filter((t) => !existingIds.has(t.id))
+                        .map((t) => ({
+                          value: t.id,
+                          label: t.title || t.description || 'Untitled',
+                          description: t.plan_title ? `${t.plan_title} · ${t.status}` : t.status,
+                        }))
+                    },
+                    onLink: handleAddTask,
+                  })
+                }
+              >
+                Add Task
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {tasks.length === 0 ? (
+              <p className="text-gray-500 text-sm">No tasks in this release</p>
+            ) : (
+              <div className="space-y-2">
+                {tasks.map((task) => (
+                  <Link
+                    key={task.id}
+                    to={workspacePath(wsSlug, `/tasks/${task.id}`)}
+                    className="flex items-center justify-between gap-3 p-3 bg-white/[0.06] rounded-lg hover:bg-white/[0.08] transition-colors"
+                  >
+                    <span className="text-gray-200 truncate min-w-0">{task.title}</span>
+                    <TaskStatusBadge status={task.status as TaskStatus} />
+                  </Link>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </section>
+
+      {/* Commits */}
+      <section id="commits" className="scroll-mt-20">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Commits ({commits.length})</CardTitle>
+              <Button size="sm" onClick={() => commitFormDialog.open({ title: 'Link Commit', submitLabel: 'Link' })}>
+                Link Commit
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <CommitList
+              commits={commits}
+              tasks={projectTasks.filter((t) => releaseTaskIds.has(t.id))}
+              emptyMessage="No commits in this release"
+            />
+          </CardContent>
+        </Card>
+      </section>
+
+      {/* Changelog */}
+      <section id="changelog" className="scroll-mt-20">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Changelog</CardTitle>
+              <div className="flex gap-2">
+                <Button variant="secondary" size="sm" onClick={handleCopy}>
+                  {copied ? <Check className="w-4 h-4 mr-1.5" /> : <Copy className="w-4 h-4 mr-1.5" />}
+                  {copied ? 'Copied' : 'Copy'}
+                </Button>
+                <Button variant="secondary" size="sm" onClick={handleDownload}>
+                  <Download className="w-4 h-4 mr-1.5" />
+                  Download
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <pre className="text-sm text-gray-300 font-mono whitespace-pre-wrap bg-black/20 rounded-lg p-4 max-h-96 overflow-y-auto">
+              {changelog}
+            </pre>
+          </CardContent>
+        </Card>
+      </section>
+
+      <FormDialog {...commitFormDialog.dialogProps} onSubmit={commitForm.submit} loading={formLoading}>
+        {commitForm.fields}
+      </FormDialog>
+      <LinkEntityDialog {...linkDialog.dialogProps} />
+    </div>
+  )
+}
@@ -1,14 +1,18 @@
 import { useEffect, useState, useCallback } from 'react'
 import { useParams, Link, useLocation } from 'react-router-dom'
-import { useAtomValue } from 'jotai'
-import { ClipboardList, FolderKanban } from 'lucide-react'
+import { useAtomValue, useSetAtom } from 'jotai'
+import { ClipboardList, FolderKanban, Radar, Copy, Check, MessageSquare } from 'lucide-react'
 import { Card, CardHeader, CardTitle, CardContent, LoadingPage, ErrorState, Badge, Button, ConfirmDialog, FormDialog, LinkEntityDialog, TaskStatusBadge, InteractiveStepStatusBadge, ProgressBar, PageHeader, StatusSelect, SectionNav } from '@/components/ui'
 import type { ParentLink } from '@/components/ui/PageHeader'
-import { tasksApi, plansApi, projectsApi } from '@/services'
-import { useConfirmDialog, useFormDialog, useLinkDialog, useToast, useSectionObserver, useWorkspaceSlug, useViewTransition } from '@/hooks'
-import { workspacePath } from '@/utils/paths'
-import { taskRefreshAtom, projectRefreshAtom, planRefreshAtom } from '@/atoms'
-import { CreateStepForm, CreateDecisionForm } from '@/components/forms'
+import { tasksApi, plansApi, projectsApi, workspacesApi, chatApi, isAbortError } from '@/services'
+import { useConfirmDialog, useFormDialog, useLinkDialog, useToast, useSectionObserver, useWorkspaceSlug, useViewTransition, useLatestSignal, useEntityPatches, patchEntity, patchEntityList } from '@/hooks'
+import { workspacePath, codeFilePath } from '@/utils/paths'
+import { statusChangeLabel } from '@/utils/undo'
+import { taskRefreshAtom, projectRefreshAtom, planRefreshAtom, chatPanelModeAtom, chatSessionIdAtom } from '@/atoms'
+import { CreateStepForm, CreateDecisionForm, LinkCommitForm } from '@/components/forms'
+import { ImpactPanel } from '@/components/ImpactPanel'
+import { EntityNotesCard } from '@/components/EntityNotesCard'
+import { CommitList } from '@/components/CommitList'
 import type { Task, Step, Decision, Commit, TaskStatus, StepStatus, Project } from '@/types'
 
 // The API response structure
@@ -37,6 +41,7 @@ export function TaskDetailPage() {
   const confirmDialog = useConfirmDialog()
   const stepFormDialog = useFormDialog()
   const decisionFormDialog = useFormDialog()
+  const commitFormDialog = useFormDialog()
   const linkDialog = useLinkDialog()
   const toast = useToast()
   const taskRefresh = useAtomValue(taskRefreshAtom)
@@ -56,16 +61,22 @@ export function TaskDetailPage() {
   const [parentPlanId, setParentPlanId] = useState<string | null>(null)
   const [parentPlanTitle, setParentPlanTitle] = useState<string | null>(null)
   const [parentProject, setParentProject] = useState<Project | null>(null)
+  // Affected file whose impact analysis is expanded (one at a time)
+  const [impactFile, setImpactFile] = useState<string | null>(null)
+
+  const nextSignal = useLatestSignal()
 
   const fetchData = useCallback(async () => {
     if (!taskId) return
+    const signal = nextSignal()
     setError(null)
     // Only show loading spinner on initial load, not on WS-triggered refreshes
     const isInitialLoad = !task
     if (isInitialLoad) setLoading(true)
     try {
         // The API returns { task, steps, decisions, depends_on, modifies_files }
-        const response = await tasksApi.get(taskId) as unknown as TaskApiResponse
+        const response = await tasksApi.get(taskId, { signal }) as unknown as TaskApiResponse
+        if (signal.aborted) return
 
         // Handle both nested and flat response structures
         const taskData = response.task || response
@@ -77,24 +88,39 @@ export function TaskDetailPage() {
         const [blockersData, blockingData, commitsData] = await Promise.all([
           tasksApi.getBlockers(taskId).catch(() => ({ items: [] })),
           tasksApi.getBlocking(taskId).catch(() => ({ items: [] })),
-          tasksApi.getCommits(taskId).catch(() => ({ items: [] })),
+          tasksApi.getCommits(taskId, { signal }).catch(() => ({ items: [] })),
         ])
+        if (signal.aborted) return
         setBlockers(blockersData.items || [])
         setBlocking(blockingData.items || [])
         setCommits(commitsData.items || [])
       } catch (error) {
+      if (isAbortError(error)) return
       console.error('Failed to fetch task:', error)
       setError('Failed to load task')
     } finally {
-      if (isInitialLoad) setLoading(false)
+      if (isInitialLoad && !signal.aborted) setLoading(false)
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps -- task is a data object (would cause infinite loop)
-  }, [taskId, taskRefresh, projectRefresh, planRefresh])
+  }, [taskId, taskRefresh, projectRefresh, planRefresh, nextSignal])
 
   useEffect(() => {
     fetchData()
   }, [fetchData])
 
+  // Live updates from the entity store — patched in place instead of refetching
+  useEntityPatches(['task', 'step'], (record) => {
+    if (record.entityType === 'step') {
+      setSteps((prev) => patchEntityList(prev, record))
+      return
+    }
+    if (record.id === taskId && !record.deleted) {
+      setTask((prev) => (prev ? patchEntity(prev, record) : prev))
+    }
+    setBlockers((prev) => patchEntityList(prev, record))
+    setBlocking((prev) => patchEntityList(prev, record))
+  })
+
   // Resolve parent plan & project
   useEffect(() => {
     if (!taskId) return
@@ -178,7 +204,26 @@ export function TaskDetailPage() {
     loading: formLoading,
   })
 
-  const sectionIds = ['steps', 'dependencies', 'decisions']
+  const commitForm = LinkCommitForm({
+    onSubmit: async (data) => {
+      if (!taskId) return
+      setFormLoading(true)
+      try {
+        await tasksApi.linkCommit(taskId, data.commit_sha)
+        const commitsData = await tasksApi.getCommits(taskId)
+        setCommits(commitsData.items || [])
+        commitFormDialog.close()
+        toast.success('Commit linked')
+      } catch {
+        toast.error('Failed to link commit')
+      } finally {
+        setFormLoading(false)
+      }
+    },
+    loading: formLoading,
+  })
+
+  const sectionIds = ['steps', 'dependencies', 'decisions', 'commits', ...(parentPlanId ? ['context'] : []), 'notes']
   const activeSection = useSectionObserver(sectionIds)
 
   if (error) return <ErrorState title="Failed to load" description={error} onRetry={fetchData} />
@@ -196,6 +241,9 @@ export function TaskDetailPage() {
     { id: 'steps', label: 'Steps', count: steps.length },
     { id: 'dependencies', label: 'Dependencies', count: blockers.length + blocking.length },
     { id: 'decisions', label: 'Decisions', count: decisions.length },
+    { id: 'commits', label: 'Commits', count: commits.length },
+    ...(parentPlanId ? [{ id: 'context', label: 'Context' }] : []),
+    { id: 'notes', label: 'Notes' },
   ]
 
   // Build parent links for navigation
@@ -242,9 +290,13 @@ export function TaskDetailPage() {
               failed: { bg: 'bg-red-900/50', text: 'text-red-400', dot: 'bg-red-400' },
             }}
             onStatusChange={async (newStatus: TaskStatus) => {
-              await tasksApi.update(task.id, { status: newStatus })
+              await tasksApi.update(
+                task.id,
+                { status: newStatus },
+                { label: statusChangeLabel('task', task.title, newStatus), previous: { status: task.status } },
+              )
               setTask({ ...task, status: newStatus })
-              toast.success('Status updated')
+              toast.success('Status updated', { undoable: true })
             }}
           />
         }
@@ -307,9 +359,12 @@ export function TaskDetailPage() {
                   step={step}
                   index={index}
                   onStatusChange={async (newStatus) => {
-                    await tasksApi.updateStep(step.id, newStatus)
+                    await tasksApi.updateStep(step.id, newStatus, {
+                      label: statusChangeLabel('step', step.description, newStatus),
+                      previous: step.status,
+                    })
                     setSteps(prev => prev.map(s => s.id === step.id ? { ...s, status: newStatus } : s))
-                    toast.success('Step status updated')
+                    toast.success('Step status updated', { undoable: true })
                   }}
                   onDelete={async () => {
                     await tasksApi.deleteStep(step.id)
@@ -461,7 +516,31 @@ export function TaskDetailPage() {
           <CardContent>
             <div className="space-y-1">
               {affectedFiles.map((file, index) => (
-                <div key={`${file}-${index}`} className="font-mono text-sm text-gray-300 p-1 truncate" title={file}>{file}</div>
+                <div key={`${file}-${index}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <Link
+                      to={codeFilePath(wsSlug, file)}
+                      className="font-mono text-sm text-gray-300 p-1 truncate hover:text-indigo-400 transition-colors"
+                      title={file}
+                    >
+                      {file}
+                    </Link>
+                    <Button
+                      variant={impactFile === file ? 'secondary' : 'ghost'}
+                      size="sm"
+                      onClick={() => setImpactFile(impactFile === file ? null : file)}
+                      title="Analyze impact"
+                    >
+                      <Radar className="w-4 h-4 mr-1" />
+                      Impact
+                    </Button>
+                  </div>
+                  {impactFile === file && (
+                    <div className="mt-2 mb-3 p-3 bg-white/[0.06] rounded-lg">
+                      <ImpactPanel target={file} />
+                    </div>
+                  )}
+                </div>
               ))}
             </div>
           </CardContent>
@@ -470,34 +549,40 @@ export function TaskDetailPage() {
       )}
 
       {/* Commits */}
-      {commits.length > 0 && (
-        <section id="commits" className="scroll-mt-20">
-        <Card>
-          <CardHeader>
+      <section id="commits" className="scroll-mt-20">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
             <CardTitle>Commits ({commits.length})</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-2">
-              {commits.map((commit) => (
-                <div key={commit.sha} className="p-2 bg-white/[0.06] rounded">
-                  <div className="flex items-center gap-2 min-w-0">
-                    <span className="font-mono text-xs text-indigo-400 shrink-0">{commit.sha.slice(0, 7)}</span>
-                    <span className="text-gray-200 truncate min-w-0">{commit.message}</span>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+            <Button size="sm" onClick={() => commitFormDialog.open({ title: 'Link Commit', submitLabel: 'Link' })}>Link</Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <CommitList commits={commits} />
+        </CardContent>
+      </Card>
+      </section>
+
+      {/* Agent Context — needs the parent plan to resolve */}
+      {parentPlanId && (
+        <section id="context" className="scroll-mt-20">
+          <TaskContextCard planId={parentPlanId} taskId={task.id} project={parentProject} refreshTrigger={taskRefresh} />
         </section>
       )}
 
+      <section id="notes" className="scroll-mt-20">
+        <EntityNotesCard entityType="task" entityId={task.id} projectId={parentProject?.id} />
+      </section>
+
       <FormDialog {...stepFormDialog.dialogProps} onSubmit={stepForm.submit} loading={formLoading}>
         {stepForm.fields}
       </FormDialog>
       <FormDialog {...decisionFormDialog.dialogProps} onSubmit={decisionForm.submit} loading={formLoading}>
         {decisionForm.fields}
       </FormDialog>
+      <FormDialog {...commitFormDialog.dialogProps} onSubmit={commitForm.submit} loading={formLoading}>
+        {commitForm.fields}
+      </FormDialog>
       <LinkEntityDialog {...linkDialog.dialogProps} />
       <ConfirmDialog {...confirmDialog.dialogProps} />
     </div>
@@ -565,3 +650,242 @@ function DecisionRow({ decision }: { decision: Decision }) {
     </div>
   )
 }
+
+type TaskContext = Awaited<ReturnType<typeof tasksApi.getContext>>
+
+/**
+ * Context bundle and generated prompt an agent receives when executing the task.
+ * The prompt can be copied or used to seed a new chat session.
+ */
+function TaskContextCard({
+  planId,
+  taskId,
+  project,
+  refreshTrigger,
+}: {
+  planId: string
+  taskId: string
+  project: Project | null
+  refreshTrigger: number
+}) {
+  const wsSlug = useWorkspaceSlug()
+  const toast = useToast()
+  const setChatMode = useSetAtom(chatPanelModeAtom)
+  const setChatSessionId = useSetAtom(chatSessionIdAtom)
+  const [context, setContext] = useState<TaskContext | null>(null)
+  const [prompt, setPrompt] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [showPrompt, setShowPrompt] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [starting, setStarting] = useState(false)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    async function load() {
+      const [contextData, promptData] = await Promise.all([
+        tasksApi.getContext(planId, taskId).catch(() => null),
+        tasksApi.getPrompt(planId, taskId).catch(() => null),
+      ])
+      if (controller.signal.aborted) return
+      setContext(contextData)
+      setPrompt(promptData?.prompt ?? null)
+      setLoading(false)
+    }
+    load()
+    return () => controller.abort()
+  }, [planId, taskId, refreshTrigger])
+
+  const handleCopy = async () => {
+    if (!prompt) return
+    await navigator.clipboard.writeText(prompt)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const handleStartChat = async () => {
+    if (!prompt) return
+    setStarting(true)
+    try {
+      // Resolve a working directory: the task's project, else the first workspace project
+      let cwd = project?.root_path
+      if (!cwd && project?.slug) {
+        cwd = (await projectsApi.get(project.slug).catch(() => null))?.root_path
+      }
+      if (!cwd) {
+        const wsProjects = await workspacesApi.listProjects(wsSlug).catch(() => [])
+        cwd = wsProjects.find((p) => p.root_path)?.root_path
+      }
+      if (!cwd) {
+        toast.error('No project directory available to start a chat')
+        return
+      }
+      const response = await chatApi.createSession({
+        message: prompt,
+        cwd,
+        project_slug: project?.slug,
+        workspace_slug: project ? undefined : wsSlug,
+      })
+      setChatSessionId(response.session_id)
+      setChatMode('open')
+      toast.success('Chat session started')
+    } catch {
+      toast.error('Failed to start chat session')
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const targetFiles = context?.target_files || []
+  const similarCode = context?.similar_code || []
+  const constraints = context?.constraints || []
+  const contextDecisions = context?.decisions || []
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between w-full">
+          <CardTitle>Agent Context</CardTitle>
+          <div className="flex items-center gap-2">
+            <Button variant="secondary" size="sm" onClick={handleCopy} disabled={!prompt}>
+              {copied ? <Check className="w-4 h-4 mr-1" /> : <Copy className="w-4 h-4 mr-1" />}
+              {copied ? 'Copied' : 'Copy prompt'}
+            </Button>
+            <Button size="sm" onClick={handleStartChat} disabled={!prompt} loading={starting}>
+              <MessageSquare className="w-4 h-4 mr-1" />
+              Start chat
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-gray-500 text-sm">Loading context...</p>
+        ) : !context && !prompt ? (
+          <p className="text-gray-500 text-sm">No context available for this task</p>
+        ) : (
+          <div className="space-y-5">
+            {/* Target files */}
+            <div>
+              <h4 className="text-sm text-gray-400 mb-2">Target Files ({targetFiles.length})</h4>
+              {targetFiles.length === 0 ? (
+                <p className="text-gray-500 text-sm">No target files resolved</p>
+              ) : (
+                <div className="space-y-2">
+                  {targetFiles.map((file) => (
+                    <div key={file.path} className="p-3 bg-white/[0.06] rounded-lg">
+                      <div className="flex items-center justify-between gap-2 min-w-0">
+                        <Link
+                          to={codeFilePath(wsSlug, file.path)}
+                          className="font-mono text-sm text-gray-200 truncate hover:text-indigo-400 transition-colors"
+                          title={file.path}
+                        >
+                          {file.path}
+                        </Link>
+                        <span className="text-xs text-gray-500 capitalize shrink-0">{file.language}</span>
+                      </div>
+                      {file.symbols.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {file.symbols.slice(0, 12).map((symbol) => (
+                            <span key={symbol} className="px-1.5 py-0.5 bg-white/[0.08] rounded text-[11px] text-gray-300 font-mono">
+                              {symbol}
+                            </span>
+                          ))}
+                          {file.symbols.length > 12 && (
+                            <span className="text-xs text-gray-500">+{file.symbols.length - 12} more</span>
+                          )}
+                        </div>
+                      )}
+                      <div className="flex gap-4 mt-2 text-xs">
+                        <span className="text-indigo-400">{file.dependent_files.length} dependents</span>
+                        <span className="text-green-400">{file.dependencies.length} imports</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Similar code */}
+            {similarCode.length > 0 && (
+              <div>
+                <h4 className="text-sm text-gray-400 mb-2">Similar Code ({similarCode.length})</h4>
+                <div className="space-y-2">
+                  {similarCode.map((snippet, index) => (
+                    <div key={`${snippet.path}-${index}`} className="p-3 bg-white/[0.06] rounded-lg">
+                      <div className="flex items-center justify-between gap-2 mb-2 min-w-0">
+                        <Link
+                          to={codeFilePath(wsSlug, snippet.path)}
+                          className="font-mono text-sm text-indigo-400 truncate hover:text-indigo-300 transition-colors"
+                        >
+                          {snippet.path}
+                        </Link>
+                        <span className="text-xs text-green-400 shrink-0">
+                          {(snippet.relevance * 100).toFixed(0)}% relevant
+                        </span>
+                      </div>
+                      <pre className="bg-gray-900 p-2 rounded text-xs text-gray-300 overflow-x-auto max-h-32">
+                        <code>{snippet.snippet}</code>
+                      </pre>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Constraints & decisions */}
+            {(constraints.length > 0 || contextDecisions.length > 0) && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <h4 className="text-sm text-gray-400 mb-2">Constraints ({constraints.length})</h4>
+                  {constraints.length === 0 ? (
+                    <p className="text-gray-500 text-sm">No constraints</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {constraints.map((constraint, index) => (
+                        <div key={index} className="flex items-start gap-2 text-sm">
+                          <Badge className="shrink-0 capitalize">{constraint.constraint_type}</Badge>
+                          <span className="text-gray-300">{constraint.description}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <h4 className="text-sm text-gray-400 mb-2">Decisions ({contextDecisions.length})</h4>
+                  {contextDecisions.length === 0 ? (
+                    <p className="text-gray-500 text-sm">No decisions</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {contextDecisions.map((decision, index) => (
+                        <p key={decision.id || index} className="text-sm text-gray-300">
+                          {decision.description}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Prompt preview */}
+            {prompt && (
+              <div>
+                <button
+                  onClick={() => setShowPrompt(!showPrompt)}
+                  className="text-sm text-gray-400 hover:text-gray-200 transition-colors"
+                >
+                  {showPrompt ? 'Hide' : 'Show'} generated prompt ({prompt.length.toLocaleString()} chars)
+                </button>
+                {showPrompt && (
+                  <pre className="mt-2 bg-gray-900 p-3 rounded text-xs text-gray-300 overflow-auto max-h-96 whitespace-pre-wrap">
+                    {prompt}
+                  </pre>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,9 +1,9 @@
-import { useEffect, useCallback, useMemo } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { useAtom, useAtomValue } from 'jotai'
-import { Link } from 'react-router-dom'
+import { Link, useSearchParams } from 'react-router-dom'
 import { motion, AnimatePresence } from 'motion/react'
 import { tasksAtom, tasksLoadingAtom, taskStatusFilterAtom, taskRefreshAtom } from '@/atoms'
-import { tasksApi } from '@/services'
+import { tasksApi, plansApi, workspacesApi } from '@/services'
 import {
   Card,
   EmptyState,
@@ -20,11 +20,30 @@ import {
   SkeletonCard,
   PulseIndicator,
 } from '@/components/ui'
-import { useKanbanFilters, useViewMode, useConfirmDialog, useToast, useMultiSelect, useInfiniteList, useWorkspaceSlug, useViewTransition } from '@/hooks'
+import {
+  useKanbanFilters,
+  kanbanFiltersToParams,
+  useViewMode,
+  useListSort,
+  useSavedViews,
+  useConfirmDialog,
+  useToast,
+  useMultiSelect,
+  useInfiniteList,
+  useWorkspaceSlug,
+  useViewTransition,
+  useCardNavigation,
+  useBulkEdit,
+} from '@/hooks'
+import type { KanbanFilters } from '@/hooks'
 import { KanbanBoard, KanbanFilterBar } from '@/components/kanban'
-import type { TaskWithPlan, TaskStatus, PaginatedResponse } from '@/types'
-import type { KanbanTask } from '@/components/kanban'
+import { SavedViewTabs } from '@/components/SavedViewTabs'
+import { BulkEditDialog, BulkEditFeedback, taskOperation } from '@/components/bulk'
+import type { BulkChange } from '@/components/bulk'
+import type { TaskWithPlan, TaskStatus, PaginatedResponse, UpdateTaskRequest, SavedViewState } from '@/types'
+import type { KanbanTask, ProjectResolver } from '@/components/kanban'
 import { fadeInUp, staggerContainer, useReducedMotion } from '@/utils/motion'
+import { statusChangeLabel } from '@/utils/undo'
 
 const statusOptions = [
   { value: 'all', label: 'All Status' },
@@ -35,12 +54,27 @@ const statusOptions = [
   { value: 'failed', label: 'Failed' },
 ]
 
+const sortOptions = [
+  { value: '', label: 'Default order' },
+  { value: 'created_at:desc', label: 'Newest first' },
+  { value: 'created_at:asc', label: 'Oldest first' },
+  { value: 'updated_at:desc', label: 'Recently updated' },
+  { value: 'priority:desc', label: 'Highest priority' },
+  { value: 'title:asc', label: 'Title A–Z' },
+]
+
+const bulkStatusOptions = statusOptions.filter((o) => o.value !== 'all')
+const taskId = (task: TaskWithPlan) => task.id
+const taskLabel = (task: TaskWithPlan) => task.title || task.description.slice(0, 60)
+
 export function TasksPage() {
   const [, setTasksAtom] = useAtom(tasksAtom)
   const [, setLoadingAtom] = useAtom(tasksLoadingAtom)
   const [statusFilter, setStatusFilter] = useAtom(taskStatusFilterAtom)
   const taskRefresh = useAtomValue(taskRefreshAtom)
   const [viewMode, setViewMode] = useViewMode()
+  const [sort, setSort, sortParams] = useListSort()
+  const [searchParams, setSearchParams] = useSearchParams()
   const { navigate } = useViewTransition()
   const confirmDialog = useConfirmDialog()
   const toast = useToast()
@@ -52,20 +86,29 @@ export function TasksPage() {
   const listFilters = useMemo(
     () => ({
       status: statusFilter !== 'all' ? statusFilter : undefined,
+      ...sortParams,
       _refresh: taskRefresh,
       _ws: wsSlug,
     }),
-    [statusFilter, taskRefresh, wsSlug],
+    [statusFilter, sortParams, taskRefresh, wsSlug],
   )
 
   const listFetcher = useCallback(
-    (params: { limit: number; offset: number; status?: string }): Promise<PaginatedResponse<TaskWithPlan>> => {
-      return tasksApi.list({
-        limit: params.limit,
-        offset: params.offset,
-        status: params.status,
-        workspace_slug: wsSlug,
-      })
+    (
+      params: { limit: number; offset: number; status?: string; sort_by?: string; sort_order?: 'asc' | 'desc' },
+      signal: AbortSignal,
+    ): Promise<PaginatedResponse<TaskWithPlan>> => {
+      return tasksApi.list(
+        {
+          limit: params.limit,
+          offset: params.offset,
+          status: params.status,
+          sort_by: params.sort_by,
+          sort_order: params.sort_order,
+          workspace_slug: wsSlug,
+        },
+        { signal },
+      )
     },
     [wsSlug],
   )
@@ -77,12 +120,14 @@ export function TasksPage() {
     hasMore,
     total,
     sentinelRef,
+    reset,
     removeItems,
     updateItem,
   } = useInfiniteList({
     fetcher: listFetcher,
     filters: listFilters,
     enabled: viewMode === 'list',
+    entityType: 'task',
   })
 
   // Sync tasks atom for other components that read it
@@ -98,9 +143,9 @@ export function TasksPage() {
   const kanbanApiParamsKey = JSON.stringify(kanbanApiParams)
 
   const kanbanFetchFn = useCallback(
-    (params: Record<string, unknown>): Promise<PaginatedResponse<KanbanTask>> => {
+    (params: Record<string, unknown>, signal: AbortSignal): Promise<PaginatedResponse<KanbanTask>> => {
       const apiFilters = JSON.parse(kanbanApiParamsKey)
-      return tasksApi.list({ ...apiFilters, ...params, workspace_slug: wsSlug } as Record<string, string | number | undefined>)
+      return tasksApi.list({ ...apiFilters, ...params, workspace_slug: wsSlug } as Record<string, string | number | undefined>, { signal })
     },
     [kanbanApiParamsKey, wsSlug],
   )
@@ -124,15 +169,19 @@ export function TasksPage() {
   }, [kanbanFilters.filters.exclude_completed, kanbanFilters.filters.exclude_failed])
 
   const handleTaskStatusChange = useCallback(
-    async (taskId: string, newStatus: TaskStatus) => {
+    async (taskId: string, newStatus: TaskStatus, previous: KanbanTask) => {
       const oldTask = tasks.find((t) => t.id === taskId)
       updateItem(
         (t) => t.id === taskId,
         (t) => ({ ...t, status: newStatus }),
       )
       try {
-        await tasksApi.update(taskId, { status: newStatus })
-        toast.success('Status updated')
+        await tasksApi.update(
+          taskId,
+          { status: newStatus },
+          { label: statusChangeLabel('task', previous.title, newStatus), previous: { status: previous.status } },
+        )
+        toast.success('Status updated', { undoable: true })
       } catch {
         // Rollback optimistic update
         if (oldTask) updateItem((t) => t.id === taskId, () => oldTask)
@@ -142,6 +191,62 @@ export function TasksPage() {
     [tasks, updateItem, toast],
   )
 
+  // Swimlanes: dragging a card into another lane reassigns the grouped field
+  const groupBy = kanbanFilters.filters.group_by
+
+  const handleTaskFieldsChange = useCallback(
+    async (taskId: string, updates: UpdateTaskRequest, revert: UpdateTaskRequest) => {
+      try {
+        await tasksApi.update(taskId, updates, { label: 'Move task to another swimlane', previous: revert })
+        toast.success('Task moved', { undoable: true })
+      } catch (error) {
+        toast.error('Failed to move task')
+        throw error // lets the board roll back
+      }
+    },
+    [toast],
+  )
+
+  // Moves past a WIP limit keep their justification on the task as a decision
+  const handleWipOverride = useCallback(
+    (taskId: string, status: TaskStatus, justification: string) => {
+      tasksApi
+        .addDecision(taskId, {
+          description: `Moved to ${status.replace(/_/g, ' ')} past its WIP limit`,
+          rationale: justification,
+        })
+        .catch(() => toast.error('Failed to record the WIP limit justification'))
+    },
+    [toast],
+  )
+
+  // Project lanes go through the task's plan: load plan → project once grouped by project
+  const [projectLookup, setProjectLookup] = useState<{ plans: Record<string, string>; projects: Record<string, string> } | null>(null)
+  useEffect(() => {
+    if (viewMode !== 'kanban' || groupBy !== 'project') return
+    let cancelled = false
+    Promise.all([plansApi.list({ workspace_slug: wsSlug, limit: 100 }), workspacesApi.listProjects(wsSlug)])
+      .then(([plans, projects]) => {
+        if (cancelled) return
+        setProjectLookup({
+          plans: Object.fromEntries((plans.items || []).filter((p) => p.project_id).map((p) => [p.id, p.project_id!])),
+          projects: Object.fromEntries(projects.map((p) => [p.id, p.name])),
+        })
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [viewMode, groupBy, wsSlug])
+
+  const resolveProject = useCallback<ProjectResolver>(
+    (task) => {
+      const projectId = task.plan_id ? projectLookup?.plans[task.plan_id] : undefined
+      return projectId ? { key: projectId, label: projectLookup?.projects[projectId] ?? projectId.slice(0, 8) } : undefined
+    },
+    [projectLookup],
+  )
+
   const handleTaskClick = useCallback(
     (taskId: string) => {
       navigate(`/workspace/${wsSlug}/tasks/${taskId}`, { type: 'card-click' })
@@ -151,6 +256,11 @@ export function TasksPage() {
 
   const multiSelect = useMultiSelect(tasks, (t) => t.id)
 
+  useCardNavigation('Tasks', {
+    onOpen: handleTaskClick,
+    onToggleSelect: viewMode === 'list' ? (id) => multiSelect.toggle(id) : undefined,
+  })
+
   const handleBulkDelete = () => {
     const count = multiSelect.selectionCount
     confirmDialog.open({
@@ -171,6 +281,34 @@ export function TasksPage() {
     })
   }
 
+  // Saved views: list status + board filters (URL), view mode and sort
+  const savedViews = useSavedViews('tasks', {
+    current: {
+      filters: { status: statusFilter !== 'all' ? statusFilter : undefined, ...kanbanFilters.filters },
+      view_mode: viewMode,
+      sort,
+    },
+    initial: { filters: {}, view_mode: viewMode },
+    apply: (state: SavedViewState) => {
+      const { status, ...boardFilters } = state.filters as KanbanFilters & { status?: TaskStatus }
+      setStatusFilter(status ?? 'all')
+      // One URL update: separate setSearchParams calls in the same tick overwrite each other
+      const params = new URLSearchParams(kanbanFiltersToParams(boardFilters))
+      if (state.view_mode && state.view_mode !== 'list') params.set('view', state.view_mode)
+      if (state.sort) params.set('sort', state.sort)
+      setSearchParams(params, { replace: true })
+    },
+    pristine: searchParams.toString() === '' && statusFilter === 'all',
+  })
+
+  const [bulkEditOpen, setBulkEditOpen] = useState(false)
+  const bulkEdit = useBulkEdit({ getId: taskId, getLabel: taskLabel, onDone: reset })
+
+  const handleBulkEdit = (change: BulkChange) => {
+    setBulkEditOpen(false)
+    void bulkEdit.run(multiSelect.selectedItems, taskOperation(change))
+  }
+
   const showListSkeleton = loading && viewMode === 'list' && tasks.length === 0
 
   return (
@@ -187,10 +325,15 @@ export function TasksPage() {
               className="w-full sm:w-40"
             />
           )}
+          {viewMode === 'list' && (
+            <Select options={sortOptions} value={sort} onChange={setSort} className="w-full sm:w-44" />
+          )}
           <ViewToggle value={viewMode} onChange={setViewMode} />
         </>
       }
     >
+      <SavedViewTabs savedViews={savedViews} />
+
       {/* Kanban filter bar */}
       {viewMode === 'kanban' && (
         <KanbanFilterBar
@@ -211,6 +354,10 @@ export function TasksPage() {
           onTaskStatusChange={handleTaskStatusChange}
           onTaskClick={handleTaskClick}
           refreshTrigger={taskRefresh}
+          groupBy={groupBy}
+          resolveProject={resolveProject}
+          onTaskFieldsChange={handleTaskFieldsChange}
+          onWipOverride={handleWipOverride}
         />
       ) : showListSkeleton ? (
         <div className="space-y-3">
@@ -255,12 +402,16 @@ export function TasksPage() {
                     onToggleSelect={(shiftKey) => multiSelect.toggle(task.id, shiftKey)}
                     task={task}
                     onStatusChange={async (newStatus) => {
-                      await tasksApi.update(task.id, { status: newStatus })
+                      await tasksApi.update(
+                        task.id,
+                        { status: newStatus },
+                        { label: statusChangeLabel('task', task.title, newStatus), previous: { status: task.status } },
+                      )
                       updateItem(
                         (t) => t.id === task.id,
                         (t) => ({ ...t, status: newStatus }),
                       )
-                      toast.success('Status updated')
+                      toast.success('Status updated', { undoable: true })
                     }}
                     onDelete={() =>
                       confirmDialog.open({
@@ -286,6 +437,24 @@ export function TasksPage() {
         count={multiSelect.selectionCount}
         onDelete={handleBulkDelete}
         onClear={multiSelect.clear}
+        onEdit={() => setBulkEditOpen(true)}
+        editing={bulkEdit.busy}
+      />
+      <BulkEditDialog
+        open={bulkEditOpen}
+        onClose={() => setBulkEditOpen(false)}
+        onSubmit={handleBulkEdit}
+        count={multiSelect.selectionCount}
+        noun="task"
+        kinds={['status', 'priority', 'tags', 'assignee', 'link', 'plan']}
+        statusOptions={bulkStatusOptions}
+      />
+      <BulkEditFeedback
+        progress={bulkEdit.progress}
+        result={bulkEdit.result}
+        noun="task"
+        onUndo={() => void bulkEdit.undo()}
+        onDismiss={bulkEdit.dismiss}
       />
       <ConfirmDialog {...confirmDialog.dialogProps} />
     </PageShell>
@@ -317,7 +486,12 @@ function TaskCard({
 }) {
   const tags = task.tags || []
   return (
-    <Link to={`/workspace/${wsSlug}/tasks/${task.id}`} state={{ planId: task.plan_id, planTitle: task.plan_title }}>
+    <Link
+      to={`/workspace/${wsSlug}/tasks/${task.id}`}
+      state={{ planId: task.plan_id, planTitle: task.plan_title }}
+      data-nav-id={task.id}
+      className="block rounded-xl outline-none focus-visible:ring-2 focus-visible:ring-indigo-500/60"
+    >
       <Card lazy className={`transition-colors ${selected ? 'border-indigo-500/40 bg-indigo-500/[0.05]' : 'hover:border-indigo-500'}`}>
         <div className="flex">
           {onToggleSelect && (
@@ -7,8 +7,9 @@ import { workspacesApi, projectsApi } from '@/services'
 import { useFormDialog, useLinkDialog, useToast, useConfirmDialog, useSectionObserver, useWorkspaceSlug } from '@/hooks'
 import { workspacePath } from '@/utils/paths'
 import { workspaceRefreshAtom, projectRefreshAtom, milestoneRefreshAtom, taskRefreshAtom } from '@/atoms'
-import { CreateMilestoneForm, CreateResourceForm, CreateComponentForm } from '@/components/forms'
-import type { Workspace, Project, WorkspaceMilestone, Resource, Component, MilestoneProgress } from '@/types'
+import { CreateMilestoneForm, CreateResourceForm, CreateComponentForm, CreateComponentDependencyForm } from '@/components/forms'
+import { WorkspaceTopologyView } from '@/components/WorkspaceTopologyView'
+import type { Workspace, Project, WorkspaceMilestone, Resource, Component, ComponentDependency, MilestoneProgress } from '@/types'
 
 // API response structure
 interface WorkspaceOverviewResponse {
@@ -26,6 +27,7 @@ export function WorkspaceDetailPage() {
   const milestoneFormDialog = useFormDialog()
   const resourceFormDialog = useFormDialog()
   const componentFormDialog = useFormDialog()
+  const dependencyFormDialog = useFormDialog()
   const linkDialog = useLinkDialog()
   const confirmDialog = useConfirmDialog()
   const toast = useToast()
@@ -39,6 +41,8 @@ export function WorkspaceDetailPage() {
   const [milestones, setMilestones] = useState<(WorkspaceMilestone & { progress?: MilestoneProgress })[]>([])
   const [resources, setResources] = useState<Resource[]>([])
   const [components, setComponents] = useState<Component[]>([])
+  const [dependencies, setDependencies] = useState<ComponentDependency[]>([])
+  const [pendingDependency, setPendingDependency] = useState<{ fromId: string; toId: string } | null>(null)
   const [overallProgress, setOverallProgress] = useState<{ completed_tasks: number; total_tasks: number; percentage: number } | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -58,6 +62,10 @@ export function WorkspaceDetailPage() {
       setComponents(overviewData.components || [])
       setOverallProgress(overviewData.progress || null)
 
+      // Topology is optional — the graph section simply shows no edges if it fails
+      const topology = await workspacesApi.getTopology(slug).catch(() => null)
+      setDependencies(topology?.dependencies || [])
+
       // Use milestones from overview and fetch progress for each
       const milestoneItems = overviewData.milestones || []
       const milestonesWithProgress = await Promise.all(
@@ -84,6 +92,16 @@ export function WorkspaceDetailPage() {
     fetchData()
   }, [fetchData])
 
+  const refreshTopology = useCallback(async () => {
+    if (!slug) return
+    try {
+      const topology = await workspacesApi.getTopology(slug)
+      setDependencies(topology.dependencies || [])
+    } catch (error) {
+      console.error('Failed to refresh topology:', error)
+    }
+  }, [slug])
+
   const milestoneForm = CreateMilestoneForm({
     onSubmit: async (data) => {
       if (!slug) return
@@ -132,7 +150,59 @@ export function WorkspaceDetailPage() {
     loading: formLoading,
   })
 
-  const sectionIds = ['overview', 'projects', 'milestones', 'resources', 'components']
+  const dependencyForm = CreateComponentDependencyForm({
+    onSubmit: async (data) => {
+      if (!pendingDependency) return
+      setFormLoading(true)
+      try {
+        await workspacesApi.addComponentDependency(
+          pendingDependency.fromId,
+          pendingDependency.toId,
+          data.protocol,
+          data.required,
+        )
+        await refreshTopology()
+        dependencyFormDialog.close()
+        setPendingDependency(null)
+        toast.success('Dependency added')
+      } catch (error) {
+        console.error('Failed to add dependency:', error)
+        toast.error('Failed to add dependency')
+      } finally {
+        setFormLoading(false)
+      }
+    },
+    loading: formLoading,
+  })
+
+  const componentName = (id: string) => components.find((c) => c.id === id)?.name || 'Unknown'
+
+  const handleTopologyConnect = (fromId: string, toId: string) => {
+    if (dependencies.some((d) => d.from_id === fromId && d.to_id === toId)) {
+      toast.info('This dependency already exists')
+      return
+    }
+    setPendingDependency({ fromId, toId })
+    dependencyFormDialog.open({
+      title: `${componentName(fromId)} → ${componentName(toId)}`,
+      submitLabel: 'Add Dependency',
+    })
+  }
+
+  const handleTopologyEdgeClick = (dep: ComponentDependency) => {
+    confirmDialog.open({
+      title: 'Remove Dependency',
+      description: `${componentName(dep.from_id)} will no longer depend on ${componentName(dep.to_id)}.`,
+      confirmLabel: 'Remove',
+      onConfirm: async () => {
+        await workspacesApi.removeComponentDependency(dep.from_id, dep.to_id)
+        setDependencies((prev) => prev.filter((d) => !(d.from_id === dep.from_id && d.to_id === dep.to_id)))
+        toast.success('Dependency removed')
+      },
+    })
+  }
+
+  const sectionIds = ['overview', 'projects', 'milestones', 'resources', 'components', 'topology']
   const activeSection = useSectionObserver(sectionIds)
 
   if (error) return <ErrorState title="Failed to load" description={error} onRetry={fetchData} />
@@ -144,6 +214,7 @@ export function WorkspaceDetailPage() {
     { id: 'milestones', label: 'Milestones', count: milestones.length },
     { id: 'resources', label: 'Resources', count: resources.length },
     { id: 'components', label: 'Components', count: components.length },
+    { id: 'topology', label: 'Topology', count: dependencies.length },
   ]
 
   return (
@@ -368,6 +439,7 @@ export function WorkspaceDetailPage() {
                         onClick={async () => {
                           await workspacesApi.deleteComponent(component.id)
                           setComponents(prev => prev.filter(c => c.id !== component.id))
+                          setDependencies(prev => prev.filter(d => d.from_id !== component.id && d.to_id !== component.id))
                           toast.success('Component deleted')
                         }}
                         className="text-gray-500 hover:text-red-400 text-sm px-1"
@@ -385,6 +457,30 @@ export function WorkspaceDetailPage() {
         </section>
       </div>
 
+      {/* Topology */}
+      <section id="topology" className="scroll-mt-20">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between w-full">
+            <CardTitle>Topology</CardTitle>
+            {components.length > 1 && (
+              <span className="text-sm text-gray-500 hidden sm:inline">
+                Drag between components to add a dependency &middot; click an edge to remove it
+              </span>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <WorkspaceTopologyView
+            components={components}
+            dependencies={dependencies}
+            onConnect={handleTopologyConnect}
+            onEdgeClick={handleTopologyEdgeClick}
+          />
+        </CardContent>
+      </Card>
+      </section>
+
       <FormDialog {...milestoneFormDialog.dialogProps} onSubmit={milestoneForm.submit} loading={formLoading}>
         {milestoneForm.fields}
       </FormDialog>
@@ -394,6 +490,17 @@ export function WorkspaceDetailPage() {
       <FormDialog {...componentFormDialog.dialogProps} onSubmit={componentForm.submit} loading={formLoading}>
         {componentForm.fields}
       </FormDialog>
+      <FormDialog
+        {...dependencyFormDialog.dialogProps}
+        onClose={() => {
+          dependencyFormDialog.close()
+          setPendingDependency(null)
+        }}
+        onSubmit={dependencyForm.submit}
+        loading={formLoading}
+      >
+        {dependencyForm.fields}
+      </FormDialog>
       <LinkEntityDialog {...linkDialog.dialogProps} />
       <ConfirmDialog {...confirmDialog.dialogProps} />
     </div>
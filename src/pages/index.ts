@@ -12,7 +12,12 @@ export { PlanDetailPage } from './PlanDetailPage'
 export { TasksPage } from './TasksPage'
 export { TaskDetailPage } from './TaskDetailPage'
 export { NotesPage } from './NotesPage'
+export { NoteDetailPage } from './NoteDetailPage'
+export { NoteReviewPage } from './NoteReviewPage'
 export { CodePage } from './CodePage'
+export { CodeFilePage } from './CodeFilePage'
+export { ReleaseDetailPage } from './ReleaseDetailPage'
 export { FeatureGraphDetailPage } from './FeatureGraphDetailPage'
+export { ActivityPage } from './ActivityPage'
 export { NotFoundPage } from './NotFoundPage'
 export { SetupWizard } from './setup'
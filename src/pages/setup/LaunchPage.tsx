@@ -334,6 +334,7 @@ const CREDITS: DependencyCategory[] = [
       { name: 'tauri-plugin-opener', license: 'MIT / Apache-2.0' },
       { name: '@tauri-apps/api', license: 'MIT / Apache-2.0' },
       { name: '@tauri-apps/plugin-updater', license: 'MIT / Apache-2.0' },
+      { name: '@tauri-apps/plugin-notification', license: 'MIT / Apache-2.0' },
       { name: '@cloudworxx/tauri-plugin-mac-rounded-corners', license: 'MIT' },
       { name: 'bollard', license: 'Apache-2.0' },
       { name: 'cocoa', license: 'MIT / Apache-2.0' },
@@ -1,6 +1,18 @@
 import { getAuthMode } from './auth'
 import { getValidToken, refreshToken, forceLogout } from './authManager'
 import { isTauri, getApiBase } from './env'
+import {
+  configureOffline,
+  enqueueMutation,
+  hasCache,
+  isGatewayStatus,
+  isNetworkError,
+  isOnline,
+  markOffline,
+  markOnline,
+  readCache,
+  writeCache,
+} from './offline'
 
 export class ApiError extends Error {
   constructor(
@@ -55,7 +67,70 @@ async function fetchWithStartupRetry(
   throw lastError
 }
 
+export interface RequestOptions {
+  /** Abort the request (e.g. when the page that issued it is superseded) */
+  signal?: AbortSignal
+}
+
+/** True for the rejection of a request cancelled through its AbortSignal */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError'
+}
+
+interface MutationOptions {
+  /**
+   * Queue the mutation when the backend is unreachable and replay it on
+   * reconnect. Only for idempotent updates whose response the caller ignores
+   * (status changes, step toggles) — a queued call resolves with `{}`.
+   */
+  queueOffline?: boolean
+}
+
+/**
+ * Network-aware wrapper around `send()`:
+ * - GET responses are cached; when the backend is unreachable a cached
+ *   response is returned (immediately if already known offline, revalidating
+ *   in the background).
+ * - Mutations with `queueOffline` are queued instead of failing.
+ */
 async function request<T>(
+  endpoint: string,
+  options: RequestInit = {},
+  { queueOffline = false }: MutationOptions = {},
+): Promise<T> {
+  const method = options.method || 'GET'
+  const isRead = method === 'GET'
+
+  if (isRead && !isOnline() && hasCache(endpoint)) {
+    send<T>(endpoint, options)
+      .then((data) => {
+        writeCache(endpoint, data)
+        markOnline()
+      })
+      .catch(() => {})
+    return readCache<T>(endpoint) as T
+  }
+
+  try {
+    const data = await send<T>(endpoint, options)
+    markOnline()
+    if (isRead) writeCache(endpoint, data)
+    return data
+  } catch (err) {
+    if (!isNetworkError(err)) throw err
+    markOffline()
+    if (isRead && hasCache(endpoint)) {
+      return readCache<T>(endpoint) as T
+    }
+    if (queueOffline) {
+      enqueueMutation(method, endpoint, options.body as string | undefined)
+      return {} as T
+    }
+    throw err
+  }
+}
+
+async function send<T>(
   endpoint: string,
   options: RequestInit = {},
   _isRetry = false,
@@ -86,7 +161,7 @@ async function request<T>(
         try {
           // Attempt token refresh and retry the original request once
           await refreshToken()
-          return request<T>(endpoint, options, true)
+          return send<T>(endpoint, options, true)
         } catch {
           // Refresh failed (forceLogout already called inside refreshToken on 401)
           throw new ApiError(401, 'Session expired')
@@ -109,8 +184,82 @@ async function request<T>(
   return response.json()
 }
 
+configureOffline(
+  async (mutation) => {
+    await send(mutation.endpoint, { method: mutation.method, body: mutation.body })
+  },
+  async () => {
+    try {
+      const response = await fetch(`${getApiBase()}/setup-status`)
+      return !isGatewayStatus(response.status)
+    } catch {
+      return false
+    }
+  },
+)
+
+// ---------------------------------------------------------------------------
+// In-flight GET de-duplication
+// ---------------------------------------------------------------------------
+
+interface InFlightGet {
+  promise: Promise<unknown>
+  controller: AbortController
+  /** Callers still waiting; the shared fetch is aborted when the last one cancels */
+  consumers: number
+}
+
+const inFlightGets = new Map<string, InFlightGet>()
+
+/**
+ * Identical GETs issued while one is pending share a single fetch. Each caller
+ * can cancel independently; the underlying request is only aborted once every
+ * caller has cancelled.
+ */
+function dedupedGet<T>(endpoint: string, signal?: AbortSignal): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(new DOMException('Request aborted', 'AbortError'))
+  }
+
+  let entry = inFlightGets.get(endpoint)
+  if (!entry) {
+    const controller = new AbortController()
+    const promise = request<T>(endpoint, { signal: controller.signal }).finally(() => {
+      if (inFlightGets.get(endpoint) === entry) inFlightGets.delete(endpoint)
+    })
+    entry = { promise, controller, consumers: 0 }
+    inFlightGets.set(endpoint, entry)
+  }
+
+  const shared = entry
+  shared.consumers++
+  if (!signal) return shared.promise as Promise<T>
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      shared.consumers--
+      if (shared.consumers === 0) {
+        shared.controller.abort()
+        if (inFlightGets.get(endpoint) === shared) inFlightGets.delete(endpoint)
+      }
+      reject(new DOMException('Request aborted', 'AbortError'))
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+    shared.promise.then(
+      (data) => {
+        signal.removeEventListener('abort', onAbort)
+        resolve(data as T)
+      },
+      (err) => {
+        signal.removeEventListener('abort', onAbort)
+        reject(err)
+      },
+    )
+  })
+}
+
 export const api = {
-  get: <T>(endpoint: string) => request<T>(endpoint),
+  get: <T>(endpoint: string, options: RequestOptions = {}) => dedupedGet<T>(endpoint, options.signal),
 
   post: <T>(endpoint: string, data?: unknown) =>
     request<T>(endpoint, {
@@ -118,11 +267,15 @@ export const api = {
       body: data ? JSON.stringify(data) : undefined,
     }),
 
-  patch: <T>(endpoint: string, data: unknown) =>
-    request<T>(endpoint, {
-      method: 'PATCH',
-      body: JSON.stringify(data),
-    }),
+  patch: <T>(endpoint: string, data: unknown, options?: MutationOptions) =>
+    request<T>(
+      endpoint,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      },
+      options,
+    ),
 
   put: <T>(endpoint: string, data?: unknown) =>
     request<T>(endpoint, {
@@ -2,7 +2,7 @@
  * authManager — Centralized auth lifecycle manager.
  *
  * Module-level singleton that handles:
- * - forceLogout(): clean logout across all layers (memory, Jotai, WebSockets, navigation)
+ * - forceLogout(): clean logout across all layers (memory, offline cache and queue, Jotai, WebSockets, navigation)
  * - refreshToken(): JWT refresh with concurrent-call deduplication (via HttpOnly cookie)
  * - getValidToken(): returns a fresh token, refreshing if near expiry
  * - initCrossTabSync(): uses BroadcastChannel API to sync logout across tabs
@@ -17,6 +17,7 @@
 
 import { getAuthMode, getAuthToken, setAuthToken, authApi } from './auth'
 import { getEventBus } from './eventBus'
+import { clearOfflineData } from './offline'
 
 // ---------------------------------------------------------------------------
 // Injectable dependencies (set from React tree at ProtectedRoute mount)
@@ -214,8 +215,9 @@ export function forceLogout(): void {
     // 1. Revoke refresh token server-side (best-effort, don't await)
     authApi.logout()
 
-    // 2. Clear in-memory token
+    // 2. Clear in-memory token, cached responses and queued offline changes
     setAuthToken(null)
+    clearOfflineData()
 
     // 3. Sync Jotai state
     _jotai?.setToken(null)
@@ -276,6 +278,7 @@ export function initCrossTabSync(): () => void {
         _isLoggingOut = true
         try {
           setAuthToken(null)
+          clearOfflineData()
           _jotai?.setToken(null)
           _jotai?.setUser(null)
           try {
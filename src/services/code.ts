@@ -1,4 +1,4 @@
-import { api, buildQuery } from './api'
+import { api, buildQuery, type RequestOptions } from './api'
 import type { FunctionNode, StructNode, TraitNode } from '@/types'
 
 export interface SearchDocument {
@@ -18,25 +18,25 @@ export interface SearchResult {
   score: number
 }
 
-interface FileSymbols {
+export interface FileSymbols {
   functions: FunctionNode[]
   structs: StructNode[]
   traits: TraitNode[]
 }
 
-interface FileDependencies {
+export interface FileDependencies {
   imports: string[]
   dependents: string[]
 }
 
-interface CallGraphNode {
+export interface CallGraphNode {
   name: string
   file_path: string
   calls: string[]
   called_by: string[]
 }
 
-interface ImpactAnalysis {
+export interface ImpactAnalysis {
   direct_dependents: string[]
   transitive_dependents: string[]
   affected_tests: string[]
@@ -88,8 +88,8 @@ export const codeApi = {
     api.get<{ nodes: CallGraphNode[] }>(`/code/callgraph${buildQuery({ function: functionName, limit })}`),
 
   // Impact analysis
-  analyzeImpact: (target: string) =>
-    api.get<ImpactAnalysis>(`/code/impact${buildQuery({ target })}`),
+  analyzeImpact: (target: string, options?: RequestOptions) =>
+    api.get<ImpactAnalysis>(`/code/impact${buildQuery({ target })}`, options),
 
   // Architecture
   getArchitecture: (params: { project_slug?: string; workspace_slug?: string } = {}) =>
@@ -1,4 +1,4 @@
-import type { CrudEvent, EventBusStatus } from '@/types'
+import type { CrudEvent, EventBusStatus, EventBusSync } from '@/types'
 import { getAuthMode, fetchWsTicket } from './auth'
 import { forceLogout } from './authManager'
 import { wsUrl } from './env'
@@ -6,9 +6,23 @@ import { createWebSocket, ReadyState, type IWebSocket } from './wsAdapter'
 
 type EventCallback = (event: CrudEvent) => void
 type StatusCallback = (status: EventBusStatus) => void
+type SyncCallback = (sync: EventBusSync) => void
 
 const MIN_RECONNECT_DELAY = 1000
 const MAX_RECONNECT_DELAY = 30000
+/** How long to wait for `replay_complete` / `replay_unavailable` after auth_ok */
+const REPLAY_TIMEOUT = 5000
+
+/**
+ * Client for the `/ws/events` CRUD event stream.
+ *
+ * - Reconnect with exponential backoff
+ * - Missed-event replay on reconnect: the last seen `seq` (or event timestamp
+ *   when the server doesn't number events) is sent as `last_event` / `since`,
+ *   the server replays what was missed and ends with `replay_complete`
+ * - When the server can't replay (`replay_unavailable`, or no answer within
+ *   REPLAY_TIMEOUT), sync listeners get a `resync` so callers refetch everything
+ */
 
 export class EventBusClient {
   private ws: IWebSocket | null = null
@@ -19,11 +33,24 @@ export class EventBusClient {
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null
   private shouldReconnect = true
   private authenticated = false
+  private syncListeners = new Set<SyncCallback>()
+  private lastEventSeq: number | null = null
+  private lastEventTimestamp: string | null = null
+  private hasConnected = false
+  private replaying = false
+  private replayedCount = 0
+  private replayTimer: ReturnType<typeof setTimeout> | null = null
+  private _lastSyncedAt: Date | null = null
 
   get status() {
     return this._status
   }
 
+  /** Last moment the client was known to have every event (null before the first connect) */
+  get lastSyncedAt() {
+    return this._lastSyncedAt
+  }
+
   async connect() {
     if (this.ws?.readyState === ReadyState.OPEN || this.ws?.readyState === ReadyState.CONNECTING) {
       return
@@ -40,8 +67,15 @@ export class EventBusClient {
     // on WebSocket upgrade requests. In browsers the cookie is still sent
     // and takes priority server-side; the ticket is just a fallback.
     const ticket = await fetchWsTicket()
-    const path = ticket ? `/ws/events?ticket=${ticket}` : '/ws/events'
-    const url = wsUrl(path)
+    const params = new URLSearchParams()
+    // Only ask for a replay on reconnect — a first connect has nothing to catch up on
+    if (this.hasConnected) {
+      if (this.lastEventSeq !== null) params.set('last_event', String(this.lastEventSeq))
+      else if (this.lastEventTimestamp) params.set('since', this.lastEventTimestamp)
+    }
+    if (ticket) params.set('ticket', ticket)
+    const query = params.toString()
+    const url = wsUrl(query ? `/ws/events?${query}` : '/ws/events')
 
     // console.log('[EventBus] Opening socket, ticket:', ticket ? 'obtained' : 'null', 'url:', url)
     try {
@@ -63,6 +97,7 @@ export class EventBusClient {
               if (data.type === 'auth_ok') {
                 this.authenticated = true
                 this.setStatus('connected')
+                this.beginSync()
                 return
               }
               if (data.type === 'auth_error') {
@@ -75,8 +110,26 @@ export class EventBusClient {
               }
             }
 
-            // Forward CRUD events to listeners
-            const crudEvent = data as CrudEvent
+            if (data.type === 'replay_complete') {
+              this.finishSync('replayed')
+              return
+            }
+            if (data.type === 'replay_unavailable' || data.type === 'events_lagged') {
+              // Replay window exceeded (or the server dropped events for us)
+              this.finishSync('resync')
+              return
+            }
+
+            // Track the replay cursor
+            if (typeof data.seq === 'number' && data.seq > (this.lastEventSeq ?? -1)) {
+              this.lastEventSeq = data.seq
+            }
+            if (typeof data.timestamp === 'string') this.lastEventTimestamp = data.timestamp
+            if (this.replaying) this.replayedCount++
+            else this._lastSyncedAt = new Date()
+
+            // Forward CRUD events to listeners, marking the ones caught up on after a reconnect
+            const crudEvent: CrudEvent = this.replaying ? { ...(data as CrudEvent), replaying: true } : (data as CrudEvent)
             for (const listener of this.listeners) {
               listener(crudEvent)
             }
@@ -87,6 +140,10 @@ export class EventBusClient {
 
         onclose: () => {
           this.ws = null
+          // Everything up to now was received — unless we were still catching up
+          if (this.authenticated && !this.replaying) this._lastSyncedAt = new Date()
+          this.clearReplayTimer()
+          this.replaying = false
           this.authenticated = false
           if (this.shouldReconnect) {
             this.setStatus('reconnecting')
@@ -118,6 +175,13 @@ export class EventBusClient {
   disconnect() {
     this.shouldReconnect = false
     this.authenticated = false
+    this.replaying = false
+    this.clearReplayTimer()
+    // Disconnecting ends the session (logout): the next connect syncs fresh
+    // instead of replaying from this session's last event
+    this.hasConnected = false
+    this.lastEventSeq = null
+    this.lastEventTimestamp = null
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer)
       this.reconnectTimer = null
@@ -143,6 +207,49 @@ export class EventBusClient {
     return () => this.statusListeners.delete(callback)
   }
 
+  /** Subscribe to sync outcomes after each connect. Returns an unsubscribe function. */
+  onSync(callback: SyncCallback) {
+    this.syncListeners.add(callback)
+    return () => this.syncListeners.delete(callback)
+  }
+
+  private beginSync() {
+    if (!this.hasConnected) {
+      this.hasConnected = true
+      this.finishSync('fresh')
+      return
+    }
+    // No event seen before the drop: there's no cursor to replay from
+    if (this.lastEventSeq === null && !this.lastEventTimestamp) {
+      this.finishSync('resync')
+      return
+    }
+    this.replaying = true
+    this.replayedCount = 0
+    this.replayTimer = setTimeout(() => {
+      this.replayTimer = null
+      // Server didn't acknowledge the replay request (e.g. an older backend)
+      this.finishSync('resync')
+    }, REPLAY_TIMEOUT)
+  }
+
+  private finishSync(mode: EventBusSync['mode']) {
+    this.clearReplayTimer()
+    const replayed = this.replaying ? this.replayedCount : 0
+    this.replaying = false
+    this._lastSyncedAt = new Date()
+    for (const listener of this.syncListeners) {
+      listener({ mode, replayed, syncedAt: this._lastSyncedAt })
+    }
+  }
+
+  private clearReplayTimer() {
+    if (this.replayTimer) {
+      clearTimeout(this.replayTimer)
+      this.replayTimer = null
+    }
+  }
+
   private setStatus(status: EventBusStatus) {
     this._status = status
     for (const listener of this.statusListeners) {
@@ -1,4 +1,4 @@
-import { api, buildQuery } from './api'
+import { api, buildQuery, type RequestOptions } from './api'
 import type { FeatureGraph, FeatureGraphDetail } from '@/types'
 
 interface ListParams {
@@ -14,7 +14,7 @@ export const featureGraphsApi = {
   list: (params: ListParams = {}) =>
     api.get<ListResponse>(`/feature-graphs${buildQuery(params)}`),
 
-  get: (id: string) => api.get<FeatureGraphDetail>(`/feature-graphs/${id}`),
+  get: (id: string, options?: RequestOptions) => api.get<FeatureGraphDetail>(`/feature-graphs/${id}`, options),
 
   delete: (id: string) => api.delete(`/feature-graphs/${id}`),
 }
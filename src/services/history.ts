@@ -0,0 +1,147 @@
+/**
+ * history — Client-side undo/redo for mutations made through the services layer.
+ *
+ * Module-level singleton. Service methods that can be reverted (task updates,
+ * step toggles, plan and note status changes, note links) take an optional
+ * undo argument; when given, a successful call records a command holding the
+ * request that restores the previous value and the one that re-applies it.
+ *
+ * - `undoChange()` / `redoChange()` replay the most recent command and move it
+ *   to the other stack. Recording a new change clears the redo stack.
+ * - A command whose replay fails is dropped — the server state it was based
+ *   on is no longer known.
+ *
+ * Deletes are not recorded: the API has no way to restore a deleted entity.
+ */
+
+import type { EntityType } from '@/types'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface HistoryCommand {
+  /** What the change did, e.g. 'Move "Add login" to In progress' */
+  label: string
+  /** Entity touched by the change, used to refresh the pages showing it */
+  entityType: EntityType
+  undo: () => Promise<unknown>
+  redo: () => Promise<unknown>
+}
+
+export interface HistoryEntry extends HistoryCommand {
+  id: string
+}
+
+export interface HistoryApplied {
+  entry: HistoryEntry
+  direction: 'undo' | 'redo'
+  /** Set when the replay failed (the entry is dropped) */
+  error?: unknown
+}
+
+/** Undo argument of a service mutation without a previous value (links) */
+export interface UndoOptions {
+  label: string
+}
+
+/** Undo argument of a service update: the value to restore */
+export interface UndoableUpdate<T> extends UndoOptions {
+  previous: T
+}
+
+type AppliedListener = (applied: HistoryApplied) => void
+
+const MAX_ENTRIES = 50
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+let _undoStack: HistoryEntry[] = []
+let _redoStack: HistoryEntry[] = []
+let _busy = false
+let _nextId = 1
+
+const _appliedListeners = new Set<AppliedListener>()
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+export function recordChange(command: HistoryCommand): HistoryEntry {
+  const entry: HistoryEntry = { ...command, id: String(_nextId++) }
+  _undoStack = [..._undoStack, entry].slice(-MAX_ENTRIES)
+  _redoStack = []
+  return entry
+}
+
+/**
+ * Records `command` once `mutation` succeeds and resolves with its result.
+ * Without a command the mutation passes through untouched.
+ */
+export async function withUndo<T>(mutation: Promise<T>, command?: HistoryCommand): Promise<T> {
+  const result = await mutation
+  if (command) recordChange(command)
+  return result
+}
+
+/** Id of the most recently recorded change that can still be undone */
+export function latestChangeId(): string | undefined {
+  return _undoStack[_undoStack.length - 1]?.id
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+async function replay(direction: HistoryApplied['direction'], id?: string): Promise<boolean> {
+  const from = direction === 'undo' ? _undoStack : _redoStack
+  const entry = from[from.length - 1]
+  // Changes are replayed in order — an older entry can't skip ahead of newer ones
+  if (_busy || !entry || (id !== undefined && entry.id !== id)) return false
+
+  _busy = true
+  let error: unknown
+  try {
+    await (direction === 'undo' ? entry.undo() : entry.redo())
+  } catch (err) {
+    error = err
+  }
+
+  if (direction === 'undo') {
+    _undoStack = _undoStack.filter((e) => e !== entry)
+    if (error === undefined) _redoStack = [..._redoStack, entry]
+  } else {
+    _redoStack = _redoStack.filter((e) => e !== entry)
+    if (error === undefined) _undoStack = [..._undoStack, entry]
+  }
+  _busy = false
+  for (const listener of _appliedListeners) listener({ entry, direction, error })
+  return error === undefined
+}
+
+/**
+ * Revert the most recent change. With an `id`, only when that change is
+ * still the most recent one (e.g. the Undo button of a stale toast).
+ */
+export function undoChange(id?: string): Promise<boolean> {
+  return replay('undo', id)
+}
+
+/** Re-apply the most recently undone change */
+export function redoChange(): Promise<boolean> {
+  return replay('redo')
+}
+
+// ---------------------------------------------------------------------------
+// Subscriptions
+// ---------------------------------------------------------------------------
+
+/** Called after every undo or redo, successful or not */
+export function onHistoryApplied(listener: AppliedListener): () => void {
+  _appliedListeners.add(listener)
+  return () => {
+    _appliedListeners.delete(listener)
+  }
+}
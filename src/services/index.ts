@@ -1,4 +1,5 @@
-export { api, ApiError, buildQuery } from './api'
+export { api, ApiError, buildQuery, isAbortError } from './api'
+export type { RequestOptions } from './api'
 export { authApi, getAuthMode, getAuthToken, setAuthToken, setAuthMode } from './auth'
 export { workspacesApi } from './workspaces'
 export { projectsApi } from './projects'
@@ -6,11 +7,38 @@ export { plansApi } from './plans'
 export { tasksApi } from './tasks'
 export { notesApi } from './notes'
 export { codeApi } from './code'
-export type { SearchDocument, SearchResult, ArchitectureOverview } from './code'
+export type {
+  SearchDocument,
+  SearchResult,
+  ArchitectureOverview,
+  FileSymbols,
+  ImpactAnalysis,
+  FileDependencies,
+  CallGraphNode,
+} from './code'
 export { featureGraphsApi } from './featureGraphs'
 export { chatApi } from './chat'
 export { ChatWebSocket } from './chatWebSocket'
 export { EventBusClient, getEventBus } from './eventBus'
+export { getOfflineState, onOfflineState, onReplay, checkNow as checkConnectivity } from './offline'
+export type { QueuedMutation, ReplayResult } from './offline'
+export {
+  recordChange,
+  withUndo,
+  latestChangeId,
+  undoChange,
+  redoChange,
+  onHistoryApplied,
+} from './history'
+export type { HistoryCommand, HistoryEntry, HistoryApplied, UndoOptions, UndoableUpdate } from './history'
+export {
+  configureNotifications,
+  getNotificationPermission,
+  requestNotificationPermission,
+  notify,
+  notifyChatEvent,
+} from './notifications'
+export type { NotificationPermissionState } from './notifications'
 export {
   forceLogout,
   refreshToken,
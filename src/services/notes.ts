@@ -1,4 +1,5 @@
-import { api, buildQuery } from './api'
+import { api, buildQuery, type RequestOptions } from './api'
+import { withUndo, type UndoOptions, type UndoableUpdate } from './history'
 import type { Note, PaginatedResponse, CreateNoteRequest } from '@/types'
 
 interface ListParams {
@@ -12,6 +13,8 @@ interface ListParams {
   search?: string
   limit?: number
   offset?: number
+  sort_by?: string
+  sort_order?: 'asc' | 'desc'
   /** Filter notes by workspace (all projects in the workspace) */
   workspace_slug?: string
 }
@@ -25,19 +28,31 @@ interface SearchParams {
   limit?: number
 }
 
+type UpdateNoteRequest = Partial<{ content: string; importance: string; status: string; tags: string[] }>
+
+const linkNote = (noteId: string, entityType: string, entityId: string) =>
+  api.post(`/notes/${noteId}/links`, { entity_type: entityType, entity_id: entityId })
+
+const unlinkNote = (noteId: string, entityType: string, entityId: string) =>
+  api.delete(`/notes/${noteId}/links/${entityType}/${entityId}`)
+
 export const notesApi = {
   // Notes
-  list: (params: ListParams = {}) =>
-    api.get<PaginatedResponse<Note>>(`/notes${buildQuery(params)}`),
+  list: (params: ListParams = {}, options?: RequestOptions) =>
+    api.get<PaginatedResponse<Note>>(`/notes${buildQuery(params)}`, options),
 
-  get: (noteId: string) => api.get<Note>(`/notes/${noteId}`),
+  get: (noteId: string, options?: RequestOptions) => api.get<Note>(`/notes/${noteId}`, options),
 
   create: (data: CreateNoteRequest) => api.post<Note>('/notes', data),
 
-  update: (
-    noteId: string,
-    data: Partial<{ content: string; importance: string; status: string; tags: string[] }>
-  ) => api.patch<Note>(`/notes/${noteId}`, data),
+  /** With `undo`, the change is recorded in the undo history */
+  update: (noteId: string, data: UpdateNoteRequest, undo?: UndoableUpdate<UpdateNoteRequest>) => {
+    const patch = (body: UpdateNoteRequest) => api.patch<Note>(`/notes/${noteId}`, body)
+    return withUndo(
+      patch(data),
+      undo && { label: undo.label, entityType: 'note', undo: () => patch(undo.previous), redo: () => patch(data) },
+    )
+  },
 
   delete: (noteId: string) => api.delete(`/notes/${noteId}`),
 
@@ -59,14 +74,31 @@ export const notesApi = {
   supersede: (
     noteId: string,
     data: { project_id: string; note_type: string; content: string; importance?: string; tags?: string[] }
-  ) => api.post(`/notes/${noteId}/supersede`, data),
+  ) => api.post<Note>(`/notes/${noteId}/supersede`, data),
 
   // Links
-  linkToEntity: (noteId: string, entityType: string, entityId: string) =>
-    api.post(`/notes/${noteId}/links`, { entity_type: entityType, entity_id: entityId }),
+  // Link and unlink are each other's undo
+  linkToEntity: (noteId: string, entityType: string, entityId: string, undo?: UndoOptions) =>
+    withUndo(
+      linkNote(noteId, entityType, entityId),
+      undo && {
+        label: undo.label,
+        entityType: 'note',
+        undo: () => unlinkNote(noteId, entityType, entityId),
+        redo: () => linkNote(noteId, entityType, entityId),
+      },
+    ),
 
-  unlinkFromEntity: (noteId: string, entityType: string, entityId: string) =>
-    api.delete(`/notes/${noteId}/links/${entityType}/${entityId}`),
+  unlinkFromEntity: (noteId: string, entityType: string, entityId: string, undo?: UndoOptions) =>
+    withUndo(
+      unlinkNote(noteId, entityType, entityId),
+      undo && {
+        label: undo.label,
+        entityType: 'note',
+        undo: () => linkNote(noteId, entityType, entityId),
+        redo: () => unlinkNote(noteId, entityType, entityId),
+      },
+    ),
 
   // Context notes (propagated through graph)
   getContextNotes: (
@@ -0,0 +1,149 @@
+/**
+ * notifications — browser and desktop notifications for events that need the
+ * user's attention while they're looking elsewhere.
+ *
+ * Module-level singleton:
+ * - Browser: Web Notifications API, click handled on the Notification object
+ * - Desktop (Tauri): @tauri-apps/plugin-notification, click reported through
+ *   `onAction` with the target stored in `extra`
+ *
+ * Nothing is shown while the app window is visible and focused. Settings and
+ * the click handler (navigation, chat panel) are injected from the React tree
+ * by `useNotifications`.
+ */
+
+import type { ChatEvent, NotificationEventType, NotificationSettings, NotificationTarget } from '@/types'
+import { isTauri } from './env'
+
+export type NotificationPermissionState = 'granted' | 'denied' | 'default' | 'unsupported'
+
+interface AppNotification {
+  type: NotificationEventType
+  title: string
+  body?: string
+  target: NotificationTarget
+}
+
+/** Chat turns shorter than this finish while the user is still waiting — no notification */
+const LONG_TURN_MS = 15_000
+const MAX_BODY_LENGTH = 140
+
+// ---------------------------------------------------------------------------
+// Injectable dependencies (set from useNotifications at MainLayout mount)
+// ---------------------------------------------------------------------------
+
+type ClickHandler = (target: NotificationTarget) => void
+
+let _settings: NotificationSettings | null = null
+let _onClick: ClickHandler | null = null
+let _tauriActionListener: Promise<unknown> | null = null
+
+/** Inject the current settings and the click-through handler */
+export function configureNotifications(settings: NotificationSettings, onClick: ClickHandler): void {
+  _settings = settings
+  _onClick = onClick
+  if (isTauri && !_tauriActionListener) {
+    _tauriActionListener = import('@tauri-apps/plugin-notification')
+      .then(({ onAction }) =>
+        onAction((notification) => {
+          const target = notification.extra?.target as NotificationTarget | undefined
+          if (target) _onClick?.(target)
+        }),
+      )
+      .catch(() => null)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Permission
+// ---------------------------------------------------------------------------
+
+export async function getNotificationPermission(): Promise<NotificationPermissionState> {
+  if (isTauri) {
+    try {
+      const { isPermissionGranted } = await import('@tauri-apps/plugin-notification')
+      return (await isPermissionGranted()) ? 'granted' : 'default'
+    } catch {
+      return 'unsupported'
+    }
+  }
+  if (typeof Notification === 'undefined') return 'unsupported'
+  return Notification.permission
+}
+
+/** Ask for permission — must be called from a user gesture in browsers */
+export async function requestNotificationPermission(): Promise<NotificationPermissionState> {
+  if (isTauri) {
+    try {
+      const { requestPermission } = await import('@tauri-apps/plugin-notification')
+      const result = await requestPermission()
+      return result === 'granted' ? 'granted' : result === 'denied' ? 'denied' : 'default'
+    } catch {
+      return 'unsupported'
+    }
+  }
+  if (typeof Notification === 'undefined') return 'unsupported'
+  return Notification.requestPermission()
+}
+
+// ---------------------------------------------------------------------------
+// Sending
+// ---------------------------------------------------------------------------
+
+function isAppInView(): boolean {
+  return document.visibilityState === 'visible' && document.hasFocus()
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_BODY_LENGTH ? `${text.slice(0, MAX_BODY_LENGTH - 1)}…` : text
+}
+
+/** Show a notification if its type is enabled and the app isn't in view */
+export async function notify({ type, title, body, target }: AppNotification): Promise<void> {
+  if (!_settings?.enabled || !_settings.types[type] || isAppInView()) return
+  const text = body ? truncate(body) : undefined
+  // Same tag replaces the previous notification for the same target
+  const tag = target.kind === 'chat' ? `chat-${target.sessionId}` : `task-${target.taskId}`
+
+  if (isTauri) {
+    try {
+      const { isPermissionGranted, sendNotification } = await import('@tauri-apps/plugin-notification')
+      if (!(await isPermissionGranted())) return
+      sendNotification({ title, body: text, group: tag, extra: { target } })
+    } catch {
+      // Notification plugin not registered — silently skip
+    }
+    return
+  }
+
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return
+  const notification = new Notification(title, { body: text, tag })
+  notification.onclick = () => {
+    window.focus()
+    _onClick?.(target)
+    notification.close()
+  }
+}
+
+/**
+ * Notify about a live chat event: a long turn finishing (`result`) or a tool
+ * waiting for approval (`permission_request`). Replayed events are ignored.
+ */
+export function notifyChatEvent(sessionId: string, event: ChatEvent & { replaying?: boolean }): void {
+  if (event.replaying) return
+  const target: NotificationTarget = { kind: 'chat', sessionId }
+
+  if (event.type === 'permission_request') {
+    void notify({ type: 'permission_request', title: 'Permission requested', body: `The agent wants to run ${event.tool}`, target })
+    return
+  }
+  if (event.type === 'result' && event.duration_ms >= LONG_TURN_MS) {
+    const failed = event.is_error || (event.subtype !== undefined && event.subtype !== 'success')
+    void notify({
+      type: 'chat_result',
+      title: failed ? 'Agent turn failed' : 'Agent finished',
+      body: event.result_text,
+      target,
+    })
+  }
+}
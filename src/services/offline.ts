@@ -0,0 +1,269 @@
+/**
+ * offline — Response cache and mutation queue for when the backend is unreachable.
+ *
+ * Module-level singleton used by `request()` in api.ts:
+ * - GET responses are cached per endpoint. While the backend is unreachable,
+ *   cached reads are served immediately and revalidated in the background
+ *   (stale-while-revalidate), so pages keep their data instead of erroring.
+ * - Mutations flagged as queueable (status changes, step toggles) are stored
+ *   in localStorage when the network is down and replayed in order once
+ *   connectivity returns.
+ *
+ * Connectivity is lost on network errors (see `isNetworkError`) and recovered by
+ * a background probe, the browser `online` event or an explicit `checkNow()`.
+ */
+
+import type { OfflineState } from '@/types'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface QueuedMutation {
+  id: string
+  method: string
+  endpoint: string
+  body?: string
+  queuedAt: string
+}
+
+export interface ReplayResult {
+  replayed: number
+  /** Mutations the server rejected — dropped from the queue */
+  rejected: QueuedMutation[]
+}
+
+type StateListener = (state: OfflineState) => void
+type ReplayListener = (result: ReplayResult) => void
+type Sender = (mutation: QueuedMutation) => Promise<void>
+
+const QUEUE_KEY = 'po-offline-queue'
+const CACHE_MAX_ENTRIES = 200
+const PROBE_INTERVAL_MS = 5000
+/**
+ * Gateway errors from the Vite dev proxy when the backend is down. A 503
+ * comes from the backend itself, so it is reported rather than queued.
+ */
+const GATEWAY_STATUSES = [502, 504]
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+let _online = true
+let _queue: QueuedMutation[] = loadQueue()
+let _sender: Sender | null = null
+let _probe: (() => Promise<boolean>) | null = null
+let _probeTimer: ReturnType<typeof setInterval> | null = null
+let _replaying = false
+
+const _cache = new Map<string, unknown>()
+const _stateListeners = new Set<StateListener>()
+const _replayListeners = new Set<ReplayListener>()
+
+function loadQueue(): QueuedMutation[] {
+  try {
+    const raw = localStorage.getItem(QUEUE_KEY)
+    return raw ? (JSON.parse(raw) as QueuedMutation[]) : []
+  } catch {
+    return []
+  }
+}
+
+function persistQueue(): void {
+  try {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(_queue))
+  } catch {
+    // localStorage might be unavailable — the queue still lives in memory
+  }
+}
+
+function emit(): void {
+  const state = getOfflineState()
+  for (const listener of _stateListeners) listener(state)
+}
+
+// ---------------------------------------------------------------------------
+// Connectivity
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a failed request means "backend unreachable" rather than "backend
+ * rejected the request": fetch() network errors (TypeError) and proxy
+ * gateway errors.
+ */
+export function isNetworkError(err: unknown): boolean {
+  if (err instanceof TypeError) return true
+  const status = (err as { status?: unknown } | null)?.status
+  return typeof status === 'number' && GATEWAY_STATUSES.includes(status)
+}
+
+export function isGatewayStatus(status: number): boolean {
+  return GATEWAY_STATUSES.includes(status)
+}
+
+export function getOfflineState(): OfflineState {
+  return { online: _online, pending: _queue.length }
+}
+
+export function isOnline(): boolean {
+  return _online
+}
+
+/** Subscribe to online/pending changes. Returns an unsubscribe function. */
+export function onOfflineState(listener: StateListener): () => void {
+  _stateListeners.add(listener)
+  return () => _stateListeners.delete(listener)
+}
+
+/** Subscribe to the outcome of each queue replay. Returns an unsubscribe function. */
+export function onReplay(listener: ReplayListener): () => void {
+  _replayListeners.add(listener)
+  return () => _replayListeners.delete(listener)
+}
+
+/**
+ * Inject the transport used to replay queued mutations and probe the backend
+ * (called once from api.ts, which owns auth and headers).
+ */
+export function configureOffline(sender: Sender, probe: () => Promise<boolean>): void {
+  _sender = sender
+  _probe = probe
+  if (_queue.length > 0) void checkNow()
+}
+
+export function markOffline(): void {
+  if (!_online) return
+  _online = false
+  emit()
+  if (!_probeTimer) {
+    _probeTimer = setInterval(() => void checkNow(), PROBE_INTERVAL_MS)
+  }
+}
+
+export function markOnline(): void {
+  if (_probeTimer) {
+    clearInterval(_probeTimer)
+    _probeTimer = null
+  }
+  if (!_online) {
+    _online = true
+    emit()
+  }
+  if (_queue.length > 0) void replayQueue()
+}
+
+/** Probe the backend now (e.g. when the EventBus reconnects) */
+export async function checkNow(): Promise<void> {
+  if (!_probe) return
+  if (await _probe()) markOnline()
+  else markOffline()
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => void checkNow())
+}
+
+/**
+ * Forget cached responses and queued mutations (on logout), so the next user
+ * of this browser neither sees nor replays them.
+ */
+export function clearOfflineData(): void {
+  _cache.clear()
+  _queue = []
+  try {
+    localStorage.removeItem(QUEUE_KEY)
+  } catch {
+    // localStorage might be unavailable — nothing was persisted then
+  }
+  emit()
+}
+
+// ---------------------------------------------------------------------------
+// Response cache
+// ---------------------------------------------------------------------------
+
+export function readCache<T>(endpoint: string): T | undefined {
+  return _cache.get(endpoint) as T | undefined
+}
+
+export function hasCache(endpoint: string): boolean {
+  return _cache.has(endpoint)
+}
+
+export function writeCache(endpoint: string, data: unknown): void {
+  // Re-insert so Map iteration order doubles as LRU order
+  _cache.delete(endpoint)
+  _cache.set(endpoint, data)
+  if (_cache.size > CACHE_MAX_ENTRIES) {
+    _cache.delete(_cache.keys().next().value as string)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Mutation queue
+// ---------------------------------------------------------------------------
+
+/** Merge two JSON object bodies; the newer one wins field by field */
+function mergeBodies(older?: string, newer?: string): string | undefined {
+  try {
+    return JSON.stringify({ ...JSON.parse(older || '{}'), ...JSON.parse(newer || '{}') })
+  } catch {
+    return newer
+  }
+}
+
+export function enqueueMutation(method: string, endpoint: string, body?: string): void {
+  // A newer PATCH to the same endpoint folds into the pending one (e.g. status toggled twice)
+  const existing = _queue.find((m) => m.method === method && m.endpoint === endpoint)
+  // (unless that one is already in flight)
+  if (existing && method === 'PATCH' && !(_replaying && existing === _queue[0])) {
+    existing.body = mergeBodies(existing.body, body)
+    existing.queuedAt = new Date().toISOString()
+    persistQueue()
+    emit()
+    return
+  }
+  _queue.push({
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    method,
+    endpoint,
+    body,
+    queuedAt: new Date().toISOString(),
+  })
+  persistQueue()
+  emit()
+}
+
+/**
+ * Send queued mutations in order. Stops at the first network failure (still
+ * offline); mutations the server rejects are dropped and reported.
+ */
+async function replayQueue(): Promise<void> {
+  if (_replaying || !_sender) return
+  _replaying = true
+  const result: ReplayResult = { replayed: 0, rejected: [] }
+  try {
+    while (_queue.length > 0) {
+      const mutation = _queue[0]
+      try {
+        await _sender(mutation)
+        result.replayed++
+      } catch (err) {
+        if (isNetworkError(err)) {
+          markOffline()
+          break
+        }
+        result.rejected.push(mutation)
+      }
+      _queue = _queue.slice(1)
+      persistQueue()
+      emit()
+    }
+  } finally {
+    _replaying = false
+  }
+  if (result.replayed > 0 || result.rejected.length > 0) {
+    for (const listener of _replayListeners) listener(result)
+  }
+}
@@ -1,4 +1,5 @@
-import { api, buildQuery } from './api'
+import { api, buildQuery, type RequestOptions } from './api'
+import { withUndo, type UndoableUpdate } from './history'
 import type {
   Plan,
   PlanDetails,
@@ -8,6 +9,7 @@ import type {
   PaginatedResponse,
   CreatePlanRequest,
   CreateTaskRequest,
+  Commit,
 } from '@/types'
 
 interface ListParams {
@@ -27,15 +29,24 @@ interface ListParams {
 
 export const plansApi = {
   // Plans
-  list: (params: ListParams = {}) =>
-    api.get<PaginatedResponse<Plan>>(`/plans${buildQuery(params)}`),
+  list: (params: ListParams = {}, options?: RequestOptions) =>
+    api.get<PaginatedResponse<Plan>>(`/plans${buildQuery(params)}`, options),
 
-  get: (planId: string) => api.get<PlanDetails>(`/plans/${planId}`),
+  get: (planId: string, options?: RequestOptions) => api.get<PlanDetails>(`/plans/${planId}`, options),
 
   create: (data: CreatePlanRequest) => api.post<Plan>('/plans', data),
 
-  updateStatus: (planId: string, status: string) =>
-    api.patch<Plan>(`/plans/${planId}`, { status }),
+  update: (planId: string, data: Partial<{ title: string; description: string; priority: number }>) =>
+    api.patch<Plan>(`/plans/${planId}`, data, { queueOffline: true }),
+
+  /** With `undo`, the change is recorded in the undo history */
+  updateStatus: (planId: string, status: string, undo?: UndoableUpdate<string>) => {
+    const patch = (value: string) => api.patch<Plan>(`/plans/${planId}`, { status: value }, { queueOffline: true })
+    return withUndo(
+      patch(status),
+      undo && { label: undo.label, entityType: 'plan', undo: () => patch(undo.previous), redo: () => patch(status) },
+    )
+  },
 
   delete: (planId: string) => api.delete(`/plans/${planId}`),
 
@@ -46,22 +57,22 @@ export const plansApi = {
     api.delete(`/plans/${planId}/project`),
 
   // Dependency graph
-  getDependencyGraph: (planId: string) =>
-    api.get<DependencyGraph>(`/plans/${planId}/dependency-graph`),
+  getDependencyGraph: (planId: string, options?: RequestOptions) =>
+    api.get<DependencyGraph>(`/plans/${planId}/dependency-graph`, options),
 
-  getCriticalPath: (planId: string) =>
-    api.get<{ tasks: Task[]; total_priority: number }>(`/plans/${planId}/critical-path`),
+  getCriticalPath: (planId: string, options?: RequestOptions) =>
+    api.get<{ tasks: Task[]; total_priority: number }>(`/plans/${planId}/critical-path`, options),
 
   // Tasks in plan
   createTask: (planId: string, data: CreateTaskRequest) =>
     api.post<Task>(`/plans/${planId}/tasks`, data),
 
-  getNextTask: (planId: string) =>
-    api.get<Task | null>(`/plans/${planId}/next-task`),
+  getNextTask: (planId: string, options?: RequestOptions) =>
+    api.get<Task | null>(`/plans/${planId}/next-task`, options),
 
   // Constraints
-  listConstraints: (planId: string) =>
-    api.get<Constraint[]>(`/plans/${planId}/constraints`),
+  listConstraints: (planId: string, options?: RequestOptions) =>
+    api.get<Constraint[]>(`/plans/${planId}/constraints`, options),
 
   addConstraint: (
     planId: string,
@@ -72,9 +83,10 @@ export const plansApi = {
     api.delete(`/constraints/${constraintId}`),
 
   // Commits
-  getCommits: (planId: string) =>
-    api.get<{ items: { sha: string; message: string; author?: string; timestamp: string }[] }>(
-      `/plans/${planId}/commits`
+  getCommits: (planId: string, options?: RequestOptions) =>
+    api.get<{ items: Commit[] }>(
+      `/plans/${planId}/commits`,
+      options,
     ),
 
   linkCommit: (planId: string, commitSha: string) =>
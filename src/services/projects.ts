@@ -1,4 +1,4 @@
-import { api, buildQuery } from './api'
+import { api, buildQuery, type RequestOptions } from './api'
 import type {
   Project,
   Plan,
@@ -11,6 +11,7 @@ import type {
   CreateMilestoneRequest,
   CreateReleaseRequest,
   MilestoneProgress,
+  Commit,
 } from '@/types'
 
 interface ListParams {
@@ -26,7 +27,7 @@ export const projectsApi = {
   list: (params: ListParams = {}) =>
     api.get<PaginatedResponse<Project>>(`/projects${buildQuery(params)}`),
 
-  get: (slug: string) => api.get<Project>(`/projects/${slug}`),
+  get: (slug: string, options?: RequestOptions) => api.get<Project>(`/projects/${slug}`, options),
 
   create: (data: CreateProjectRequest) =>
     api.post<Project>('/projects', data),
@@ -48,13 +49,14 @@ export const projectsApi = {
   createMilestone: (projectId: string, data: CreateMilestoneRequest) =>
     api.post<Milestone>(`/projects/${projectId}/milestones`, data),
 
-  getMilestone: (milestoneId: string) =>
+  getMilestone: (milestoneId: string, options?: RequestOptions) =>
     api.get<{ milestone: Milestone; tasks: Task[] }>(
-      `/milestones/${milestoneId}`
+      `/milestones/${milestoneId}`,
+      options,
     ),
 
   updateMilestone: (milestoneId: string, data: Partial<{ title: string; description: string; status: string; target_date: string }>) =>
-    api.patch<Milestone>(`/milestones/${milestoneId}`, data),
+    api.patch<Milestone>(`/milestones/${milestoneId}`, data, { queueOffline: true }),
 
   addTaskToMilestone: (milestoneId: string, taskId: string) =>
     api.post(`/milestones/${milestoneId}/tasks`, { task_id: taskId }),
@@ -69,9 +71,10 @@ export const projectsApi = {
   createRelease: (projectId: string, data: CreateReleaseRequest) =>
     api.post<Release>(`/projects/${projectId}/releases`, data),
 
-  getRelease: (releaseId: string) =>
-    api.get<Release & { tasks: { id: string; title: string; status: string }[]; commits: { sha: string; message: string }[] }>(
-      `/releases/${releaseId}`
+  getRelease: (releaseId: string, options?: RequestOptions) =>
+    api.get<Release & { tasks: { id: string; title: string; status: string }[]; commits: Commit[] }>(
+      `/releases/${releaseId}`,
+      options,
     ),
 
   updateRelease: (releaseId: string, data: Partial<{ title: string; description: string; status: string; target_date: string; released_at: string }>) =>
@@ -80,6 +83,9 @@ export const projectsApi = {
   addTaskToRelease: (releaseId: string, taskId: string) =>
     api.post(`/releases/${releaseId}/tasks`, { task_id: taskId }),
 
+  removeTaskFromRelease: (releaseId: string, taskId: string) =>
+    api.delete(`/releases/${releaseId}/tasks/${taskId}`),
+
   addCommitToRelease: (releaseId: string, commitSha: string) =>
     api.post(`/releases/${releaseId}/commits`, { commit_sha: commitSha }),
 }
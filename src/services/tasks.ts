@@ -1,4 +1,5 @@
-import { api, buildQuery } from './api'
+import { api, buildQuery, type RequestOptions } from './api'
+import { withUndo, type UndoableUpdate } from './history'
 import type {
   Task,
   TaskWithPlan,
@@ -8,6 +9,7 @@ import type {
   StepProgress,
   PaginatedResponse,
   UpdateTaskRequest,
+  Commit,
 } from '@/types'
 
 interface ListParams {
@@ -17,6 +19,7 @@ interface ListParams {
   priority_max?: number
   tags?: string
   assigned_to?: string
+  search?: string
   limit?: number
   offset?: number
   sort_by?: string
@@ -29,13 +32,19 @@ interface ListParams {
 
 export const tasksApi = {
   // Tasks
-  list: (params: ListParams = {}) =>
-    api.get<PaginatedResponse<TaskWithPlan>>(`/tasks${buildQuery(params)}`),
+  list: (params: ListParams = {}, options?: RequestOptions) =>
+    api.get<PaginatedResponse<TaskWithPlan>>(`/tasks${buildQuery(params)}`, options),
 
-  get: (taskId: string) => api.get<TaskDetails>(`/tasks/${taskId}`),
+  get: (taskId: string, options?: RequestOptions) => api.get<TaskDetails>(`/tasks/${taskId}`, options),
 
-  update: (taskId: string, data: UpdateTaskRequest) =>
-    api.patch<Task>(`/tasks/${taskId}`, data),
+  /** With `undo`, the change is recorded in the undo history */
+  update: (taskId: string, data: UpdateTaskRequest, undo?: UndoableUpdate<UpdateTaskRequest>) => {
+    const patch = (body: UpdateTaskRequest) => api.patch<Task>(`/tasks/${taskId}`, body, { queueOffline: true })
+    return withUndo(
+      patch(data),
+      undo && { label: undo.label, entityType: 'task', undo: () => patch(undo.previous), redo: () => patch(data) },
+    )
+  },
 
   delete: (taskId: string) => api.delete(`/tasks/${taskId}`),
 
@@ -59,8 +68,13 @@ export const tasksApi = {
   addStep: (taskId: string, data: { description: string; verification?: string }) =>
     api.post<Step>(`/tasks/${taskId}/steps`, data),
 
-  updateStep: (stepId: string, status: string) =>
-    api.patch<Step>(`/steps/${stepId}`, { status }),
+  updateStep: (stepId: string, status: string, undo?: UndoableUpdate<string>) => {
+    const patch = (value: string) => api.patch<Step>(`/steps/${stepId}`, { status: value }, { queueOffline: true })
+    return withUndo(
+      patch(status),
+      undo && { label: undo.label, entityType: 'step', undo: () => patch(undo.previous), redo: () => patch(status) },
+    )
+  },
 
   deleteStep: (stepId: string) => api.delete(`/steps/${stepId}`),
 
@@ -79,9 +93,10 @@ export const tasksApi = {
   ) => api.post<Decision>(`/tasks/${taskId}/decisions`, data),
 
   // Commits
-  getCommits: (taskId: string) =>
-    api.get<{ items: { sha: string; message: string; author?: string; timestamp: string }[] }>(
-      `/tasks/${taskId}/commits`
+  getCommits: (taskId: string, options?: RequestOptions) =>
+    api.get<{ items: Commit[] }>(
+      `/tasks/${taskId}/commits`,
+      options,
     ),
 
   linkCommit: (taskId: string, commitSha: string) =>
@@ -1,4 +1,4 @@
-import { api, buildQuery } from './api'
+import { api, buildQuery, type RequestOptions } from './api'
 import type {
   Workspace,
   WorkspaceMilestone,
@@ -7,11 +7,21 @@ import type {
   Project,
   Resource,
   Component,
+  ComponentDependency,
   PaginatedResponse,
   CreateWorkspaceRequest,
   CreateResourceRequest,
   CreateComponentRequest,
   MilestoneProgress,
+  ActivityEntry,
+  EntityType,
+  CrudAction,
+  SavedView,
+  SavedViewPage,
+  CreateSavedViewRequest,
+  BoardWipSettings,
+  WipBoard,
+  WorkspaceWipSettings,
 } from '@/types'
 
 interface ListParams {
@@ -40,6 +50,31 @@ export const workspacesApi = {
   getOverview: (slug: string) =>
     api.get<WorkspaceOverview>(`/workspaces/${slug}/overview`),
 
+  // Activity history (recorded CRUD events, newest first)
+  listActivity: (
+    slug: string,
+    params: { limit?: number; offset?: number; entity_type?: EntityType; action?: CrudAction; project_id?: string } = {},
+    options?: RequestOptions,
+  ) =>
+    api.get<PaginatedResponse<ActivityEntry>>(`/workspaces/${slug}/activity${buildQuery(params)}`, options),
+
+  // Kanban WIP limits, shared by everyone in the workspace
+  getWipSettings: (slug: string) =>
+    api.get<WorkspaceWipSettings>(`/workspaces/${slug}/wip-limits`),
+
+  updateWipSettings: (slug: string, board: WipBoard, settings: BoardWipSettings) =>
+    api.put<BoardWipSettings>(`/workspaces/${slug}/wip-limits/${board}`, settings),
+
+  // Saved views shared with the workspace (personal views stay client-side)
+  listViews: (slug: string, page: SavedViewPage) =>
+    api.get<SavedView[]>(`/workspaces/${slug}/views${buildQuery({ page })}`),
+
+  createView: (slug: string, data: CreateSavedViewRequest) =>
+    api.post<SavedView>(`/workspaces/${slug}/views`, data),
+
+  deleteView: (slug: string, viewId: string) =>
+    api.delete(`/workspaces/${slug}/views/${viewId}`),
+
   // Projects in workspace (backend returns full Project objects as raw array)
   listProjects: (slug: string) =>
     api.get<Project[]>(`/workspaces/${slug}/projects`),
@@ -51,7 +86,7 @@ export const workspacesApi = {
     api.delete(`/workspaces/${slug}/projects/${projectId}`),
 
   // Workspace Milestones
-  listMilestones: (slug: string, params: { status?: string; limit?: number; offset?: number } = {}) =>
+  listMilestones: (slug: string, params: { status?: string; search?: string; limit?: number; offset?: number } = {}) =>
     api.get<PaginatedResponse<WorkspaceMilestone>>(
       `/workspaces/${slug}/milestones${buildQuery(params)}`
     ),
@@ -59,11 +94,11 @@ export const workspacesApi = {
   createMilestone: (slug: string, data: { title: string; description?: string; target_date?: string; tags?: string[] }) =>
     api.post<WorkspaceMilestone>(`/workspaces/${slug}/milestones`, data),
 
-  getMilestone: (id: string) =>
-    api.get<MilestoneDetail>(`/workspace-milestones/${id}`),
+  getMilestone: (id: string, options?: RequestOptions) =>
+    api.get<MilestoneDetail>(`/workspace-milestones/${id}`, options),
 
   updateMilestone: (id: string, data: Partial<{ title: string; description: string; status: string; target_date: string }>) =>
-    api.patch<WorkspaceMilestone>(`/workspace-milestones/${id}`, data),
+    api.patch<WorkspaceMilestone>(`/workspace-milestones/${id}`, data, { queueOffline: true }),
 
   deleteMilestone: (id: string) => api.delete(`/workspace-milestones/${id}`),
 
@@ -120,6 +155,6 @@ export const workspacesApi = {
   getTopology: (slug: string) =>
     api.get<{
       components: Component[]
-      dependencies: { from_id: string; to_id: string; protocol?: string; required: boolean }[]
+      dependencies: ComponentDependency[]
     }>(`/workspaces/${slug}/topology`),
 }
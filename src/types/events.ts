@@ -28,6 +28,48 @@ export interface CrudEvent {
   payload: Record<string, unknown>
   timestamp: string
   project_id?: string
+  /** Who made the change (user name or agent session), when the backend knows */
+  actor?: string
+  /** Set by the event bus on events missed while disconnected and replayed on reconnect */
+  replaying?: boolean
+}
+
+/** A recorded CrudEvent from the workspace activity history */
+export interface ActivityEntry extends CrudEvent {
+  id: string
+  /** Entity title or name at the time of the change */
+  entity_title?: string
+  project_name?: string
 }
 
 export type EventBusStatus = 'connected' | 'disconnected' | 'reconnecting'
+
+/** Outcome of synchronizing the event bus after a (re)connect */
+export interface EventBusSync {
+  /**
+   * - `fresh`: first connect, nothing to catch up on
+   * - `replayed`: events missed while disconnected were replayed
+   * - `resync`: the server couldn't replay — everything should be refetched
+   */
+  mode: 'fresh' | 'replayed' | 'resync'
+  /** Number of events replayed (`replayed` mode only) */
+  replayed: number
+  syncedAt: Date
+}
+
+/** Backend reachability from the API layer, with mutations queued while offline */
+export interface OfflineState {
+  online: boolean
+  pending: number
+}
+
+/** Events that can raise a browser / desktop notification */
+export type NotificationEventType = 'chat_result' | 'permission_request' | 'task_blocked' | 'task_failed'
+
+/** Where a notification click should take the user */
+export type NotificationTarget = { kind: 'chat'; sessionId: string } | { kind: 'task'; taskId: string }
+
+export interface NotificationSettings {
+  enabled: boolean
+  types: Record<NotificationEventType, boolean>
+}
@@ -578,6 +578,8 @@ export interface CreateTaskRequest {
 export interface UpdateTaskRequest {
   title?: string
   status?: TaskStatus
+  /** Move the task to another plan */
+  plan_id?: string
   assigned_to?: string
   priority?: number
   tags?: string[]
@@ -625,3 +627,52 @@ export interface CreateComponentRequest {
   config?: Record<string, unknown>
   tags?: string[]
 }
+
+// ============================================================================
+// KANBAN SETTINGS
+// ============================================================================
+
+export type WipBoard = 'task' | 'plan' | 'milestone'
+
+/** What happens when a card is dropped into a column at its WIP limit */
+export type WipPolicy = 'warn' | 'block' | 'justify'
+
+export interface BoardWipSettings {
+  /** Max cards per column, keyed by status; missing = unlimited */
+  limits: Record<string, number>
+  policy: WipPolicy
+}
+
+/** WIP settings stored on a workspace, per board */
+export type WorkspaceWipSettings = Partial<Record<WipBoard, BoardWipSettings>>
+
+// ============================================================================
+// SAVED VIEWS
+// ============================================================================
+
+export type SavedViewPage = 'tasks' | 'plans' | 'notes'
+
+/** Personal views live in this browser; shared views are stored per workspace */
+export type SavedViewScope = 'personal' | 'shared'
+
+/** Page state captured by a saved view */
+export interface SavedViewState {
+  /** Page-specific filter values */
+  filters: Record<string, unknown>
+  view_mode?: 'list' | 'kanban' | 'timeline'
+  /** `field:order`, e.g. `priority:desc` */
+  sort?: string
+}
+
+export interface SavedView extends SavedViewState {
+  id: string
+  name: string
+  page: SavedViewPage
+  scope: SavedViewScope
+  created_at: string
+}
+
+export interface CreateSavedViewRequest extends SavedViewState {
+  name: string
+  page: SavedViewPage
+}
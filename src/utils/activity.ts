@@ -0,0 +1,120 @@
+import type { ActivityEntry, CrudEvent, EntityType } from '@/types'
+import { workspacePath } from './paths'
+
+const ENTITY_LABELS: Record<EntityType, string> = {
+  project: 'Project',
+  plan: 'Plan',
+  task: 'Task',
+  step: 'Step',
+  decision: 'Decision',
+  constraint: 'Constraint',
+  commit: 'Commit',
+  release: 'Release',
+  milestone: 'Milestone',
+  workspace: 'Workspace',
+  workspace_milestone: 'Milestone',
+  resource: 'Resource',
+  component: 'Component',
+  note: 'Note',
+  chat_session: 'Chat session',
+}
+
+/** Note status changes read better as verbs than as "moved to obsolete" */
+const NOTE_STATUS_VERBS: Record<string, string> = {
+  active: 'confirmed',
+  needs_review: 'flagged for review',
+  stale: 'marked stale',
+  obsolete: 'invalidated',
+  archived: 'archived',
+}
+
+/** Relation fields carried by `linked` / `unlinked` payloads */
+const RELATION_LABELS: Record<string, string> = {
+  project_id: 'project',
+  plan_id: 'plan',
+  task_id: 'task',
+  milestone_id: 'milestone',
+  release_id: 'release',
+  workspace_id: 'workspace',
+  commit_sha: 'commit',
+}
+
+export function entityLabel(entityType: EntityType): string {
+  return ENTITY_LABELS[entityType] ?? entityType
+}
+
+/** Turn a live CrudEvent into an activity entry (live events carry no history id) */
+export function toActivityEntry(event: CrudEvent): ActivityEntry {
+  return { ...event, id: activityKey(event) }
+}
+
+/** Stable identity for de-duplicating live entries against fetched history */
+export function activityKey(event: CrudEvent): string {
+  return `${event.entity_type}:${event.entity_id}:${event.action}:${event.timestamp}`
+}
+
+/** Display name of the changed entity: recorded title, payload title/name, or a short id */
+export function activityTitle(entry: ActivityEntry): string {
+  const payload = entry.payload || {}
+  const title = entry.entity_title ?? payload.title ?? payload.name ?? payload.message
+  return typeof title === 'string' && title ? title : entry.entity_id.slice(0, 8)
+}
+
+/**
+ * What happened, as the phrase following the entity name.
+ *
+ * @example describeActivity(taskStatusEvent) → 'moved to completed'
+ * @example describeActivity(noteObsoleteEvent) → 'invalidated'
+ * @example describeActivity(planLinkedEvent) → 'linked to project'
+ */
+export function describeActivity(entry: ActivityEntry): string {
+  const payload = entry.payload || {}
+  const relation = Object.keys(payload).find((key) => key in RELATION_LABELS)
+
+  switch (entry.action) {
+    case 'created':
+      return 'created'
+    case 'deleted':
+      return 'deleted'
+    case 'linked':
+      return relation ? `linked to ${RELATION_LABELS[relation]}` : 'linked'
+    case 'unlinked':
+      return relation ? `unlinked from ${RELATION_LABELS[relation]}` : 'unlinked'
+    case 'updated': {
+      const status = payload.status
+      if (typeof status === 'string') {
+        if (entry.entity_type === 'note') return NOTE_STATUS_VERBS[status] ?? `marked ${status.replace(/_/g, ' ')}`
+        return `moved to ${status.replace(/_/g, ' ')}`
+      }
+      const fields = Object.keys(payload)
+      if (fields.length === 1) return `${fields[0].replace(/_/g, ' ')} changed`
+      return 'updated'
+    }
+  }
+}
+
+/** Route of the changed entity, when it has a page of its own */
+export function activityPath(slug: string, entry: ActivityEntry): string | undefined {
+  if (entry.action === 'deleted') return undefined
+  const id = entry.entity_id
+  switch (entry.entity_type) {
+    case 'plan':
+      return workspacePath(slug, `/plans/${id}`)
+    case 'task':
+      return workspacePath(slug, `/tasks/${id}`)
+    case 'note':
+      return workspacePath(slug, `/notes/${id}`)
+    case 'workspace_milestone':
+      return workspacePath(slug, `/milestones/${id}`)
+    case 'milestone':
+      return workspacePath(slug, `/project-milestones/${id}`)
+    case 'release':
+      return workspacePath(slug, `/releases/${id}`)
+    case 'project': {
+      const projectSlug = entry.payload?.slug
+      return typeof projectSlug === 'string' ? workspacePath(slug, `/projects/${projectSlug}`) : undefined
+    }
+    default:
+      return undefined
+  }
+}
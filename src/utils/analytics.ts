@@ -0,0 +1,193 @@
+import type { Task } from '@/types'
+
+/** The subset of task fields the delivery metrics are derived from */
+export type AnalyticsTask = Pick<
+  Task,
+  'id' | 'status' | 'created_at' | 'started_at' | 'completed_at' | 'estimated_complexity' | 'actual_complexity'
+> & { title?: string; description?: string }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+
+const time = (iso?: string) => {
+  const t = iso ? new Date(iso).getTime() : NaN
+  return Number.isNaN(t) ? undefined : t
+}
+
+const startOfDay = (ms: number) => {
+  const d = new Date(ms)
+  d.setHours(0, 0, 0, 0)
+  return d.getTime()
+}
+
+/** Monday 00:00 of the week containing `ms` */
+const startOfWeek = (ms: number) => {
+  const d = new Date(startOfDay(ms))
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7))
+  return d.getTime()
+}
+
+// ============================================================================
+// BURNDOWN
+// ============================================================================
+
+export interface Burndown {
+  /** Day start timestamps, one per point */
+  days: number[]
+  /** Open tasks (created, not yet completed) at the end of each day */
+  remaining: number[]
+  /** Straight line from the initial scope to zero on the target date, when one is set */
+  ideal?: number[]
+}
+
+/**
+ * Open tasks per day, from the first task's creation to today (or the target
+ * date, whichever is later). Scope added mid-way shows up as upward steps.
+ */
+export function computeBurndown(tasks: AnalyticsTask[], targetDate?: string, now = Date.now()): Burndown {
+  const created = tasks.map((t) => time(t.created_at)).filter((t): t is number => t !== undefined)
+  if (created.length === 0) return { days: [], remaining: [] }
+
+  const first = startOfDay(Math.min(...created))
+  const target = time(targetDate)
+  const last = startOfDay(Math.max(now, target ?? now))
+  const days: number[] = []
+  for (let d = first; d <= last; d += DAY_MS) days.push(d)
+
+  const today = startOfDay(now)
+  const remaining = days
+    .filter((d) => d <= today)
+    .map((d) => {
+      const end = d + DAY_MS
+      return tasks.filter((t) => {
+        const c = time(t.created_at)
+        const done = time(t.completed_at)
+        return c !== undefined && c < end && (done === undefined || done >= end)
+      }).length
+    })
+
+  let ideal: number[] | undefined
+  if (target !== undefined && target > first && remaining.length > 0) {
+    const span = startOfDay(target) - first
+    ideal = days.map((d) => Math.max(0, remaining[0] * (1 - (d - first) / span)))
+  }
+
+  return { days, remaining, ideal }
+}
+
+// ============================================================================
+// VELOCITY
+// ============================================================================
+
+export interface VelocityWeek {
+  /** Monday of the week */
+  weekStart: number
+  completed: number
+}
+
+/** Tasks completed per calendar week over the last `weeks` weeks, oldest first */
+export function computeWeeklyVelocity(tasks: AnalyticsTask[], weeks = 8, now = Date.now()): VelocityWeek[] {
+  const current = startOfWeek(now)
+  const result: VelocityWeek[] = []
+  for (let i = weeks - 1; i >= 0; i--) {
+    result.push({ weekStart: current - i * WEEK_MS, completed: 0 })
+  }
+  for (const task of tasks) {
+    const done = time(task.completed_at)
+    if (done === undefined) continue
+    const bucket = result.find((w) => done >= w.weekStart && done < w.weekStart + WEEK_MS)
+    if (bucket) bucket.completed++
+  }
+  return result
+}
+
+// ============================================================================
+// CYCLE TIME
+// ============================================================================
+
+export interface CycleTimeBucket {
+  label: string
+  count: number
+}
+
+export interface CycleTimeStats {
+  /** Number of completed tasks with both `started_at` and `completed_at` */
+  samples: number
+  /** Median start → completion time in days */
+  median?: number
+  buckets: CycleTimeBucket[]
+}
+
+const CYCLE_BUCKETS: { label: string; maxDays: number }[] = [
+  { label: '< 1d', maxDays: 1 },
+  { label: '1–3d', maxDays: 3 },
+  { label: '3–7d', maxDays: 7 },
+  { label: '1–2w', maxDays: 14 },
+  { label: '2w+', maxDays: Infinity },
+]
+
+/** Distribution of start → completion times for completed tasks */
+export function computeCycleTimes(tasks: AnalyticsTask[]): CycleTimeStats {
+  const durations = tasks
+    .map((t) => {
+      const start = time(t.started_at)
+      const done = time(t.completed_at)
+      return start !== undefined && done !== undefined && done >= start ? (done - start) / DAY_MS : undefined
+    })
+    .filter((d): d is number => d !== undefined)
+    .sort((a, b) => a - b)
+
+  const buckets = CYCLE_BUCKETS.map((b) => ({ label: b.label, count: 0 }))
+  for (const days of durations) {
+    buckets[CYCLE_BUCKETS.findIndex((b) => days < b.maxDays)].count++
+  }
+
+  const mid = Math.floor(durations.length / 2)
+  const median =
+    durations.length === 0
+      ? undefined
+      : durations.length % 2 === 1
+        ? durations[mid]
+        : (durations[mid - 1] + durations[mid]) / 2
+
+  return { samples: durations.length, median, buckets }
+}
+
+// ============================================================================
+// ESTIMATION ACCURACY
+// ============================================================================
+
+export interface ComplexityPoint {
+  id: string
+  title: string
+  estimated: number
+  actual: number
+}
+
+export interface ComplexityAccuracy {
+  points: ComplexityPoint[]
+  under: number
+  accurate: number
+  over: number
+  /** Mean of `actual - estimated`; positive means work ran larger than estimated */
+  meanDelta?: number
+}
+
+/** Estimated vs actual complexity for tasks that record both */
+export function computeComplexityAccuracy(tasks: AnalyticsTask[]): ComplexityAccuracy {
+  const points = tasks
+    .filter((t) => t.estimated_complexity != null && t.actual_complexity != null)
+    .map((t) => ({
+      id: t.id,
+      title: t.title || t.description || 'Untitled',
+      estimated: t.estimated_complexity as number,
+      actual: t.actual_complexity as number,
+    }))
+
+  const under = points.filter((p) => p.actual > p.estimated).length
+  const over = points.filter((p) => p.actual < p.estimated).length
+  const meanDelta =
+    points.length > 0 ? points.reduce((sum, p) => sum + (p.actual - p.estimated), 0) / points.length : undefined
+
+  return { points, under, accurate: points.length - under - over, over, meanDelta }
+}
@@ -0,0 +1,73 @@
+import type { Release } from '@/types'
+
+export interface ChangelogTask {
+  id: string
+  title: string
+  status: string
+  tags?: string[]
+}
+
+export interface ChangelogCommit {
+  sha: string
+  message: string
+}
+
+const OTHER_GROUP = 'other'
+
+/** Conventional commit type (`feat(api): …` → `feat`), if any */
+function commitTag(message: string): string | undefined {
+  const match = /^(\w+)(\([^)]*\))?!?:/.exec(message)
+  return match?.[1].toLowerCase()
+}
+
+function heading(tag: string): string {
+  return tag === OTHER_GROUP ? 'Other' : tag.charAt(0).toUpperCase() + tag.slice(1)
+}
+
+/**
+ * Build a Markdown changelog for a release.
+ *
+ * Tasks are grouped by their first tag and commits by their conventional
+ * commit type, so `feat` tasks and `feat:` commits land in the same section.
+ * Untagged entries go under "Other", which is always listed last.
+ */
+export function buildReleaseChangelog(
+  release: Release,
+  tasks: ChangelogTask[],
+  commits: ChangelogCommit[],
+): string {
+  const groups = new Map<string, string[]>()
+  const add = (tag: string | undefined, line: string) => {
+    const key = tag?.trim().toLowerCase() || OTHER_GROUP
+    groups.set(key, [...(groups.get(key) || []), line])
+  }
+
+  for (const task of tasks) {
+    add(task.tags?.[0], `- ${task.title}`)
+  }
+  for (const commit of commits) {
+    const subject = commit.message.split('\n')[0].trim()
+    add(commitTag(subject), `- ${subject} (\`${commit.sha.slice(0, 7)}\`)`)
+  }
+
+  const date = release.released_at || release.target_date
+  const lines = [`# v${release.version}${release.title ? ` — ${release.title}` : ''}`, '']
+  if (date) {
+    lines.push(`_${release.released_at ? 'Released' : 'Target'}: ${new Date(date).toLocaleDateString()}_`, '')
+  }
+  if (release.description) {
+    lines.push(release.description, '')
+  }
+
+  const tags = Array.from(groups.keys()).sort((a, b) =>
+    a === OTHER_GROUP ? 1 : b === OTHER_GROUP ? -1 : a.localeCompare(b),
+  )
+  if (tags.length === 0) {
+    lines.push('_No changes recorded._', '')
+  }
+  for (const tag of tags) {
+    lines.push(`## ${heading(tag)}`, '', ...(groups.get(tag) || []), '')
+  }
+
+  return lines.join('\n')
+}
@@ -8,3 +8,13 @@ export function workspacePath(slug: string, path: string): string {
   const normalized = path.startsWith('/') ? path : `/${path}`
   return `/workspace/${slug}${normalized}`
 }
+
+/**
+ * Build the code explorer path for a source file.
+ * The file path is URI-encoded into a single segment so absolute paths survive routing.
+ *
+ * @example codeFilePath('my-ws', 'src/main.rs') → '/workspace/my-ws/code/file/src%2Fmain.rs'
+ */
+export function codeFilePath(slug: string, filePath: string): string {
+  return workspacePath(slug, `/code/file/${encodeURIComponent(filePath)}`)
+}
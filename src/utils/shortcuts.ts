@@ -0,0 +1,152 @@
+/**
+ * Central keyboard shortcut registry.
+ *
+ * Components register bindings under a named scope (e.g. "Global", "Tasks")
+ * through `useShortcuts`. A single document listener dispatches key presses:
+ * page and dialog scopes take priority over the "Global" scope, and among
+ * those the most recently registered scope wins. Multi-key sequences such as
+ * `g p` are supported.
+ *
+ * Key syntax:
+ * - Printable characters match `KeyboardEvent.key` (`c`, `?`, `G`)
+ * - Named keys use their `key` value in lower case (`enter`, `escape`)
+ * - `mod+` means Cmd on macOS and Ctrl elsewhere, `alt+` is Alt/Option;
+ *   Shift shows in the key itself (`mod+Z` is Ctrl+Shift+Z)
+ * - Sequences are space separated: `g p`
+ */
+
+export interface Shortcut {
+  keys: string
+  description: string
+  handler: (e: KeyboardEvent) => void
+  /** Also fire while typing in a field or while a modal dialog is open */
+  allowInInput?: boolean
+}
+
+export interface ShortcutScope {
+  id: number
+  scope: string
+  /** Higher wins; the Global scope is lowest */
+  priority: number
+  bindings: Shortcut[]
+}
+
+/** Application-wide scope, overridden by any other scope binding the same keys */
+export const GLOBAL_SCOPE = 'Global'
+
+/** Max delay between two keys of a sequence */
+const SEQUENCE_TIMEOUT_MS = 1000
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+
+/** Normalize a key press into the token syntax used by bindings */
+function eventToken(e: KeyboardEvent): string {
+  const key = e.key.length === 1 ? e.key : e.key.toLowerCase()
+  const mod = isMac ? e.metaKey : e.ctrlKey
+  return `${mod ? 'mod+' : ''}${e.altKey ? 'alt+' : ''}${key}`
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  const tag = target.tagName
+  return tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT' || target.isContentEditable
+}
+
+function isModalOpen(): boolean {
+  return document.querySelector('[aria-modal="true"]') !== null
+}
+
+/** Human-readable label for a key token, used by the cheat sheet */
+export function formatShortcutKey(token: string): string {
+  return token
+    .replace(/\+([A-Z])$/, (_, key: string) => `+${isMac ? '⇧' : 'Shift+'}${key}`)
+    .replace('mod+', isMac ? '⌘' : 'Ctrl+')
+    .replace('alt+', isMac ? '⌥' : 'Alt+')
+    .replace('enter', '↵')
+    .replace('escape', 'Esc')
+}
+
+class ShortcutRegistry {
+  private scopes: ShortcutScope[] = []
+  private nextId = 1
+  private buffer: string[] = []
+  private bufferTimer: ReturnType<typeof setTimeout> | null = null
+  private listeners = new Set<() => void>()
+  private attached = false
+
+  register(scope: string, bindings: Shortcut[]): () => void {
+    // Effects of a page run before the layout's on first mount, so registration
+    // order alone can't tell which scope should win
+    const priority = scope === GLOBAL_SCOPE ? 0 : 1
+    const entry: ShortcutScope = { id: this.nextId++, scope, priority, bindings }
+    this.scopes = [...this.scopes, entry]
+    this.attach()
+    this.emit()
+    return () => {
+      this.scopes = this.scopes.filter((s) => s.id !== entry.id)
+      this.emit()
+    }
+  }
+
+  /** Registered scopes, oldest first (stable reference between changes) */
+  getSnapshot = (): ShortcutScope[] => this.scopes
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private emit() {
+    for (const listener of this.listeners) listener()
+  }
+
+  private attach() {
+    if (this.attached || typeof document === 'undefined') return
+    document.addEventListener('keydown', this.handleKeyDown)
+    this.attached = true
+  }
+
+  private resetBuffer() {
+    this.buffer = []
+    if (this.bufferTimer) clearTimeout(this.bufferTimer)
+    this.bufferTimer = null
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (e.defaultPrevented || e.isComposing) return
+    // Bare modifier presses never complete a binding
+    if (['Shift', 'Control', 'Meta', 'Alt'].includes(e.key)) return
+
+    const restricted = isEditableTarget(e.target) || isModalOpen()
+    const token = eventToken(e)
+    const sequence = [...this.buffer, token].join(' ')
+
+    // Highest priority first, then the most recently registered scope
+    const bindings = this.scopes
+      .slice()
+      .sort((a, b) => b.priority - a.priority || b.id - a.id)
+      .flatMap((s) => s.bindings)
+      .filter((b) => !restricted || b.allowInInput)
+
+    const match =
+      bindings.find((b) => b.keys === sequence) ??
+      (this.buffer.length > 0 ? bindings.find((b) => b.keys === token) : undefined)
+    if (match) {
+      e.preventDefault()
+      this.resetBuffer()
+      match.handler(e)
+      return
+    }
+
+    // Keep collecting keys while the sequence is a prefix of some binding
+    const prefixOf = (keys: string) => bindings.some((b) => b.keys.startsWith(`${keys} `))
+    const next = prefixOf(sequence) ? [...this.buffer, token] : prefixOf(token) ? [token] : []
+    this.resetBuffer()
+    if (next.length > 0) {
+      this.buffer = next
+      this.bufferTimer = setTimeout(() => this.resetBuffer(), SEQUENCE_TIMEOUT_MS)
+    }
+  }
+}
+
+export const shortcutRegistry = new ShortcutRegistry()
@@ -0,0 +1,21 @@
+const MAX_TITLE_LENGTH = 40
+
+/**
+ * Name an entity in an undo history label.
+ *
+ * @example entityName('task', 'Add login') → 'task "Add login"'
+ */
+export function entityName(noun: string, title?: string): string {
+  if (!title) return noun
+  const short = title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title
+  return `${noun} "${short}"`
+}
+
+/**
+ * Undo history label of a status change.
+ *
+ * @example statusChangeLabel('task', 'Add login', 'in_progress') → 'Move task "Add login" to in progress'
+ */
+export function statusChangeLabel(noun: string, title: string | undefined, status: string): string {
+  return `Move ${entityName(noun, title)} to ${status.replace(/_/g, ' ')}`
+}